@@ -0,0 +1,51 @@
+// Per-user entitlements (data/entitlements.json, keyed by userId)
+//
+//   {
+//     "accounts": [1, 2],            sdsIds the user may trade
+//     "orderTypes": {                order type -> currency pair symbols
+//       "STOP_LOSS": ["GBPUSD"],
+//       "*": ["*"]                   "*" matches any order type / any pair
+//     }
+//   }
+//
+// An entry for a specific order type replaces the "*" entry for that type, and
+// order types with no entry (and no "*") are not entitled. STOP_LOSS also needs
+// the pair's stopLossAllowed flag.
+
+const ANY = "*";
+
+const NO_ENTITLEMENTS = { accounts: [], orderTypes: {} };
+
+export const entitlementsForUser = (entitlementsByUser, userId) => ({
+  ...NO_ENTITLEMENTS,
+  ...entitlementsByUser?.[userId],
+});
+
+export const isAccountEntitled = (entitlements, sdsId) =>
+  entitlements.accounts.some((id) => String(id) === String(sdsId));
+
+const symbolsFor = (entitlements, orderType) =>
+  entitlements.orderTypes[orderType] ?? entitlements.orderTypes[ANY] ?? [];
+
+export const isOrderTypeEntitled = (entitlements, orderType) =>
+  symbolsFor(entitlements, orderType).length > 0;
+
+// orderType null/undefined: entitled for at least one order type
+export const isPairEntitled = (entitlements, orderType, pair) => {
+  if (orderType == null) {
+    return Object.keys(entitlements.orderTypes).some((type) =>
+      isPairEntitled(entitlements, type, pair)
+    );
+  }
+  const symbols = symbolsFor(entitlements, orderType);
+  if (!symbols.includes(ANY) && !symbols.includes(pair.symbol)) return false;
+  return orderType !== "STOP_LOSS" || pair.stopLossAllowed !== false;
+};
+
+// Why the pair can't be traded with orderType, or null when it can
+export const pairEntitlementError = (entitlements, orderType, pair) => {
+  if (isPairEntitled(entitlements, orderType, pair)) return null;
+  return orderType === "STOP_LOSS" && pair.stopLossAllowed === false
+    ? "Stop loss not allowed for this currency pair"
+    : "Currency pair not available for this order type";
+};
@@ -0,0 +1,91 @@
+// Caller identity
+//
+// Every GraphQL request runs as a user from data/users.json. Callers present a
+// signed token:
+// - HTTP:      "Authorization: Bearer <token>"
+// - WebSocket: connectionParams.authToken on graphql-ws connection_init
+//
+// Tokens are "<payload>.<signature>": base64url JSON { sub, iat, exp } signed
+// with HMAC-SHA256 using AUTH_TOKEN_SECRET. The user is looked up again on
+// every request, so removing them from users.json revokes their tokens.
+//
+//   issueToken(userId)             -> { token, expiresAt } | null (unknown user)
+//   authenticate(token)            -> user | null (bad signature, expired, unknown)
+//   fromAuthorizationHeader(value) -> user | null
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { readJsonFile } from "../storage/jsonFile.js";
+
+const DEV_TOKEN_SECRET = "fx-order-entry-dev-secret";
+const DEFAULT_TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+
+const encode = (value) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const decode = (value) =>
+  JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+
+export const createIdentityService = ({
+  usersPath,
+  secret,
+  ttlMs = DEFAULT_TOKEN_TTL_MS,
+}) => {
+  const sign = (payload) =>
+    createHmac("sha256", secret).update(payload).digest("base64url");
+
+  // Re-read so users can be added or removed without a restart
+  const findUser = (userId) =>
+    readJsonFile(usersPath, []).find((user) => user.userId === userId) ?? null;
+
+  const issueToken = (userId) => {
+    if (!findUser(userId)) return null;
+    const iat = Date.now();
+    const payload = encode({ sub: userId, iat, exp: iat + ttlMs });
+    return { token: `${payload}.${sign(payload)}`, expiresAt: iat + ttlMs };
+  };
+
+  const authenticate = (token) => {
+    if (typeof token !== "string") return null;
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    try {
+      const { sub, exp } = decode(payload);
+      if (!Number.isFinite(exp) || exp <= Date.now()) return null;
+      return findUser(sub);
+    } catch {
+      return null;
+    }
+  };
+
+  const fromAuthorizationHeader = (value) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(value ?? "");
+    return match ? authenticate(match[1]) : null;
+  };
+
+  return { issueToken, authenticate, fromAuthorizationHeader };
+};
+
+// AUTH_TOKEN_SECRET signs tokens (a fixed dev secret when unset),
+// AUTH_TOKEN_TTL_MS sets their lifetime
+export const createIdentityServiceFromEnv = (usersPath) => {
+  if (!process.env.AUTH_TOKEN_SECRET) {
+    console.warn(
+      "[AUTH] AUTH_TOKEN_SECRET not set - signing tokens with the dev secret"
+    );
+  }
+  return createIdentityService({
+    usersPath,
+    secret: process.env.AUTH_TOKEN_SECRET || DEV_TOKEN_SECRET,
+    ttlMs: Number(process.env.AUTH_TOKEN_TTL_MS) || DEFAULT_TOKEN_TTL_MS,
+  });
+};
@@ -0,0 +1,84 @@
+// Expiry for GTD/GTT orders
+//
+// The ticket collects expiryDate ("YYYY-MM-DD"), expiryTime ("HH:mm[:ss]") and
+// expiryTimeZone (IANA), and sends them folded into expiry.endTime (epoch ms)
+// and expiry.endTimeZone. The end time is worked out again here from the ticket
+// fields when they are all set, so the stored order always agrees with them;
+// expiry.endTime is used as sent otherwise. Ticket fields that are set but do
+// not resolve (a malformed date or time, an unknown time zone) are reported by
+// expiryError, and validation rejects the order. GTC orders never expire and
+// keep only their strategy. The simulator expires the order at this end time
+// (simulation/orderLifecycle.js).
+
+import { isKnownTimeZone, zonedTimeToEpoch } from "./zonedTime.js";
+
+const TIMED_STRATEGIES = ["GTD", "GTT"];
+
+// Calendar dates only (no 2030-02-30), and 24-hour times
+const isDate = (date) => {
+  const epoch = Date.parse(`${date}T00:00:00Z`);
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(date) &&
+    Number.isFinite(epoch) &&
+    new Date(epoch).toISOString().startsWith(date)
+  );
+};
+const isTime = (time) => /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(time);
+
+// The end time from the ticket fields: { endTime } when they resolve, { error }
+// (FieldValidation field and message) when they are all set but do not, and
+// null when any of them is missing
+const ticketEndTime = ({ expiryDate, expiryTime, expiryTimeZone }) => {
+  if (!expiryDate || !expiryTime || !expiryTimeZone) return null;
+  const error = (field, message) => ({ error: { field, message } });
+  if (!isDate(expiryDate)) {
+    return error("expiryDate", "Expiry date must be a YYYY-MM-DD date");
+  }
+  if (!isTime(expiryTime)) {
+    return error("expiryTime", "Expiry time must be a HH:mm[:ss] time");
+  }
+  if (!isKnownTimeZone(expiryTimeZone)) {
+    return error(
+      "expiryTimeZone",
+      `Unknown expiry timezone: ${expiryTimeZone}`
+    );
+  }
+  return {
+    endTime: zonedTimeToEpoch(expiryDate, expiryTime, expiryTimeZone),
+  };
+};
+
+// The order's expiry with endTime/endDate/endTimeZone from its ticket fields
+// (undefined when the order has no expiry)
+export const resolveExpiry = (order) => {
+  const { expiry, expiryDate, expiryTimeZone } = order;
+  if (!expiry) return undefined;
+  if (!TIMED_STRATEGIES.includes(expiry.strategy)) {
+    return { strategy: expiry.strategy };
+  }
+
+  const resolved = ticketEndTime(order);
+  if (resolved?.endTime === undefined) return expiry;
+  return {
+    strategy: expiry.strategy,
+    endTime: resolved.endTime,
+    endDate: expiryDate,
+    endTimeZone: expiryTimeZone,
+  };
+};
+
+// Why a GTD/GTT order's ticket fields do not resolve to an end time, as
+// { field, message }, or null when they do (or are not all set)
+export const expiryError = (order) =>
+  TIMED_STRATEGIES.includes(order.expiry?.strategy)
+    ? (ticketEndTime(order)?.error ?? null)
+    : null;
+
+// Epoch ms the order expires at, or null when it does not expire
+export const expiryTimeOf = (order) => {
+  const { expiry } = order;
+  return TIMED_STRATEGIES.includes(expiry?.strategy) &&
+    Number.isFinite(expiry.endTime)
+    ? expiry.endTime
+    : null;
+};
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { expiryError, resolveExpiry } from "./expiry.js";
+
+const gtd = (fields) => ({
+  expiry: { strategy: "GTD", endTime: 123 },
+  expiryDate: "2030-01-15",
+  expiryTime: "17:00",
+  expiryTimeZone: "Europe/London",
+  ...fields,
+});
+
+describe("expiry", () => {
+  describe("resolveExpiry", () => {
+    it("expect the end time worked out from the ticket fields", () => {
+      assert.deepEqual(resolveExpiry(gtd()), {
+        strategy: "GTD",
+        endTime: Date.UTC(2030, 0, 15, 17, 0),
+        endDate: "2030-01-15",
+        endTimeZone: "Europe/London",
+      });
+    });
+
+    it("expect GTC to keep only its strategy", () => {
+      assert.deepEqual(resolveExpiry(gtd({ expiry: { strategy: "GTC" } })), {
+        strategy: "GTC",
+      });
+    });
+  });
+
+  describe("expiryError", () => {
+    it("expect null when the ticket fields resolve or are not all set", () => {
+      assert.equal(expiryError(gtd()), null);
+      assert.equal(expiryError(gtd({ expiryTimeZone: "" })), null);
+      assert.equal(expiryError(gtd({ expiry: { strategy: "GTC" } })), null);
+    });
+
+    it("expect an unknown time zone on expiryTimeZone", () => {
+      assert.deepEqual(expiryError(gtd({ expiryTimeZone: "Mars/Olympus" })), {
+        field: "expiryTimeZone",
+        message: "Unknown expiry timezone: Mars/Olympus",
+      });
+    });
+
+    it("expect a malformed or out-of-range date on expiryDate", () => {
+      assert.equal(
+        expiryError(gtd({ expiryDate: "15/01/2030" }))?.field,
+        "expiryDate"
+      );
+      assert.equal(
+        expiryError(gtd({ expiryDate: "2030-02-30" }))?.field,
+        "expiryDate"
+      );
+    });
+
+    it("expect a malformed time on expiryTime", () => {
+      assert.equal(
+        expiryError(gtd({ expiryTime: "5pm" }))?.field,
+        "expiryTime"
+      );
+      assert.equal(
+        expiryError(gtd({ expiryTime: "24:00" }))?.field,
+        "expiryTime"
+      );
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// Fixing times for FIXING orders
+//
+// Fixings come from the fixingCombinations of the FIXING entry in
+// data/orderTypesWithPools.json: a wall-clock fixingTime ("HH:mm") in an IANA
+// fixingTimezone. The order's fixingDate ("YYYY-MM-DD") picks the day, so the
+// instant the order fills at depends on that zone's daylight saving rules.
+// Fixings are published on weekdays only.
+
+import { zonedTimeToEpoch } from "./zonedTime.js";
+
+const FIXING_ORDER_TYPE = "FIXING";
+
+// Fixings offered for FIXING orders
+export const fixingsFor = (orderTypesWithPools) =>
+  orderTypesWithPools.find((ot) => ot.orderType === FIXING_ORDER_TYPE)
+    ?.fixingCombinations ?? [];
+
+export const findFixing = (orderTypesWithPools, fixingId) =>
+  fixingsFor(orderTypesWithPools).find(
+    (f) => String(f.fixingId) === String(fixingId)
+  ) ?? null;
+
+export const isFixingDay = (date) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+};
+
+// Epoch the order fills at, or null when the fixing or date is unusable
+export const fixingInstant = (fixing, fixingDate) => {
+  if (!fixing || !/^\d{4}-\d{2}-\d{2}$/.test(fixingDate ?? "")) return null;
+  const epoch = zonedTimeToEpoch(
+    fixingDate,
+    fixing.fixingTime,
+    fixing.fixingTimezone
+  );
+  return Number.isFinite(epoch) ? epoch : null;
+};
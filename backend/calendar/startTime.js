@@ -0,0 +1,28 @@
+// Scheduled start for START_AT orders
+//
+// The ticket collects startDate ("YYYY-MM-DD"), startTime ("HH:mm[:ss]") and
+// timeZone (IANA), and sends them folded into startEpoch (epoch ms). The epoch
+// is worked out again here from the ticket fields when they are all set, so the
+// stored order always agrees with them; startEpoch is used as sent otherwise.
+// Orders that start now have no startEpoch. The simulator keeps the order in
+// PENDING_LIVE until then (simulation/orderLifecycle.js).
+
+import { zonedTimeToEpoch } from "./zonedTime.js";
+
+// Epoch ms the order starts at, or undefined when it starts now
+export const resolveStartEpoch = (order) => {
+  const { startMode, startDate, startTime, timeZone } = order;
+  if (startMode !== "START_AT") return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate ?? "") || !startTime || !timeZone) {
+    return order.startEpoch;
+  }
+
+  let startEpoch;
+  try {
+    startEpoch = zonedTimeToEpoch(startDate, startTime, timeZone);
+  } catch {
+    // Unknown time zone
+    return order.startEpoch;
+  }
+  return Number.isFinite(startEpoch) ? startEpoch : order.startEpoch;
+};
@@ -0,0 +1,164 @@
+// FX value dates for spot and forward tenors
+//
+// - trade date: today in New York, moving to the next day at the 17:00 New York
+//   FX day roll, and off weekends
+// - spot: T+2 business days (T+1 for SPOT_T1_PAIRS). Days counted towards spot
+//   only need to be business days for the pair's non-USD currencies; the spot
+//   date itself must also be a USD business day
+// - 1W..3W: spot + n weeks; 1M..1Y: spot + n months (clamped to month end)
+// - forward dates roll modified following: to the next good day, or back to the
+//   previous one when rolling forward would leave the month
+// - end-of-month: when spot is the last good day of its month, month tenors
+//   settle on the last good day of their month
+//
+// A good day is a weekday that is not a holiday for ccy1, ccy2 or USD, using
+// the calendars in data/holidayCalendars.json (currency -> ["YYYY-MM-DD"]).
+// Dates are "YYYY-MM-DD" strings, calculated as UTC dates.
+
+const USD = "USD";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FX_DAY_ROLL_TIME_ZONE = "America/New_York";
+const FX_DAY_ROLL_HOUR = 17;
+
+export const SPOT_T1_PAIRS = new Set([
+  "USDCAD",
+  "CADUSD",
+  "USDTRY",
+  "USDRUB",
+  "USDPHP",
+  "USDKZT",
+]);
+
+export const FORWARD_TENORS = [
+  ["1W", { weeks: 1 }],
+  ["2W", { weeks: 2 }],
+  ["3W", { weeks: 3 }],
+  ["1M", { months: 1 }],
+  ["2M", { months: 2 }],
+  ["3M", { months: 3 }],
+  ["6M", { months: 6 }],
+  ["9M", { months: 9 }],
+  ["1Y", { months: 12 }],
+];
+
+const parseDate = (iso) => new Date(`${iso}T00:00:00Z`);
+const formatDate = (date) => date.toISOString().slice(0, 10);
+const addDays = (date, days) => new Date(date.getTime() + days * DAY_MS);
+const isWeekend = (date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+// Same day of month n months on, or that month's last day when it is shorter
+const addMonths = (date, months) => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+};
+
+const endOfMonth = (date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+
+// Trade date for an instant (epoch ms)
+export const fxTradeDate = (now = Date.now()) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: FX_DAY_ROLL_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map(({ type, value }) => [type, value])
+  );
+  let date = parseDate(`${parts.year}-${parts.month}-${parts.day}`);
+  if (Number(parts.hour) >= FX_DAY_ROLL_HOUR) date = addDays(date, 1);
+  while (isWeekend(date)) date = addDays(date, 1);
+  return formatDate(date);
+};
+
+export const createValueDateCalculator = (holidayCalendars = {}) => {
+  const holidays = new Map(
+    Object.entries(holidayCalendars).map(([ccy, dates]) => [
+      ccy,
+      new Set(dates),
+    ])
+  );
+
+  const isBusinessDay = (date, ccys) =>
+    !isWeekend(date) &&
+    !ccys.some((ccy) => holidays.get(ccy)?.has(formatDate(date)));
+
+  const nextBusinessDay = (date, ccys) => {
+    let next = addDays(date, 1);
+    while (!isBusinessDay(next, ccys)) next = addDays(next, 1);
+    return next;
+  };
+
+  const previousBusinessDay = (date, ccys) => {
+    let previous = addDays(date, -1);
+    while (!isBusinessDay(previous, ccys)) previous = addDays(previous, -1);
+    return previous;
+  };
+
+  const modifiedFollowing = (date, ccys) => {
+    if (isBusinessDay(date, ccys)) return date;
+    const next = nextBusinessDay(date, ccys);
+    return next.getUTCMonth() === date.getUTCMonth()
+      ? next
+      : previousBusinessDay(date, ccys);
+  };
+
+  const lastBusinessDayOfMonth = (date, ccys) => {
+    const monthEnd = endOfMonth(date);
+    return isBusinessDay(monthEnd, ccys)
+      ? monthEnd
+      : previousBusinessDay(monthEnd, ccys);
+  };
+
+  const spotLagFor = (pair) => (SPOT_T1_PAIRS.has(pair.symbol) ? 1 : 2);
+
+  // pair: { symbol, ccy1, ccy2 }; tradeDate defaults to fxTradeDate()
+  const valueDates = (pair, tradeDate = fxTradeDate()) => {
+    const settlementCcys = [...new Set([pair.ccy1, pair.ccy2, USD])];
+    const spotLagCcys = [pair.ccy1, pair.ccy2].filter((ccy) => ccy !== USD);
+    const spotLag = spotLagFor(pair);
+
+    let spot = parseDate(tradeDate);
+    for (let day = 0; day < spotLag; day++) {
+      spot = nextBusinessDay(spot, spotLagCcys);
+    }
+    if (!isBusinessDay(spot, settlementCcys)) {
+      spot = nextBusinessDay(spot, settlementCcys);
+    }
+
+    const spotIsMonthEnd =
+      formatDate(spot) ===
+      formatDate(lastBusinessDayOfMonth(spot, settlementCcys));
+
+    const forwardDate = ({ weeks, months }) => {
+      if (weeks) {
+        return modifiedFollowing(addDays(spot, weeks * 7), settlementCcys);
+      }
+      const date = addMonths(spot, months);
+      return spotIsMonthEnd
+        ? lastBusinessDayOfMonth(date, settlementCcys)
+        : modifiedFollowing(date, settlementCcys);
+    };
+
+    return {
+      tradeDate,
+      spotLag,
+      spotDate: formatDate(spot),
+      tenorInfos: [
+        { tenorCode: "SPOT", valueDate: formatDate(spot) },
+        ...FORWARD_TENORS.map(([tenorCode, period]) => ({
+          tenorCode,
+          valueDate: formatDate(forwardDate(period)),
+        })),
+      ],
+    };
+  };
+
+  return { valueDates };
+};
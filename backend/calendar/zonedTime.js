@@ -0,0 +1,57 @@
+// Wall-clock times in IANA time zones
+//
+// Order times on the ticket (fixings, GTD/GTT expiry) are a date and time in a
+// named zone, so the instant they refer to depends on that zone's daylight
+// saving rules on the day.
+
+// Wall-clock fields of an instant in a time zone
+const zonedParts = (epoch, timeZone) =>
+  Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(epoch)
+      .filter(({ type }) => type !== "literal")
+      .map(({ type, value }) => [type, Number(value)])
+  );
+
+// Offset (ms) of a time zone from UTC at an instant
+const zoneOffset = (epoch, timeZone) => {
+  const p = zonedParts(epoch, timeZone);
+  const wallClock = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return wallClock - Math.floor(epoch / 1000) * 1000;
+};
+
+// Whether timeZone is an IANA time zone this runtime knows
+export const isKnownTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// ("YYYY-MM-DD", "HH:mm[:ss]", timeZone) -> epoch ms. The offset is looked up a
+// second time in case a daylight saving change falls between guess and result.
+export const zonedTimeToEpoch = (date, time, timeZone) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute, second = 0] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return wallClock - zoneOffset(guess, timeZone);
+};
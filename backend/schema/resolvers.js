@@ -1,7 +1,51 @@
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
+import { isDeepStrictEqual } from "util";
 import { v4 as uuidv4 } from "uuid";
+import {
+  EXECUTION_AGENT,
+  ORDER_STATUS,
+  applyFill,
+  applyIcebergQuantities,
+  canTransition,
+  createOrderSimulator,
+  executionPrice,
+  icebergQuantities,
+  isTerminalStatus,
+  transition,
+} from "../simulation/orderLifecycle.js";
+import {
+  createMarketSimulator,
+  getMarket,
+  topOfBook,
+} from "../simulation/marketState.js";
+import {
+  entitlementsForUser,
+  isAccountEntitled,
+  isOrderTypeEntitled,
+  isPairEntitled,
+  pairEntitlementError,
+} from "../auth/entitlements.js";
+import { resolveExpiry } from "../calendar/expiry.js";
+import { findFixing, fixingInstant } from "../calendar/fixings.js";
+import { resolveStartEpoch } from "../calendar/startTime.js";
+import { createValueDateCalculator } from "../calendar/valueDates.js";
+import { buildDepth } from "../simulation/depthOfBook.js";
+import { createOrderHistoryFromEnv } from "../storage/orderHistory.js";
+import { createOrderStoreFromEnv } from "../storage/orderStore.js";
+import {
+  checkAccountLimits,
+  computeHeadroom,
+  computeUsage,
+  createUsdConverter,
+  limitsForAccount,
+} from "../validation/accountLimits.js";
+import {
+  hasHardFailures,
+  TIME_CHECKS,
+  validateOrderEntry,
+} from "../validation/orderValidation.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -21,65 +65,351 @@ const writeJSON = (filename, data) => {
   writeFileSync(path, JSON.stringify(data, null, 2));
 };
 
-// Price simulation
-const generatePrice = (base, variance = 0.0002) => {
-  const change = (Math.random() - 0.5) * variance;
-  return Math.max(0.5, Math.min(2.0, base + change));
+// Blotter filter - returns true when an order matches every provided OrdersFilter field
+const matchesOrderFilter = (order, filter) => {
+  if (!filter) return true;
+  if (filter.currencyPair && order.order.currencyPair !== filter.currencyPair) {
+    return false;
+  }
+  if (filter.side && order.order.side !== filter.side) return false;
+  if (filter.orderType && order.order.orderType !== filter.orderType) {
+    return false;
+  }
+  if (
+    filter.account &&
+    String(order.order.account?.sdsId) !== String(filter.account)
+  ) {
+    return false;
+  }
+  if (
+    filter.statuses?.length &&
+    !filter.statuses.includes(order.execution.status)
+  ) {
+    return false;
+  }
+  return true;
+};
+
+// Per-user entitlements (data/entitlements.json): accounts, and currency pairs
+// per order type (see auth/entitlements.js)
+const entitlementsFor = (user) =>
+  entitlementsForUser(readJSON("entitlements.json"), user.userId);
+
+const accountsFor = (user) => {
+  const entitlements = entitlementsFor(user);
+  return (readJSON("accounts.json") || []).filter((account) =>
+    isAccountEntitled(entitlements, account.sdsId)
+  );
+};
+
+// Orders are only visible to, and changed by, the user who created them
+const ownsOrder = (order, user) => order.userId === user.userId;
+
+// All order reads/writes go through one store (ORDER_STORE=memory|file)
+export const orderStore = createOrderStoreFromEnv(
+  join(DATA_DIR, "orders.json")
+);
+
+// Reference data and stored orders the order rules check against (data files
+// are re-read so edits apply without a restart, like validateField). Accounts
+// are the caller's entitled ones; limit usage counts every user's orders.
+const loadValidationContext = async (user) => {
+  const currencyPairs = readJSON("currencyPairs.json") || [];
+  const midFor = (symbol) => getMarket(symbol).mid;
+  return {
+    currencyPairs,
+    accounts: accountsFor(user),
+    entitlements: entitlementsFor(user),
+    orderTypesWithPools: readJSON("orderTypesWithPools.json") || [],
+    limitsByAccount: readJSON("accountLimits.json") || {},
+    orders: await orderStore.list(),
+    midFor,
+    toUsd: createUsdConverter(currencyPairs, midFor),
+  };
+};
+
+// Order rules plus the account's pre-trade limits (excludeOrderId is the order
+// being amended, so its current amount isn't counted twice)
+const validateOrder = (order, context, excludeOrderId = null) => {
+  const results = validateOrderEntry(order, context);
+  if (order.account) {
+    const { sdsId } = order.account;
+    const limits = limitsForAccount(context.limitsByAccount, sdsId);
+    const usage = computeUsage(sdsId, context, excludeOrderId);
+    results.push(...checkAccountLimits(order, limits, usage, context));
+  }
+  return results;
+};
+
+// The execution's target end time (see simulation/orderLifecycle.js): FIXING
+// orders fill at their fixing time, TWAP orders are sliced up to
+// twapTargetEndTime; null for other order types
+const targetEndTimeFor = (order, { orderTypesWithPools }) => {
+  switch (order.orderType) {
+    case "FIXING":
+      return fixingInstant(
+        findFixing(orderTypesWithPools, order.fixingId),
+        order.fixingDate
+      );
+    case "TWAP":
+      return order.twapTargetEndTime ?? null;
+    default:
+      return null;
+  }
+};
+
+// START_AT orders keep their start in startEpoch and GTD/GTT orders their end
+// in expiry.endTime, worked out from the ticket's date, time and zone fields
+// (see calendar/startTime.js and calendar/expiry.js)
+const applyOrderTimes = (order) => {
+  const startEpoch = resolveStartEpoch(order);
+  if (startEpoch === undefined) delete order.startEpoch;
+  else order.startEpoch = startEpoch;
+  if (order.expiry) order.expiry = resolveExpiry(order);
+  return order;
+};
+
+// Every AmendOrder input field except orderId/orderType (checked separately)
+// and startEpoch (always worked out from the start fields by applyOrderTimes)
+const AMENDABLE_FIELDS = [
+  "amount",
+  "account",
+  "liquidityPool",
+  "level",
+  "iceberg",
+  "triggerSide",
+  "targetExecutionRate",
+  "participationRate",
+  "executionStyle",
+  "discretionFactor",
+  "delayBehaviour",
+  "skew",
+  "franchiseExposure",
+  "startTime",
+  "startDate",
+  "startMode",
+  "timeZone",
+  "twapTargetEndTime",
+  "twapTimeZone",
+  "fixingId",
+  "fixingDate",
+  "tenor",
+  "expiry",
+  "expiryTime",
+  "expiryDate",
+  "expiryTimeZone",
+  "orderOtherComments",
+  "rollInfo",
+];
+
+const REQUIRED_ORDER_FIELDS = new Set(["amount", "account"]);
+
+// Order fields behind each "has passed" check (TIME_CHECKS): an amend only
+// re-checks the times it changes, so a working order whose time has come (e.g.
+// a fixing already under way) can still have just its amount amended
+const TIME_CHECK_FIELDS = {
+  fixingDate: ["fixingId", "fixingDate"],
+  twapTargetEndTime: ["twapTargetEndTime"],
+  expiryTime: ["expiry", "expiryTime", "expiryDate", "expiryTimeZone"],
+};
+
+const changedTimeChecks = (before, after) =>
+  TIME_CHECKS.filter((check) =>
+    TIME_CHECK_FIELDS[check].some(
+      (field) => !isDeepStrictEqual(before[field], after[field])
+    )
+  );
+
+// GraphQL input objects carry explicit nulls for cleared fields - store them as
+// absent so orders.json only holds fields that are set
+const stripNulls = (value) => {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, v]) => v !== null && v !== undefined)
+      .map(([k, v]) => [k, stripNulls(v)])
+  );
 };
 
-// Active subscriptions storage
-const priceSubscriptions = new Map(); // currencyPair -> interval
-const orderSubscriptions = new Map(); // orderId -> interval
+// Cancel-all filter - same symbol, and same onshore/deliverable flags when the
+// order recorded them (deliverable is the inverse of the order's ndf flag)
+const matchesInstrument = (order, ccyPair) => {
+  if (order.currencyPair !== ccyPair.symbol) return false;
+  if (order.onshore != null && order.onshore !== ccyPair.onshore) return false;
+  if (order.ndf != null && order.ndf === ccyPair.deliverable) return false;
+  return true;
+};
+
+// Audit trail recorded from orderStore change events
+export const orderHistory = createOrderHistoryFromEnv(
+  orderStore,
+  join(DATA_DIR, "orderHistory.json")
+);
+
+// Shared top of book per currency pair (started by server.js)
+export const marketSimulator = createMarketSimulator();
+
+// Single lifecycle simulator for all orders (started by server.js)
+export const orderSimulator = createOrderSimulator({ store: orderStore });
+
+// Push-based async iterator over order store change events (same queue + push
+// pattern as globalUserPreferencesStream). select(order, previous) returns the
+// payload (or list of payloads) to send, or null to skip the change; the stream
+// ends after the payloads for an order where isDone(order) is true, or straight
+// after the initial payloads when done is set.
+const STREAM_DONE = Symbol("done");
+
+const watchOrders = ({
+  initial = [],
+  select,
+  isDone = () => false,
+  done = false,
+}) => {
+  const queue = done ? [...initial, STREAM_DONE] : [...initial];
+  let pendingResolve = null;
+  let active = true;
+  let finished = done; // nothing is queued after STREAM_DONE
+
+  const close = () => {
+    active = false;
+    unsubscribe();
+    if (pendingResolve) {
+      pendingResolve({ value: undefined, done: true });
+      pendingResolve = null;
+    }
+  };
+
+  const push = (value) => {
+    if (!active) return;
+    if (!pendingResolve) {
+      queue.push(value);
+      return;
+    }
+    const resolve = pendingResolve;
+    pendingResolve = null;
+    if (value === STREAM_DONE) {
+      resolve({ value: undefined, done: true });
+      close();
+    } else {
+      resolve({ value, done: false });
+    }
+  };
+
+  const unsubscribe = orderStore.subscribe(({ order, previous }) => {
+    if (finished) return;
+    const payload = select(order, previous);
+    if (!payload) return;
+    [].concat(payload).forEach(push);
+    if (isDone(order)) {
+      finished = true;
+      push(STREAM_DONE);
+    }
+  });
+
+  return {
+    next: () => {
+      if (!active) return Promise.resolve({ value: undefined, done: true });
+      if (queue.length > 0) {
+        const value = queue.shift();
+        if (value === STREAM_DONE) {
+          close();
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return Promise.resolve({ value, done: false });
+      }
+      return new Promise((resolve) => {
+        pendingResolve = resolve;
+      });
+    },
+    return: () => {
+      close();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    throw: (err) => {
+      close();
+      return Promise.reject(err);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+};
 
 // Global User Preferences subscription management.
 // We store subscriber iterator objects that expose an emit(payload) method so we can
 // push real-time updates (e.g. immediately after mutateGlobalUserPreferences).
+// Each iterator records its userId so updates only reach that user.
 const userPrefsSubscriptions = new Set();
 
+// userPreferences.json is keyed by userId
+const readUserPreferences = (user) =>
+  readJSON("userPreferences.json")?.[user.userId] || {
+    defaultGlobalAccount: null,
+  };
+
 export const resolvers = {
   Query: {
-    accounts: () => {
-      return readJSON("accounts.json") || [];
+    me: (_, __, { user }) => user,
+
+    accounts: (_, __, { user }) => {
+      return accountsFor(user);
     },
 
-    currencyPairs: (_, { orderType }) => {
+    // Pairs the caller may trade with orderType (any order type when omitted)
+    currencyPairs: (_, { orderType }, { user }) => {
       const pairs = readJSON("currencyPairs.json") || [];
-      // In a real system, you'd filter by orderType, currently just log orderType and return all
-      console.log(`[QUERY] currencyPairs with orderType: ${orderType}`);
-      return pairs;
+      const entitlements = entitlementsFor(user);
+      const entitled = pairs.filter((pair) =>
+        isPairEntitled(entitlements, orderType, pair)
+      );
+      console.log(
+        `[QUERY] currencyPairs with orderType: ${orderType} - ${entitled.length} of ${pairs.length} for ${user.userId}`
+      );
+      return entitled;
     },
 
-    orderTypesWithPools: () => {
-      return readJSON("orderTypesWithPools.json") || [];
+    orderTypesWithPools: (_, __, { user }) => {
+      const entitlements = entitlementsFor(user);
+      return (readJSON("orderTypesWithPools.json") || []).filter(
+        ({ orderType }) => isOrderTypeEntitled(entitlements, orderType)
+      );
     },
 
-    currencyPair: (_, { currencyPairId }) => {
+    // Spot and forward value dates (calendar/valueDates.js); holiday calendars
+    // are re-read so edits apply without a restart
+    currencyPair: (_, { currencyPairId, tradeDate }) => {
       const pairs = readJSON("currencyPairs.json") || [];
       const pair = pairs.find((p) => p.id === currencyPairId);
       if (!pair) {
         throw new Error(`Currency pair ${currencyPairId} not found`);
       }
+      if (tradeDate != null && !/^\d{4}-\d{2}-\d{2}$/.test(tradeDate)) {
+        throw new Error(`Invalid trade date ${tradeDate}, expected YYYY-MM-DD`);
+      }
 
-      // Generate tenor info
-      const tenors = ["SPOT", "1W", "1M", "3M", "6M", "1Y"];
-      const tenorInfos = tenors.map((tenor) => ({
-        tenorCode: tenor,
-        valueDate: new Date(
-          Date.now() + Math.random() * 365 * 24 * 60 * 60 * 1000
-        )
-          .toISOString()
-          .split("T")[0],
-      }));
-
+      const { valueDates } = createValueDateCalculator(
+        readJSON("holidayCalendars.json") || {}
+      );
       return {
         id: pair.id,
-        tenorInfos,
+        symbol: pair.symbol,
+        ...valueDates(pair, tradeDate ?? undefined),
       };
     },
 
-    validateField: async (_, { input }) => {
-      const { field, value, orderType, symbol, account, liquidityPool } =
-        input || {};
+    validateField: async (_, { input }, { user }) => {
+      const {
+        field,
+        value,
+        orderType,
+        symbol,
+        account,
+        liquidityPool,
+        side,
+        orderId,
+      } = input || {};
 
       const fail = (message, type = "HARD") => ({
         field,
@@ -96,18 +426,49 @@ export const resolvers = {
         const toNum = (v) =>
           v === null || v === undefined || v === "" ? NaN : Number(v);
 
-        if (field === "notional") {
-          const n = toNum(value);
+        // The ticket sends amount as JSON ({ amount, ccy }), notional as a number
+        if (field === "notional" || field === "amount") {
+          let amountValue = value;
+          let ccy = null;
+          try {
+            const parsed = JSON.parse(value);
+            if (parsed && typeof parsed === "object") {
+              amountValue = parsed.amount;
+              ccy = parsed.ccy;
+            }
+          } catch {
+            // Plain number
+          }
+
+          const n = toNum(amountValue);
           if (!Number.isFinite(n)) {
             return fail("Amount must be a number");
           }
           if (n <= 0) {
             return fail("Amount must be positive");
           }
-          if (n > 1_000_000_000) {
-            return fail("Exceeds firm trading limit", "SOFT");
+          if (!account) {
+            return pass();
           }
-          return pass();
+
+          // Per-account limits; a HARD breach wins over SOFT warnings
+          const context = await loadValidationContext(user);
+          const pair = context.currencyPairs.find((p) => p.symbol === symbol);
+          const order = {
+            currencyPair: symbol,
+            side: side ?? "BUY",
+            amount: { amount: n, ccy: ccy ?? pair?.ccy1 },
+            account: { sdsId: account },
+          };
+          const results = checkAccountLimits(
+            order,
+            limitsForAccount(context.limitsByAccount, account),
+            computeUsage(account, context, orderId),
+            context
+          );
+          const breach =
+            results.find((r) => r.type === "HARD") ?? results[0] ?? null;
+          return breach ? { ...breach, field } : pass();
         }
 
         if (field === "limitPrice" || field === "stopPrice") {
@@ -122,8 +483,7 @@ export const resolvers = {
         }
 
         if (field === "account" && account) {
-          const accounts = readJSON("accounts.json") || [];
-          const exists = accounts.some(
+          const exists = accountsFor(user).some(
             (a) => String(a.sdsId) === String(account)
           );
           if (!exists) {
@@ -146,10 +506,18 @@ export const resolvers = {
 
         if (field === "symbol" && symbol) {
           const ccy = readJSON("currencyPairs.json") || [];
-          const exists = ccy.some((cp) => cp.symbol === symbol);
-          if (!exists) {
+          const pair = ccy.find((cp) => cp.symbol === symbol);
+          if (!pair) {
             return fail("Currency pair not available");
           }
+          const entitlementError = pairEntitlementError(
+            entitlementsFor(user),
+            orderType,
+            pair
+          );
+          if (entitlementError) {
+            return fail(entitlementError);
+          }
           return pass();
         }
 
@@ -160,101 +528,229 @@ export const resolvers = {
         return fail("Validation error, please retry");
       }
     },
+
+    validateOrder: async (_, { orderEntry }, { user }) =>
+      validateOrder(
+        applyOrderTimes(stripNulls(orderEntry)),
+        await loadValidationContext(user)
+      ),
+
+    accountHeadroom: async (_, { sdsId, currencyPair }, { user }) => {
+      const context = await loadValidationContext(user);
+      if (!context.accounts.some((a) => String(a.sdsId) === String(sdsId))) {
+        throw new Error(`Account ${sdsId} not available`);
+      }
+      const limits = limitsForAccount(context.limitsByAccount, sdsId);
+      const usage = computeUsage(sdsId, context);
+      const pair = context.currencyPairs.find((p) => p.symbol === currencyPair);
+      return computeHeadroom(
+        sdsId,
+        limits,
+        usage,
+        pair ? [pair.ccy1, pair.ccy2] : []
+      );
+    },
+
+    orders: async (_, { filter }, { user }) => {
+      const orders = await orderStore.list();
+      // Newest first so the blotter shows the latest ticket at the top
+      return orders
+        .filter(
+          (order) => ownsOrder(order, user) && matchesOrderFilter(order, filter)
+        )
+        .sort((a, b) => (b.createdAt || "").localeCompare(a.createdAt || ""));
+    },
+
+    orderHistory: async (_, { orderId }, { user }) => {
+      const order = await orderStore.get(orderId);
+      if (!order || !ownsOrder(order, user)) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      return orderHistory.get(orderId);
+    },
   },
 
   Mutation: {
-    createOrder: (_, { orderEntry }) => {
+    createOrder: async (_, { orderEntry }, { user }) => {
+      const order = applyOrderTimes(stripNulls(orderEntry));
+      const context = await loadValidationContext(user);
+      const fieldFailures = validateOrder(order, context);
+      if (hasHardFailures(fieldFailures)) {
+        console.log(
+          `[CREATE ORDER] Rejected: ${fieldFailures.map((f) => f.field).join(", ")}`
+        );
+        return {
+          orderId: null,
+          result: "FAILURE",
+          failureReason: "Order failed validation",
+          fieldFailures,
+        };
+      }
+
       const orderId = uuidv4();
-      const orders = readJSON("orders.json") || {};
 
-      orders[orderId] = {
+      await orderStore.create({
         orderId,
         omsOrderId: `OMS-${orderId.substring(0, 8)}`,
-        order: {
-          ...orderEntry,
-          amount: {
-            amount: orderEntry.amount,
-            ccy: orderEntry.ccy,
-          },
-          account: {
-            sdsId: orderEntry.account,
-            name: "Account Name", // Would lookup from accounts
-          },
-        },
+        userId: user.userId,
+        // Stored as submitted, with the start and expiry times resolved; level
+        // orders trigger on order.level, START_AT orders start at startEpoch and
+        // GTD/GTT orders expire at expiry.endTime (see simulation/orderLifecycle.js)
+        order,
         execution: {
-          agent: "GATOR",
+          agent: EXECUTION_AGENT.AUTO,
           averageFillRate: 0,
           filled: {
             amount: 0,
-            ccy: orderEntry.ccy,
+            ccy: orderEntry.amount.ccy,
           },
-          status: "PENDING",
-          targetEndTime: null,
+          status: ORDER_STATUS.PENDING_LIVE,
+          statusUpdatedAt: Date.now(),
+          targetEndTime: targetEndTimeFor(order, context),
+          ...icebergQuantities(order, 0),
         },
         createdAt: new Date().toISOString(),
-      };
-
-      writeJSON("orders.json", orders);
+      });
 
-      console.log(`[CREATE ORDER] Order ${orderId} created`);
+      console.log(`[CREATE ORDER] Order ${orderId} created by ${user.userId}`);
 
       return {
         orderId,
         result: "SUCCESS",
         failureReason: null,
+        fieldFailures,
       };
     },
 
-    amendOrder: (_, { amendOrder }) => {
-      const orders = readJSON("orders.json") || {};
-      const order = orders[amendOrder.orderId];
+    amendOrder: async (_, { amendOrder }, { user }) => {
+      // Checked inside the store update so a concurrent simulator tick can't
+      // finish the order between the check and the write
+      let failureReason = "Order not found";
+      let fieldFailures = [];
+      const context = await loadValidationContext(user);
+
+      await orderStore.update(amendOrder.orderId, (order) => {
+        if (!ownsOrder(order, user)) return false;
+        if (isTerminalStatus(order.execution.status)) {
+          failureReason = `Order is ${order.execution.status}`;
+          return false;
+        }
+
+        if (
+          amendOrder.orderType != null &&
+          amendOrder.orderType !== order.order.orderType
+        ) {
+          failureReason = "Order type cannot be amended";
+          return false;
+        }
+        failureReason = null;
+        const before = structuredClone(order.order);
+
+        // Absent fields stay as they are, nulls clear them (amount and account
+        // are required on OrderDetail, so a null leaves those unchanged)
+        for (const field of AMENDABLE_FIELDS) {
+          if (amendOrder[field] === undefined) continue;
+          if (amendOrder[field] === null) {
+            if (!REQUIRED_ORDER_FIELDS.has(field)) delete order.order[field];
+          } else {
+            order.order[field] = stripNulls(amendOrder[field]);
+          }
+        }
+        if (amendOrder.level !== undefined) {
+          // CALL_LEVEL re-derives its trigger direction from the new level
+          delete order.execution.triggerDirection;
+        }
+
+        applyOrderTimes(order.order);
+
+        // The amended order must pass the same rules as a new one, except for
+        // the time checks on times it leaves as they were
+        fieldFailures = validateOrder(
+          order.order,
+          { ...context, timeChecks: changedTimeChecks(before, order.order) },
+          order.orderId
+        );
+        if (hasHardFailures(fieldFailures)) {
+          failureReason = "Amendment failed validation";
+          return false;
+        }
+        order.execution.targetEndTime = targetEndTimeFor(order.order, context);
+        applyIcebergQuantities(order);
+      });
 
-      if (!order) {
+      if (failureReason) {
         return {
           orderId: amendOrder.orderId,
           result: "FAILURE",
-          failureReason: "Order not found",
+          failureReason,
+          fieldFailures,
         };
       }
 
-      // Update order fields
-      if (amendOrder.amount !== undefined) {
-        order.order.amount.amount = amendOrder.amount;
-      }
-      if (amendOrder.limitPrice !== undefined) {
-        order.order.level = amendOrder.limitPrice;
-      }
-      if (amendOrder.timeInForce !== undefined) {
-        order.order.expiry = { strategy: amendOrder.timeInForce };
-      }
-
-      writeJSON("orders.json", orders);
-
       console.log(`[AMEND ORDER] Order ${amendOrder.orderId} amended`);
 
       return {
         orderId: amendOrder.orderId,
         result: "SUCCESS",
         failureReason: null,
+        fieldFailures,
       };
     },
 
-    cancelOrder: (_, { orderId }) => {
-      const orders = readJSON("orders.json") || {};
-      const order = orders[orderId];
+    cancelOrder: async (_, { orderId }, { user }) => {
+      let failureReason = "Order not found";
 
-      if (!order) {
-        return {
-          orderId,
-          result: "FAILURE",
-          failureReason: "Order not found",
-        };
+      await orderStore.update(orderId, (order) => {
+        if (!ownsOrder(order, user)) return false;
+        if (
+          !canTransition(order.execution.status, ORDER_STATUS.PENDING_CANCEL)
+        ) {
+          failureReason = `Cannot cancel order in status ${order.execution.status}`;
+          return false;
+        }
+        failureReason = null;
+
+        // Simulator completes PENDING_CANCEL -> CANCELLED
+        transition(order, ORDER_STATUS.PENDING_CANCEL);
+      });
+
+      if (failureReason) {
+        return { orderId, result: "FAILURE", failureReason };
       }
 
-      order.execution.status = "CANCELLED";
-      writeJSON("orders.json", orders);
+      console.log(`[CANCEL ORDER] Order ${orderId} pending cancel`);
+
+      return {
+        orderId,
+        result: "SUCCESS",
+        failureReason: null,
+      };
+    },
+
+    suspendOrder: async (_, { orderId }, { user }) => {
+      let failureReason = "Order not found";
+
+      await orderStore.update(orderId, (order) => {
+        if (!ownsOrder(order, user)) return false;
+        if (
+          !canTransition(order.execution.status, ORDER_STATUS.PENDING_SUSPEND)
+        ) {
+          failureReason = `Cannot suspend order in status ${order.execution.status}`;
+          return false;
+        }
+        failureReason = null;
+
+        // Simulator completes PENDING_SUSPEND -> LIVE_SUSPENDED; the order then
+        // stays suspended until resumeOrder
+        transition(order, ORDER_STATUS.PENDING_SUSPEND);
+        order.execution.suspendedByUser = true;
+      });
 
-      console.log(`[CANCEL ORDER] Order ${orderId} cancelled`);
+      if (failureReason) {
+        return { orderId, result: "FAILURE", failureReason };
+      }
+
+      console.log(`[SUSPEND ORDER] Order ${orderId} pending suspend`);
 
       return {
         orderId,
@@ -263,25 +759,67 @@ export const resolvers = {
       };
     },
 
-    fillOrder: (_, { orderId }) => {
-      const orders = readJSON("orders.json") || {};
-      const order = orders[orderId];
+    resumeOrder: async (_, { orderId }, { user }) => {
+      let failureReason = "Order not found";
 
-      if (!order) {
-        return {
-          orderId,
-          result: "FAILURE",
-          failureReason: "Order not found",
-        };
+      await orderStore.update(orderId, (order) => {
+        if (!ownsOrder(order, user)) return false;
+        if (
+          !canTransition(order.execution.status, ORDER_STATUS.PENDING_RESUME)
+        ) {
+          failureReason = `Cannot resume order in status ${order.execution.status}`;
+          return false;
+        }
+        failureReason = null;
+
+        // Simulator completes PENDING_RESUME -> LIVE
+        transition(order, ORDER_STATUS.PENDING_RESUME);
+        delete order.execution.suspendedByUser;
+      });
+
+      if (failureReason) {
+        return { orderId, result: "FAILURE", failureReason };
       }
 
-      order.execution.status = "FILLED";
-      order.execution.filled.amount = order.order.amount.amount;
-      order.execution.averageFillRate = order.order.level || 1.27;
+      console.log(`[RESUME ORDER] Order ${orderId} pending resume`);
 
-      writeJSON("orders.json", orders);
+      return {
+        orderId,
+        result: "SUCCESS",
+        failureReason: null,
+      };
+    },
 
-      console.log(`[FILL ORDER] Order ${orderId} filled`);
+    moveToManual: async (_, { orderId }, { user }) => {
+      let failureReason = "Order not found";
+
+      await orderStore.update(orderId, (order) => {
+        if (!ownsOrder(order, user)) return false;
+        if (order.execution.agent === EXECUTION_AGENT.MANUAL) {
+          failureReason = "Order is already manual";
+          return false;
+        }
+        if (
+          !canTransition(
+            order.execution.status,
+            ORDER_STATUS.PENDING_MOVE_TO_MANUAL
+          )
+        ) {
+          failureReason = `Cannot move order to manual in status ${order.execution.status}`;
+          return false;
+        }
+        failureReason = null;
+
+        // Simulator completes PENDING_MOVE_TO_MANUAL -> LIVE and hands the
+        // order to EXECUTION_AGENT_MANUAL
+        transition(order, ORDER_STATUS.PENDING_MOVE_TO_MANUAL);
+      });
+
+      if (failureReason) {
+        return { orderId, result: "FAILURE", failureReason };
+      }
+
+      console.log(`[MOVE TO MANUAL] Order ${orderId} pending move to manual`);
 
       return {
         orderId,
@@ -290,35 +828,128 @@ export const resolvers = {
       };
     },
 
-    cancelInstrumentAction: (_, { ccyPair }) => {
-      console.log(`[CANCEL INSTRUMENT] ${ccyPair.symbol}`);
+    fillOrder: async (_, { orderId, fillRate, quantity }, { user }) => {
+      let failureReason = "Order not found";
+
+      await orderStore.update(orderId, (order) => {
+        if (!ownsOrder(order, user)) return false;
+        const { execution } = order;
+        // Only the sales trader fills; automatic orders are left to the simulator
+        if (execution.agent !== EXECUTION_AGENT.MANUAL) {
+          failureReason = "Order is not under manual execution";
+          return false;
+        }
+        if (execution.status !== ORDER_STATUS.LIVE) {
+          failureReason = `Cannot fill order in status ${execution.status}`;
+          return false;
+        }
+
+        // Without a quantity the rest of the order fills, without a rate it
+        // fills at the market (BUY at the ask, SELL at the bid)
+        const total = order.order.amount.amount;
+        const remaining = total - execution.filled.amount;
+        const fillQuantity = quantity ?? remaining;
+        const rate =
+          fillRate ??
+          executionPrice(order, getMarket(order.order.currencyPair));
+        if (!(rate > 0)) {
+          failureReason = "Fill rate must be positive";
+          return false;
+        }
+        if (!(fillQuantity > 0)) {
+          failureReason = "Fill quantity must be positive";
+          return false;
+        }
+        if (fillQuantity > remaining) {
+          failureReason = `Fill quantity exceeds remaining ${remaining.toLocaleString("en-US")}`;
+          return false;
+        }
+        failureReason = null;
+
+        // Partial fills keep the order LIVE; the last one completes it
+        const now = Date.now();
+        applyFill(order, fillQuantity, rate, now, "MANUAL");
+        execution.lastFillAt = now;
+        if (execution.filled.amount >= total) {
+          transition(order, ORDER_STATUS.FILLED);
+        }
+      });
+
+      if (failureReason) {
+        return { orderId, result: "FAILURE", failureReason };
+      }
+
+      console.log(`[FILL ORDER] Order ${orderId} filled`);
 
       return {
-        userId: "user-123",
+        orderId,
         result: "SUCCESS",
         failureReason: null,
       };
     },
 
-    mutateGlobalUserPreferences: (_, { updateGlobalUserPreferenceRequest }) => {
-      const prefs = readJSON("userPreferences.json") || {
-        defaultGlobalAccount: null,
+    cancelInstrumentAction: async (_, { ccyPair }, { user }) => {
+      const orders = await orderStore.list();
+      const cancelledOrderIds = [];
+
+      // Every live order of the caller's on the instrument; each status is
+      // re-checked inside its update in case the simulator finished it in the
+      // meantime
+      for (const stored of orders) {
+        if (!ownsOrder(stored, user)) continue;
+        if (!matchesInstrument(stored.order, ccyPair)) continue;
+        const { orderId } = stored;
+
+        await orderStore.update(orderId, (o) => {
+          if (!canTransition(o.execution.status, ORDER_STATUS.PENDING_CANCEL)) {
+            return false;
+          }
+          transition(o, ORDER_STATUS.PENDING_CANCEL);
+          cancelledOrderIds.push(orderId);
+        });
+      }
+
+      console.log(
+        `[CANCEL INSTRUMENT] ${ccyPair.symbol}: ${cancelledOrderIds.length} order(s) pending cancel`
+      );
+
+      return {
+        userId: user.userId,
+        result: "SUCCESS",
+        failureReason: null,
+        cancelledOrderIds,
+        cancelledCount: cancelledOrderIds.length,
       };
+    },
 
-      if (updateGlobalUserPreferenceRequest.defaultGlobalAccount) {
-        prefs.defaultGlobalAccount = {
-          sdsId: updateGlobalUserPreferenceRequest.defaultGlobalAccount,
-          name: "Default Account",
-        };
+    mutateGlobalUserPreferences: (
+      _,
+      { updateGlobalUserPreferenceRequest },
+      { user }
+    ) => {
+      const prefs = readUserPreferences(user);
+
+      const { defaultGlobalAccount } = updateGlobalUserPreferenceRequest;
+      if (defaultGlobalAccount) {
+        const account = accountsFor(user).find(
+          (a) => String(a.sdsId) === String(defaultGlobalAccount)
+        );
+        if (!account) {
+          throw new Error(`Account ${defaultGlobalAccount} not available`);
+        }
+        prefs.defaultGlobalAccount = account;
       }
 
-      writeJSON("userPreferences.json", prefs);
+      writeJSON("userPreferences.json", {
+        ...readJSON("userPreferences.json"),
+        [user.userId]: prefs,
+      });
 
-      console.log("[USER PREFS] Updated global preferences");
-      // Immediately broadcast new preferences to all active subscribers
+      console.log(`[USER PREFS] Updated global preferences for ${user.userId}`);
+      // Immediately broadcast new preferences to the user's active subscribers
       const payload = { globalUserPreferencesStream: prefs };
       userPrefsSubscriptions.forEach((sub) => {
-        if (typeof sub.emit === "function") {
+        if (sub.userId === user.userId && typeof sub.emit === "function") {
           sub.emit(payload);
         }
       });
@@ -328,71 +959,69 @@ export const resolvers = {
 
   Subscription: {
     orderData: {
-      subscribe: async function* (_, { orderId }) {
+      subscribe: async (_, { orderId }, { user }) => {
         console.log(`[SUB] Order data subscription for ${orderId}`);
 
-        const orders = readJSON("orders.json") || {};
-        let order = orders[orderId];
+        const order = await orderStore.get(orderId);
 
-        if (!order) {
+        if (!order || !ownsOrder(order, user)) {
           throw new Error(`Order ${orderId} not found`);
         }
 
-        // Send initial state
-        yield { orderData: order };
-
-        // Simulate order lifecycle
-        const interval = setInterval(() => {
-          const currentOrders = readJSON("orders.json") || {};
-          const currentOrder = currentOrders[orderId];
-
-          if (currentOrder) {
-            // Simulate partial fills
-            if (currentOrder.execution.status === "PENDING") {
-              currentOrder.execution.status = "WORKING";
-            } else if (currentOrder.execution.status === "WORKING") {
-              const fillPercent = Math.min(
-                currentOrder.execution.filled.amount /
-                  currentOrder.order.amount.amount +
-                  0.1,
-                1
-              );
-              currentOrder.execution.filled.amount =
-                currentOrder.order.amount.amount * fillPercent;
-
-              if (fillPercent >= 1) {
-                currentOrder.execution.status = "FILLED";
-              } else if (fillPercent > 0) {
-                currentOrder.execution.status = "PARTIALLY_FILLED";
-              }
-            }
+        // Initial state, then every change made by the simulator and mutations
+        // until the order reaches a terminal status
+        const isDone = (o) => isTerminalStatus(o.execution.status);
+        return watchOrders({
+          initial: [{ orderData: order }],
+          select: (o) => (o.orderId === orderId ? { orderData: o } : null),
+          isDone,
+          done: isDone(order),
+        });
+      },
+    },
 
-            writeJSON("orders.json", currentOrders);
-          }
-        }, 2000);
+    ordersStream: {
+      subscribe: async (_, { filter }, { user }) => {
+        console.log(`[SUB] Orders stream subscription for ${user.userId}`);
+
+        // Every matching order of the caller's once, then each one as it is
+        // created or changes
+        const matches = (order) =>
+          ownsOrder(order, user) && matchesOrderFilter(order, filter);
+        const orders = await orderStore.list();
+        return watchOrders({
+          initial: orders
+            .filter(matches)
+            .map((order) => ({ ordersStream: order })),
+          select: (order) => (matches(order) ? { ordersStream: order } : null),
+        });
+      },
+    },
 
-        // Store subscription
-        orderSubscriptions.set(orderId, interval);
+    executionReports: {
+      subscribe: async (_, { orderId }, { user }) => {
+        console.log(`[SUB] Execution reports subscription for ${orderId}`);
 
-        // Stream updates
-        while (true) {
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-          const currentOrders = readJSON("orders.json") || {};
-          const currentOrder = currentOrders[orderId];
-
-          if (currentOrder) {
-            yield { orderData: currentOrder };
-
-            if (
-              currentOrder.execution.status === "FILLED" ||
-              currentOrder.execution.status === "CANCELLED"
-            ) {
-              clearInterval(interval);
-              orderSubscriptions.delete(orderId);
-              break;
-            }
-          }
+        const order = await orderStore.get(orderId);
+
+        if (!order || !ownsOrder(order, user)) {
+          throw new Error(`Order ${orderId} not found`);
         }
+
+        // Every fill so far, then each new fill (one payload per fill) until
+        // the order reaches a terminal status
+        const fillsOf = (o) => o?.execution.fills ?? [];
+        const toPayload = (fill) => ({ executionReports: fill });
+        const isDone = (o) => isTerminalStatus(o.execution.status);
+        return watchOrders({
+          initial: fillsOf(order).map(toPayload),
+          select: (o, previous) =>
+            o.orderId === orderId
+              ? fillsOf(o).slice(fillsOf(previous).length).map(toPayload)
+              : null,
+          isDone,
+          done: isDone(order),
+        });
       },
     },
 
@@ -420,39 +1049,35 @@ export const resolvers = {
         const currencyPair = subscription?.currencyPair || "GBPUSD";
         console.log(`[SUB] Gator data subscription for ${currencyPair}`);
 
-        let buyPrice = 1.27345;
-        let sellPrice = 1.27115;
-
-        const interval = setInterval(() => {
-          buyPrice = generatePrice(buyPrice);
-          sellPrice = generatePrice(sellPrice, 0.00015);
-        }, 1000);
-
-        priceSubscriptions.set(currencyPair, interval);
+        // Every subscriber to a pair reads the same ticking market
+        const market = getMarket(currencyPair);
+        let lastUpdatedAt = null;
 
         while (true) {
-          yield {
-            gatorData: {
-              topOfTheBookBuy: {
-                price: buyPrice,
-                precisionValue: Math.round(buyPrice * 100000) / 100000,
-              },
-              topOfTheBookSell: {
-                price: sellPrice,
-                precisionValue: Math.round(sellPrice * 100000) / 100000,
+          if (market.updatedAt !== lastUpdatedAt) {
+            lastUpdatedAt = market.updatedAt;
+            // Top of book is published at the pair's spot precision
+            const { ask, bid } = topOfBook(market);
+            yield {
+              gatorData: {
+                topOfTheBookBuy: { price: ask, precisionValue: ask },
+                topOfTheBookSell: { price: bid, precisionValue: bid },
+                depth: buildDepth(market, subscription || {}),
               },
-            },
-          };
+            };
+          }
 
-          await new Promise((resolve) => setTimeout(resolve, 1000));
+          await new Promise((resolve) => setTimeout(resolve, 250));
         }
       },
     },
 
     globalUserPreferencesStream: {
       // Custom async iterator allowing push-based and interval updates
-      subscribe: () => {
-        console.log("[SUB] Global user preferences subscription (registered)");
+      subscribe: (_, __, { user }) => {
+        console.log(
+          `[SUB] Global user preferences subscription for ${user.userId} (registered)`
+        );
 
         // Queue + push pattern for backpressure friendly async iterator
         const queue = [];
@@ -499,23 +1124,18 @@ export const resolvers = {
             return this;
           },
           emit: (payload) => push(payload),
+          userId: user.userId,
         };
 
         // Register subscriber
         userPrefsSubscriptions.add(iterator);
 
         // Initial immediate payload
-        const initialPrefs = readJSON("userPreferences.json") || {
-          defaultGlobalAccount: null,
-        };
-        push({ globalUserPreferencesStream: initialPrefs });
+        push({ globalUserPreferencesStream: readUserPreferences(user) });
 
         // Periodic polling every 5s to refresh (so manual edits to JSON file also appear)
         const intervalId = setInterval(() => {
-          const prefs = readJSON("userPreferences.json") || {
-            defaultGlobalAccount: null,
-          };
-          push({ globalUserPreferencesStream: prefs });
+          push({ globalUserPreferencesStream: readUserPreferences(user) });
         }, 5000);
 
         return iterator;
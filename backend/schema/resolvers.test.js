@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import { getNamedType, graphql, isObjectType, parse, subscribe } from "graphql";
+
+import { resolvers } from "./resolvers.js";
+import { typeDefs } from "./typeDefs.js";
+
+// Run with ORDER_STORE=memory (npm test) so nothing is written to data/
+const schema = makeExecutableSchema({ typeDefs, resolvers });
+const contextValue = { user: { userId: "user-123" } };
+
+// Selection set for every field of an output type, nested types included, so a
+// field added to OrderDetail is part of the round trip without editing the test
+const selectAll = (type) =>
+  `{ ${Object.values(type.getFields())
+    .map((field) => {
+      const named = getNamedType(field.type);
+      return isObjectType(named)
+        ? `${field.name} ${selectAll(named)}`
+        : field.name;
+    })
+    .join(" ")} }`;
+
+const run = async (source, variableValues) => {
+  const result = await graphql({
+    schema,
+    source,
+    variableValues,
+    contextValue,
+  });
+  assert.equal(result.errors, undefined);
+  return result.data;
+};
+
+const firstOrderData = async (orderId) => {
+  const iterator = await subscribe({
+    schema,
+    document: parse(
+      `subscription ($orderId: ID!) { orderData(orderId: $orderId) { order ${selectAll(
+        schema.getType("OrderDetail")
+      )} } }`
+    ),
+    variableValues: { orderId },
+    contextValue,
+  });
+  const { value } = await iterator.next();
+  await iterator.return();
+  assert.equal(value.errors, undefined);
+  // Plain objects (graphql results have null prototypes)
+  return JSON.parse(JSON.stringify(value.data.orderData.order));
+};
+
+const CREATE_ORDER = `mutation ($orderEntry: OrderEntry!) {
+  createOrder(orderEntry: $orderEntry) { orderId result failureReason fieldFailures { field message type } }
+}`;
+
+const AMEND_ORDER = `mutation ($amendOrder: AmendOrder!) {
+  amendOrder(amendOrder: $amendOrder) { result failureReason fieldFailures { field message type } }
+}`;
+
+// Every OrderEntry field, with start and expiry times far enough ahead to be valid
+const orderEntry = {
+  currencyPair: "GBPUSD",
+  side: "BUY",
+  orderType: "TAKE_PROFIT",
+  amount: { amount: 1_000_000, ccy: "GBP" },
+  account: { sdsId: "1", name: "Hedge Fund A" },
+  liquidityPool: "GATOR_POOL_1",
+  level: 1.25,
+  iceberg: 200_000,
+  triggerSide: "MID",
+  targetExecutionRate: "TARGET_EXECUTION_RATE_MEDIUM",
+  participationRate: "PARTICIPATION_RATE_SLOW",
+  executionStyle: "EXECUTION_STYLE_PASSIVE",
+  discretionFactor: "NEUTRAL",
+  delayBehaviour: "SPEED_UP_EXTEND",
+  skew: "SKEW_LOW",
+  franchiseExposure: "FRANCHISE_EXPOSURE_MEDIUM",
+  startTime: "09:30",
+  startDate: "2099-03-02",
+  startMode: "START_AT",
+  startEpoch: 0,
+  timeZone: "Europe/London",
+  twapTargetEndTime: Date.UTC(2099, 2, 2, 12, 0),
+  twapTimeZone: "Europe/London",
+  fixingId: "WMR_LDN_4PM",
+  fixingDate: "2099-03-02",
+  tenor: "SPOT",
+  expiry: { strategy: "GTD", endTime: 0, endDate: null, endTimeZone: null },
+  expiryTime: "17:00",
+  expiryDate: "2099-03-03",
+  expiryTimeZone: "America/New_York",
+  ndf: false,
+  onshore: false,
+  orderOtherComments: {
+    firstComment: "first",
+    secondComment: "second",
+    thirdComment: null,
+  },
+  rollInfo: { tenor: "1W", valueDate: "2099-03-11" },
+};
+
+describe("resolvers", () => {
+  describe("createOrder -> amendOrder -> orderData", () => {
+    it("expect the test order to set every OrderEntry field", () => {
+      assert.deepEqual(
+        Object.keys(orderEntry).sort(),
+        Object.keys(schema.getType("OrderEntry").getFields()).sort()
+      );
+    });
+
+    it("expect every field to round trip, with amends applied and nulls cleared", async () => {
+      const { createOrder } = await run(CREATE_ORDER, { orderEntry });
+      assert.equal(createOrder.result, "SUCCESS", JSON.stringify(createOrder));
+      const { orderId } = createOrder;
+
+      // Start and expiry times are worked out from the ticket fields
+      const created = {
+        ...orderEntry,
+        startEpoch: Date.UTC(2099, 2, 2, 9, 30),
+        expiry: {
+          strategy: "GTD",
+          endTime: Date.UTC(2099, 2, 3, 22, 0),
+          endDate: "2099-03-03",
+          endTimeZone: "America/New_York",
+        },
+      };
+      assert.deepEqual(await firstOrderData(orderId), created);
+
+      const { amendOrder } = await run(AMEND_ORDER, {
+        amendOrder: {
+          orderId,
+          amount: { amount: 2_000_000, ccy: "GBP" },
+          level: 1.24,
+          triggerSide: "LEADING",
+          startTime: "10:00",
+          orderOtherComments: {
+            firstComment: "amended",
+            thirdComment: "third",
+          },
+          // Explicit nulls clear optional fields; required ones stay unchanged
+          iceberg: null,
+          twapTimeZone: null,
+          rollInfo: null,
+          account: null,
+        },
+      });
+      assert.equal(amendOrder.result, "SUCCESS", JSON.stringify(amendOrder));
+
+      assert.deepEqual(await firstOrderData(orderId), {
+        ...created,
+        amount: { amount: 2_000_000, ccy: "GBP" },
+        level: 1.24,
+        triggerSide: "LEADING",
+        startTime: "10:00",
+        startEpoch: Date.UTC(2099, 2, 2, 10, 0),
+        orderOtherComments: {
+          firstComment: "amended",
+          secondComment: null,
+          thirdComment: "third",
+        },
+        iceberg: null,
+        twapTimeZone: null,
+        rollInfo: null,
+      });
+    });
+  });
+});
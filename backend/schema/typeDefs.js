@@ -45,6 +45,16 @@ export const typeDefs = `#graphql
     UNSPECIFIED
   }
 
+  enum OrderHistoryEventType {
+    CREATED
+    AMENDED
+    FILL
+    CANCEL_REQUESTED
+    CANCELLED
+    AGENT_CHANGED
+    STATUS_CHANGED
+  }
+
   enum TimeInForce {
     GTC
     GTD
@@ -58,6 +68,11 @@ export const typeDefs = `#graphql
     GTT
   }
 
+  enum StartMode {
+    START_NOW
+    START_AT
+  }
+
   enum DelayBehaviour {
     CONSTANT
     SPEED_UP_CANCEL
@@ -150,6 +165,28 @@ export const typeDefs = `#graphql
     account: String
     liquidityPool: String
     timeInForce: TimeInForce
+    # Used by the amount check against account limits
+    side: OrderSide
+    # Order being amended (left out of the account's current usage)
+    orderId: ID
+  }
+
+  # Amounts in USD (currency); remaining = limit - |net| for exposures
+  type ExposureHeadroom {
+    ccy: String!
+    net: Float!
+    limit: Float!
+    remaining: Float!
+  }
+
+  type AccountHeadroom {
+    sdsId: ID!
+    currency: String!
+    maxOrderNotional: Float!
+    dailyGrossLimit: Float!
+    dailyGrossUsed: Float!
+    dailyGrossRemaining: Float!
+    netOpenExposure: [ExposureHeadroom!]!
   }
 
   # Basic Types
@@ -195,15 +232,24 @@ export const typeDefs = `#graphql
     defaultTenor: String!
     tenor: String!
     stopLossAllowed: Boolean!
+    # Smallest iceberg clip, in ccy1
+    minIcebergClip: Float
   }
 
+  # valueDate is the settlement date (YYYY-MM-DD) for the tenor
   type TenorInfo {
     tenorCode: String!
     valueDate: String!
   }
 
+  # Value dates for trades booked on tradeDate: SPOT and 1W..1Y forwards
   type CurrencyPairDetail {
     id: ID!
+    symbol: String!
+    tradeDate: String!
+    # Business days from trade date to spot (2, or 1 for USDCAD etc.)
+    spotLag: Int!
+    spotDate: String!
     tenorInfos: [TenorInfo!]!
   }
 
@@ -213,9 +259,22 @@ export const typeDefs = `#graphql
     precisionValue: Float!
   }
 
+  type DepthLevel {
+    price: Float!
+    size: Float!
+  }
+
+  # Bid (SELL) and ask (BUY) ladders for one market, best price first
+  type MarketDepth {
+    market: String!
+    bids: [DepthLevel!]!
+    asks: [DepthLevel!]!
+  }
+
   type GatorData {
     topOfTheBookBuy: Price!
     topOfTheBookSell: Price!
+    depth: [MarketDepth!]!
   }
 
   # Order Types
@@ -232,9 +291,22 @@ export const typeDefs = `#graphql
   type Expiry {
     strategy: ExpiryStrategy!
     endTime: Float
+    endDate: String
     endTimeZone: String
   }
 
+  type OrderOtherComments {
+    firstComment: String
+    secondComment: String
+    thirdComment: String
+  }
+
+  type RollInfo {
+    tenor: String
+    valueDate: String
+  }
+
+  # Mirrors OrderEntry, so every submitted field comes back on orderData
   type OrderDetail {
     fixingId: ID
     fixingDate: String
@@ -246,19 +318,30 @@ export const typeDefs = `#graphql
     orderType: OrderType!
     account: AccountDetail!
     triggerSide: StopLossTriggerSide
-    liquidityPool: String!
+    liquidityPool: String
     targetExecutionRate: TargetExecutionRate
     participationRate: ParticipationRate
     executionStyle: ExecutionStyle
     discretionFactor: DiscretionFactor
     delayBehaviour: DelayBehaviour
-    twapTargetEndTime: String
+    twapTargetEndTime: Float
     twapTimeZone: String
     timeZone: String
     startTime: String
+    startDate: String
+    startMode: StartMode
+    startEpoch: Float
     skew: Skew
     franchiseExposure: FranchiseExposure
+    tenor: String
     expiry: Expiry
+    expiryTime: String
+    expiryDate: String
+    expiryTimeZone: String
+    ndf: Boolean
+    onshore: Boolean
+    orderOtherComments: OrderOtherComments
+    rollInfo: RollInfo
   }
 
   type Execution {
@@ -267,7 +350,23 @@ export const typeDefs = `#graphql
     filled: Amount!
     rejectReason: String
     status: OrderStatus!
+    startTime: Float
     targetEndTime: Float
+    # Iceberg orders: the displayed clip and the rest of the unfilled amount
+    shownQuantity: Float
+    hiddenQuantity: Float
+  }
+
+  # One fill of an order, for reconciliation with booking systems. venue is the
+  # liquidity pool (INTERNAL without one), FIXING or MANUAL
+  type ExecutionReport {
+    fillId: ID!
+    orderId: ID!
+    quantity: Float!
+    price: Float!
+    ccy: String!
+    venue: String!
+    timestamp: Float!
   }
 
   type OrderData {
@@ -277,6 +376,27 @@ export const typeDefs = `#graphql
     execution: Execution!
   }
 
+  # One field changed by an amend (values as strings, null when unset)
+  type FieldChange {
+    field: String!
+    from: String
+    to: String
+  }
+
+  # Audit trail entry - versions count up per order from 1
+  type OrderHistoryEntry {
+    orderId: ID!
+    version: Int!
+    type: OrderHistoryEventType!
+    timestamp: Float!
+    status: OrderStatus!
+    previousStatus: OrderStatus
+    changes: [FieldChange!]!
+    fillAmount: Float
+    fillRate: Float
+    filledAmount: Float!
+  }
+
   type OrderFailure {
     description: String!
     errorCode: String!
@@ -285,15 +405,20 @@ export const typeDefs = `#graphql
 
   # Mutation Response Types
   type CreateOrderResponse {
-    orderId: ID!
+    # null when the order was rejected
+    orderId: ID
     result: String!
     failureReason: String
+    # Failed validateOrder checks; any HARD entry means the order was rejected
+    fieldFailures: [FieldValidation!]!
   }
 
   type AmendOrderResponse {
     orderId: ID!
     result: String!
     failureReason: String
+    # Failed validateOrder checks; any HARD entry means the order was rejected
+    fieldFailures: [FieldValidation!]!
   }
 
   type CancelOrderResponse {
@@ -302,6 +427,24 @@ export const typeDefs = `#graphql
     failureReason: String
   }
 
+  type SuspendOrderResponse {
+    orderId: ID!
+    result: String!
+    failureReason: String
+  }
+
+  type ResumeOrderResponse {
+    orderId: ID!
+    result: String!
+    failureReason: String
+  }
+
+  type MoveToManualResponse {
+    orderId: ID!
+    result: String!
+    failureReason: String
+  }
+
   type FillOrderResponse {
     orderId: ID!
     result: String!
@@ -312,34 +455,124 @@ export const typeDefs = `#graphql
     userId: ID!
     result: String!
     failureReason: String
+    # Orders moved to PENDING_CANCEL by this request
+    cancelledOrderIds: [ID!]!
+    cancelledCount: Int!
   }
 
   type GlobalUserPreferences {
     defaultGlobalAccount: Account
   }
 
+  # The authenticated caller (from the request's token)
+  type User {
+    userId: ID!
+    name: String!
+  }
+
   # Input Types
+  input AmountInput {
+    amount: Float!
+    ccy: String!
+  }
+
+  input AccountInput {
+    sdsId: ID!
+    name: String!
+  }
+
+  input ExpiryInput {
+    strategy: ExpiryStrategy!
+    endTime: Float
+    endDate: String
+    endTimeZone: String
+  }
+
+  input OrderOtherCommentsInput {
+    firstComment: String
+    secondComment: String
+    thirdComment: String
+  }
+
+  input RollInfoInput {
+    tenor: String
+    valueDate: String
+  }
+
+  # Same shape as the ticket's OrderStateData; stored as submitted
   input OrderEntry {
     currencyPair: String!
     side: OrderSide!
     orderType: OrderType!
-    amount: Float!
-    ccy: String!
-    limitPrice: Float
-    stopPrice: Float
-    liquidityPool: String!
-    account: String!
-    timeInForce: TimeInForce
-    startTime: Float
+    amount: AmountInput!
+    account: AccountInput!
+    liquidityPool: String
+    level: Float
+    iceberg: Float
+    triggerSide: StopLossTriggerSide
+    targetExecutionRate: TargetExecutionRate
+    participationRate: ParticipationRate
+    executionStyle: ExecutionStyle
+    discretionFactor: DiscretionFactor
+    delayBehaviour: DelayBehaviour
+    skew: Skew
+    franchiseExposure: FranchiseExposure
+    startTime: String
+    startDate: String
+    startMode: StartMode
+    startEpoch: Float
+    timeZone: String
+    twapTargetEndTime: Float
+    twapTimeZone: String
     fixingId: ID
+    fixingDate: String
+    tenor: String
+    expiry: ExpiryInput
+    expiryTime: String
+    expiryDate: String
+    expiryTimeZone: String
+    ndf: Boolean
+    onshore: Boolean
+    orderOtherComments: OrderOtherCommentsInput
+    rollInfo: RollInfoInput
   }
 
+  # Omitted fields are left unchanged, explicit nulls clear the field.
+  # currencyPair, side, ndf and onshore are fixed once the order exists;
+  # orderType may be sent but must match the order. startEpoch is ignored: it
+  # is worked out again from startDate, startTime and timeZone.
   input AmendOrder {
     orderId: ID!
-    amount: Float
-    limitPrice: Float
-    stopPrice: Float
-    timeInForce: TimeInForce
+    orderType: OrderType
+    amount: AmountInput
+    account: AccountInput
+    liquidityPool: String
+    level: Float
+    iceberg: Float
+    triggerSide: StopLossTriggerSide
+    targetExecutionRate: TargetExecutionRate
+    participationRate: ParticipationRate
+    executionStyle: ExecutionStyle
+    discretionFactor: DiscretionFactor
+    delayBehaviour: DelayBehaviour
+    skew: Skew
+    franchiseExposure: FranchiseExposure
+    startTime: String
+    startDate: String
+    startMode: StartMode
+    startEpoch: Float
+    timeZone: String
+    twapTargetEndTime: Float
+    twapTimeZone: String
+    fixingId: ID
+    fixingDate: String
+    tenor: String
+    expiry: ExpiryInput
+    expiryTime: String
+    expiryDate: String
+    expiryTimeZone: String
+    orderOtherComments: OrderOtherCommentsInput
+    rollInfo: RollInfoInput
   }
 
   input CcyPairInput {
@@ -352,6 +585,14 @@ export const typeDefs = `#graphql
     defaultGlobalAccount: String
   }
 
+  input OrdersFilter {
+    currencyPair: String
+    side: OrderSide
+    orderType: OrderType
+    statuses: [OrderStatus!]
+    account: String
+  }
+
   input GatorSubscription {
     currencyPair: String!
     ndf: Boolean
@@ -363,11 +604,20 @@ export const typeDefs = `#graphql
 
   # Queries
   type Query {
+    me: User!
+    # Accounts the caller is entitled to
     accounts: [Account!]!
     currencyPairs(orderType: OrderType): [CurrencyPair!]!
     orderTypesWithPools: [OrderTypeWithPools!]!
-    currencyPair(currencyPairId: ID!): CurrencyPairDetail!
+    # tradeDate (YYYY-MM-DD) defaults to the current FX trade date
+    currencyPair(currencyPairId: ID!, tradeDate: String): CurrencyPairDetail!
     validateField(input: ValidateFieldInput!): FieldValidation!
+    # Every failed check for the whole order (empty when valid)
+    validateOrder(orderEntry: OrderEntry!): [FieldValidation!]!
+    # Remaining pre-trade limits for an account (currencyPair adds its currencies)
+    accountHeadroom(sdsId: ID!, currencyPair: String): AccountHeadroom!
+    orders(filter: OrdersFilter): [OrderData!]!
+    orderHistory(orderId: ID!): [OrderHistoryEntry!]!
   }
 
   # Mutations
@@ -375,7 +625,16 @@ export const typeDefs = `#graphql
     createOrder(orderEntry: OrderEntry!): CreateOrderResponse!
     amendOrder(amendOrder: AmendOrder!): AmendOrderResponse!
     cancelOrder(orderId: ID!): CancelOrderResponse!
-    fillOrder(orderId: ID!): FillOrderResponse!
+    suspendOrder(orderId: ID!): SuspendOrderResponse!
+    resumeOrder(orderId: ID!): ResumeOrderResponse!
+    moveToManual(orderId: ID!): MoveToManualResponse!
+    # Fills quantity (default: the rest of the order) at fillRate (default: the
+    # market); partial fills leave the order LIVE
+    fillOrder(
+      orderId: ID!
+      fillRate: Float
+      quantity: Float
+    ): FillOrderResponse!
     cancelInstrumentAction(ccyPair: CcyPairInput!): CancelInstrumentResponse!
     mutateGlobalUserPreferences(
       updateGlobalUserPreferenceRequest: UpdateGlobalUserPreferenceRequest!
@@ -385,7 +644,10 @@ export const typeDefs = `#graphql
   # Subscriptions
   type Subscription {
     orderData(orderId: ID!): OrderData!
+    ordersStream(filter: OrdersFilter): OrderData!
     orderFailure(orderId: ID!): OrderFailure!
+    # One ExecutionReport per fill: the fills so far, then each new one
+    executionReports(orderId: ID!): ExecutionReport!
     gatorData(subscription: GatorSubscription): GatorData!
     globalUserPreferencesStream: GlobalUserPreferences!
   }
@@ -7,14 +7,26 @@ import { WebSocketServer } from "ws";
 import { useServer } from "graphql-ws/lib/use/ws";
 import { makeExecutableSchema } from "@graphql-tools/schema";
 import { typeDefs } from "./schema/typeDefs.js";
-import { resolvers } from "./schema/resolvers.js";
+import {
+  resolvers,
+  marketSimulator,
+  orderSimulator,
+  orderStore,
+  orderHistory,
+} from "./schema/resolvers.js";
 import { createHandler } from "graphql-http/lib/use/express";
+import { createIdentityServiceFromEnv } from "./auth/identity.js";
 
 const app = express();
 const httpServer = createServer(app);
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Token-based caller identity (users in data/users.json)
+const identity = createIdentityServiceFromEnv(
+  path.join(__dirname, "data", "users.json")
+);
+
 // Enable CORS for frontend
 app.use(
   cors({
@@ -30,6 +42,21 @@ app.get("/health", (req, res) => {
   res.json({ status: "ok", timestamp: new Date().toISOString() });
 });
 
+// Local dev token issuer - stands in for a real identity provider
+// (disable with AUTH_DEV_ISSUER=false)
+if (process.env.AUTH_DEV_ISSUER !== "false") {
+  app.post("/auth/dev-token", (req, res) => {
+    const userId = req.body?.userId;
+    const issued = identity.issueToken(userId);
+    if (!issued) {
+      res.status(404).json({ error: `Unknown user ${userId}` });
+      return;
+    }
+    console.log(`[AUTH] Issued dev token for ${userId}`);
+    res.json({ userId, ...issued });
+  });
+}
+
 // Create GraphQL schema
 const schema = makeExecutableSchema({
   typeDefs,
@@ -41,6 +68,21 @@ app.use(
   "/graphql",
   createHandler({
     schema,
+    // Every request needs a valid "Authorization: Bearer <token>"
+    context: (req) => {
+      const user = identity.fromAuthorizationHeader(req.headers.authorization);
+      if (!user) {
+        return [
+          JSON.stringify({ errors: [{ message: "Unauthorized" }] }),
+          {
+            status: 401,
+            statusText: "Unauthorized",
+            headers: { "content-type": "application/json; charset=utf-8" },
+          },
+        ];
+      }
+      return { user };
+    },
   })
 );
 
@@ -55,12 +97,27 @@ const wsServer = new WebSocketServer({ server: httpServer, path: "/graphql" });
 useServer(
   {
     schema,
-    onConnect: () => console.log("[WebSocket] Client connected"),
+    // connection_init must carry connectionParams.authToken; returning false
+    // closes the socket with 4403 Forbidden
+    onConnect: (ctx) => {
+      const user = identity.authenticate(ctx.connectionParams?.authToken);
+      if (!user) {
+        console.log("[WebSocket] Connection rejected: invalid token");
+        return false;
+      }
+      ctx.extra.user = user;
+      console.log(`[WebSocket] Client connected as ${user.userId}`);
+    },
+    context: (ctx) => ({ user: ctx.extra.user }),
     onDisconnect: () => console.log("[WebSocket] Client disconnected"),
   },
   wsServer
 );
 
+// Tick shared prices, then drive orders through their lifecycle against them
+marketSimulator.start();
+orderSimulator.start();
+
 const PORT = 4000;
 
 httpServer.listen(PORT, () => {
@@ -68,3 +125,15 @@ httpServer.listen(PORT, () => {
   console.log(`🧪 GraphiQL IDE at     http://localhost:${PORT}/graphiql`);
   console.log(`🔌 Subscriptions WS at ws://localhost:${PORT}/graphql`);
 });
+
+// Flush pending order and history writes before exiting
+const shutdown = async () => {
+  orderSimulator.stop();
+  marketSimulator.stop();
+  await orderStore.close();
+  await orderHistory.close();
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
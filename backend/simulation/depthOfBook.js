@@ -0,0 +1,62 @@
+// Depth-of-book ladders built around the shared top of book
+//
+// GatorSubscription parameters:
+// - pipSteps:  distance between ladder levels, in pips (pip = pair defaultPipStep)
+// - pipExtent: how far the ladder reaches from top of book, in pips
+//              (levels per side = pipExtent / pipSteps)
+// - markets:   one ladder per market; each further market quotes slightly wider
+// - ndf / onshore: thinner books (smaller sizes) for NDF and onshore liquidity
+
+import { toPrecision } from "./marketState.js";
+
+const DEFAULT_PIP_EXTENT = 5;
+const DEFAULT_PIP_STEPS = 1;
+const DEFAULT_MARKETS = ["GATOR"];
+const MAX_LEVELS = 20;
+
+// Size at the top level; deeper levels get progressively more liquidity
+const BASE_SIZE = 1_000_000;
+const NDF_SIZE_FACTOR = 0.5;
+const ONSHORE_SIZE_FACTOR = 0.25;
+
+// Each additional market quotes this many pips wider than the previous one
+const MARKET_WIDENING_PIPS = 0.2;
+
+// Random size around BASE_SIZE * depth, rounded to 100k clips
+const levelSize = (depthIndex, sizeFactor) => {
+  const raw = BASE_SIZE * (depthIndex + 1) * (0.5 + Math.random()) * sizeFactor;
+  return Math.max(100_000, Math.round(raw / 100_000) * 100_000);
+};
+
+// Bid and ask ladders for each requested market
+export const buildDepth = (market, options = {}) => {
+  const pipSteps = Math.max(1, options.pipSteps || DEFAULT_PIP_STEPS);
+  const pipExtent = Math.max(pipSteps, options.pipExtent || DEFAULT_PIP_EXTENT);
+  const markets = options.markets?.length ? options.markets : DEFAULT_MARKETS;
+  const levels = Math.min(MAX_LEVELS, Math.floor(pipExtent / pipSteps));
+
+  let sizeFactor = 1;
+  if (options.ndf) sizeFactor *= NDF_SIZE_FACTOR;
+  if (options.onshore) sizeFactor *= ONSHORE_SIZE_FACTOR;
+
+  const step = pipSteps * market.pipSize;
+
+  return markets.map((name, marketIndex) => {
+    const widening = marketIndex * MARKET_WIDENING_PIPS * market.pipSize;
+    const bids = [];
+    const asks = [];
+
+    for (let i = 0; i < levels; i++) {
+      bids.push({
+        price: toPrecision(market.bid - widening - i * step, market.precision),
+        size: levelSize(i, sizeFactor),
+      });
+      asks.push({
+        price: toPrecision(market.ask + widening + i * step, market.precision),
+        size: levelSize(i, sizeFactor),
+      });
+    }
+
+    return { market: name, bids, asks };
+  });
+};
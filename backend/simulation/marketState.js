@@ -0,0 +1,111 @@
+// Shared market state - one simulated top of book per currency pair
+//
+// Both the gatorData subscription and the order lifecycle simulator read from
+// here, and both use topOfBook() (bid/ask at the pair's spot precision), so an
+// order triggers and fills on exactly the prices the ticket is showing.
+// Markets are created lazily the first time a pair is requested and then tick
+// on a single interval for all pairs, however many subscribers there are.
+//
+// Each pair starts from its reference mid/spread/volatility in
+// data/marketReference.json and is rounded to its spotPrecision from
+// data/currencyPairs.json.
+
+import { readFileSync, existsSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = join(__dirname, "../data");
+
+const MARKET_TICK_MS = 1000;
+
+// Pull back towards the reference mid each tick so prices wander but don't drift away
+const MEAN_REVERSION = 0.02;
+
+// Pairs with no reference entry (GBPUSD-like defaults)
+const DEFAULT_REFERENCE = { mid: 1.2723, spread: 0.0002, volatility: 0.00008 };
+const DEFAULT_PRECISION = 5;
+const DEFAULT_PIP_SIZE = 0.0001;
+
+const markets = new Map(); // currencyPair -> { currencyPair, bid, ask, mid, precision, pipSize, reference, updatedAt }
+
+const readData = (filename, fallback) => {
+  const path = join(DATA_DIR, filename);
+  return existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : fallback;
+};
+
+// Reference mid/spread/volatility, spotPrecision and pip size for a pair
+const loadPairSetup = (currencyPair) => {
+  const references = readData("marketReference.json", {});
+  const pairs = readData("currencyPairs.json", []);
+  const pair = pairs.find((p) => p.symbol === currencyPair);
+
+  return {
+    reference: references[currencyPair] || DEFAULT_REFERENCE,
+    precision: pair?.spotPrecision ?? DEFAULT_PRECISION,
+    pipSize: pair?.defaultPipStep ?? DEFAULT_PIP_SIZE,
+  };
+};
+
+// Round a price to the pair's quoted precision
+export const toPrecision = (price, precision) =>
+  Math.round(price * 10 ** precision) / 10 ** precision;
+
+// Bid/ask as quoted to clients, at the pair's precision
+export const topOfBook = (market) => ({
+  bid: toPrecision(market.bid, market.precision),
+  ask: toPrecision(market.ask, market.precision),
+});
+
+// Bid/ask always straddle the mid by the reference spread
+const quote = (market, mid) => {
+  const halfSpread = market.reference.spread / 2;
+  market.mid = mid;
+  market.bid = mid - halfSpread;
+  market.ask = mid + halfSpread;
+  market.updatedAt = Date.now();
+  return market;
+};
+
+// Current market for a pair (created on first use)
+export const getMarket = (currencyPair) => {
+  if (!markets.has(currencyPair)) {
+    const { reference, precision, pipSize } = loadPairSetup(currencyPair);
+    markets.set(
+      currencyPair,
+      quote({ currencyPair, reference, precision, pipSize }, reference.mid)
+    );
+  }
+  return markets.get(currencyPair);
+};
+
+// Random walk of the mid, scaled by the pair's volatility
+const nextMid = (market) => {
+  const { mid: referenceMid, volatility } = market.reference;
+  const shock = (Math.random() - 0.5) * 2 * volatility;
+  const reversion = (referenceMid - market.mid) * MEAN_REVERSION;
+  return market.mid + shock + reversion;
+};
+
+// Move every known market by one tick
+export const tickMarkets = () => {
+  markets.forEach((market) => quote(market, nextMid(market)));
+};
+
+// Single ticking source for all pairs (started by server.js)
+export const createMarketSimulator = ({ tickMs = MARKET_TICK_MS } = {}) => {
+  let intervalId = null;
+
+  return {
+    tick: tickMarkets,
+    start: () => {
+      if (intervalId) return;
+      intervalId = setInterval(tickMarkets, tickMs);
+      console.log(`[MARKET SIM] Started (tick ${tickMs}ms)`);
+    },
+    stop: () => {
+      clearInterval(intervalId);
+      intervalId = null;
+    },
+  };
+};
@@ -0,0 +1,473 @@
+// Order lifecycle state machine + simulator
+//
+// Statuses are the OrderStatus enum values from typeDefs.js. Every status change
+// goes through transition(), which rejects moves the state machine does not allow.
+//
+// Happy path:    PENDING_LIVE -> LIVE -> PENDING_FILL -> FILLED
+// Rejection:     PENDING_LIVE -> REJECTED
+// Suspension:    LIVE -> LIVE_SUSPENDED -> PENDING_RESUME -> LIVE
+//                LIVE -> PENDING_SUSPEND -> LIVE_SUSPENDED (user requested)
+//                LIVE_SUSPENDED -> PENDING_RESUME (user requested)
+// Cancellation:  PENDING_LIVE | LIVE | LIVE_SUSPENDED -> PENDING_CANCEL -> CANCELLED
+// Expiry:        PENDING_LIVE | LIVE | LIVE_SUSPENDED -> PENDING_EXPIRY -> EXPIRED
+// Manual:        LIVE -> PENDING_MOVE_TO_MANUAL -> LIVE (user requested)
+//
+// The simulator resumes orders it suspended itself after suspendedMs; orders the
+// user suspended (execution.suspendedByUser) stay suspended until resumeOrder.
+// Moving to manual hands the order to a sales trader: execution.agent becomes
+// EXECUTION_AGENT_MANUAL as it goes back to LIVE, and from then on the simulator
+// leaves it alone (no fills, no random suspensions) - it only fills via
+// fillOrder (applyFill), at the rate and quantity the trader enters.
+// START_AT orders stay in PENDING_LIVE until their start time (order.startEpoch,
+// see calendar/startTime.js), then go live.
+// GTD/GTT orders expire once their expiry end time (order.expiry.endTime, see
+// calendar/expiry.js) has passed, keeping whatever had filled by then.
+// While LIVE, level orders (TAKE_PROFIT, STOP_LOSS, POUNCE, CALL_LEVEL) rest until
+// the shared market price crosses order.level, then fill in full at the market.
+// Iceberg TAKE_PROFIT orders (order.iceberg) show only one clip of what is left:
+// execution.shownQuantity is the displayed clip and execution.hiddenQuantity the
+// rest. Once triggered they fill a clip per fill interval, replenishing the
+// shown clip from the hidden quantity after each fill.
+// FIXING orders rest until their fixing time (execution.targetEndTime, set from
+// the order's fixing when it is created or amended), then fill in full at a
+// simulated fix rate: the mid at that moment, give or take a few pips.
+// TWAP orders with a target end time (execution.targetEndTime, from
+// order.twapTargetEndTime) are sliced evenly between going live
+// (execution.startTime) and that end time: every fill interval a child fill
+// brings the filled amount up to schedule, and the remainder fills at the end.
+// Every other order type fills in slices over time at the market price.
+// Every fill is also recorded as an execution report in execution.fills
+// (fillId, quantity, price, venue, timestamp): venue is the order's liquidity
+// pool (INTERNAL without one), FIXING for fixing fills and MANUAL for fills a
+// trader entered through fillOrder.
+
+import { expiryTimeOf } from "../calendar/expiry.js";
+import { getMarket, toPrecision, topOfBook } from "./marketState.js";
+
+export const ORDER_STATUS = {
+  CANCELLED: "CANCELLED",
+  EXPIRED: "EXPIRED",
+  FILLED: "FILLED",
+  LIVE: "LIVE",
+  LIVE_SUSPENDED: "LIVE_SUSPENDED",
+  PENDING_CANCEL: "PENDING_CANCEL",
+  PENDING_EXPIRY: "PENDING_EXPIRY",
+  PENDING_FILL: "PENDING_FILL",
+  PENDING_LIVE: "PENDING_LIVE",
+  PENDING_MOVE_TO_MANUAL: "PENDING_MOVE_TO_MANUAL",
+  PENDING_RESUME: "PENDING_RESUME",
+  PENDING_SUSPEND: "PENDING_SUSPEND",
+  REJECTED: "REJECTED",
+};
+
+const S = ORDER_STATUS;
+
+export const EXECUTION_AGENT = {
+  AUTO: "EXECUTION_AGENT_AUTO",
+  MANUAL: "EXECUTION_AGENT_MANUAL",
+};
+
+export const TERMINAL_STATUSES = [S.CANCELLED, S.EXPIRED, S.FILLED, S.REJECTED];
+
+// Allowed next statuses for each status (terminal statuses have none)
+export const TRANSITIONS = {
+  [S.PENDING_LIVE]: [S.LIVE, S.REJECTED, S.PENDING_CANCEL, S.PENDING_EXPIRY],
+  [S.LIVE]: [
+    S.PENDING_FILL,
+    S.FILLED,
+    S.PENDING_SUSPEND,
+    S.LIVE_SUSPENDED,
+    S.PENDING_MOVE_TO_MANUAL,
+    S.PENDING_CANCEL,
+    S.PENDING_EXPIRY,
+  ],
+  [S.PENDING_FILL]: [S.FILLED],
+  [S.PENDING_SUSPEND]: [S.LIVE_SUSPENDED],
+  [S.LIVE_SUSPENDED]: [S.PENDING_RESUME, S.PENDING_CANCEL, S.PENDING_EXPIRY],
+  [S.PENDING_RESUME]: [S.LIVE],
+  [S.PENDING_MOVE_TO_MANUAL]: [S.LIVE],
+  [S.PENDING_CANCEL]: [S.CANCELLED],
+  [S.PENDING_EXPIRY]: [S.EXPIRED],
+};
+
+// Environment override helper - ORDER_SIM_* variables tune the simulator without code changes
+const envNumber = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && process.env[name] !== "" ? value : fallback;
+};
+
+// Simulator timings (ms) and probabilities
+export const LIFECYCLE_CONFIG = {
+  tickMs: envNumber("ORDER_SIM_TICK_MS", 500),
+  pendingLiveMs: envNumber("ORDER_SIM_PENDING_LIVE_MS", 1500),
+  fillIntervalMs: envNumber("ORDER_SIM_FILL_INTERVAL_MS", 2000),
+  fillFraction: envNumber("ORDER_SIM_FILL_FRACTION", 0.1),
+  pendingFillMs: envNumber("ORDER_SIM_PENDING_FILL_MS", 1000),
+  pendingCancelMs: envNumber("ORDER_SIM_PENDING_CANCEL_MS", 1000),
+  pendingSuspendMs: envNumber("ORDER_SIM_PENDING_SUSPEND_MS", 1000),
+  pendingResumeMs: envNumber("ORDER_SIM_PENDING_RESUME_MS", 1000),
+  pendingExpiryMs: envNumber("ORDER_SIM_PENDING_EXPIRY_MS", 1000),
+  pendingMoveToManualMs: envNumber("ORDER_SIM_PENDING_MOVE_TO_MANUAL_MS", 1000),
+  suspendedMs: envNumber("ORDER_SIM_SUSPENDED_MS", 5000),
+  rejectProbability: envNumber("ORDER_SIM_REJECT_PROBABILITY", 0.05),
+  suspendProbability: envNumber("ORDER_SIM_SUSPEND_PROBABILITY", 0.005),
+  fixNoisePips: envNumber("ORDER_SIM_FIX_NOISE_PIPS", 2),
+};
+
+export const isTerminalStatus = (status) => TERMINAL_STATUSES.includes(status);
+
+export const canTransition = (from, to) =>
+  (TRANSITIONS[from] || []).includes(to);
+
+// Move an order to a new status, recording when it happened.
+// Throws when the state machine does not allow the move.
+export const transition = (order, nextStatus, now = Date.now()) => {
+  const current = order.execution.status;
+  if (!canTransition(current, nextStatus)) {
+    throw new Error(`Invalid order transition ${current} -> ${nextStatus}`);
+  }
+  order.execution.status = nextStatus;
+  order.execution.statusUpdatedAt = now;
+  return order;
+};
+
+// Order types that rest until the market reaches order.level
+export const LEVEL_TRIGGERED_TYPES = [
+  "TAKE_PROFIT",
+  "STOP_LOSS",
+  "POUNCE",
+  "CALL_LEVEL",
+];
+
+// Simulated benchmark fix: the mid within +/- fixNoisePips, at the pair's precision
+const fixRate = (market, config, random) =>
+  toPrecision(
+    market.mid + (random() * 2 - 1) * config.fixNoisePips * market.pipSize,
+    market.precision
+  );
+
+// Price the order trades at: BUY lifts the ask, SELL hits the bid (as quoted)
+export const executionPrice = (order, market) => {
+  const { bid, ask } = topOfBook(market);
+  return order.order.side === "BUY" ? ask : bid;
+};
+
+// Which way the market has to move to reach the level.
+// TAKE_PROFIT/POUNCE wait for a better price, STOP_LOSS for a worse one,
+// CALL_LEVEL for whichever direction the level was from the market when it went live.
+const getTriggerDirection = (order, market) => {
+  const { orderType, side, level } = order.order;
+  switch (orderType) {
+    case "STOP_LOSS":
+      return side === "BUY" ? "UP" : "DOWN";
+    case "CALL_LEVEL":
+      if (!order.execution.triggerDirection) {
+        order.execution.triggerDirection = level >= market.mid ? "UP" : "DOWN";
+      }
+      return order.execution.triggerDirection;
+    default:
+      return side === "BUY" ? "DOWN" : "UP";
+  }
+};
+
+// Price compared against the level, per triggerSide.
+// LEADING is the side of the book that reaches the level first, TRAILING the other.
+// Without a triggerSide the order's own execution side is used.
+const getTriggerPrice = (order, market, direction) => {
+  const { bid, ask } = topOfBook(market);
+  switch (order.order.triggerSide) {
+    case "MID":
+      return market.mid;
+    case "LEADING":
+      return direction === "UP" ? ask : bid;
+    case "TRAILING":
+      return direction === "UP" ? bid : ask;
+    default:
+      return executionPrice(order, market);
+  }
+};
+
+export const isLevelTriggered = (order, market) => {
+  const direction = getTriggerDirection(order, market);
+  const price = getTriggerPrice(order, market, direction);
+  return direction === "UP"
+    ? price >= order.order.level
+    : price <= order.order.level;
+};
+
+// Amount a TWAP order should have filled by now: a straight line from nothing at
+// startTime to the full amount at targetEndTime (whole units until the end)
+export const twapScheduledQuantity = (total, startTime, targetEndTime, now) => {
+  if (now >= targetEndTime) return total;
+  const elapsed = (now - startTime) / (targetEndTime - startTime);
+  return Math.floor(total * Math.min(1, Math.max(0, elapsed)));
+};
+
+// Shown (one clip) and hidden quantities of an iceberg order's unfilled amount,
+// or null for orders without an iceberg
+export const icebergQuantities = (orderDetail, filledAmount) => {
+  const { orderType, iceberg, amount } = orderDetail;
+  if (orderType !== "TAKE_PROFIT" || !(iceberg > 0)) return null;
+  const remaining = Math.max(0, amount.amount - filledAmount);
+  const shownQuantity = Math.min(iceberg, remaining);
+  return { shownQuantity, hiddenQuantity: remaining - shownQuantity };
+};
+
+// Keep execution.shownQuantity/hiddenQuantity in step with the order and its fills
+export const applyIcebergQuantities = (order) => {
+  const { execution } = order;
+  delete execution.shownQuantity;
+  delete execution.hiddenQuantity;
+  Object.assign(
+    execution,
+    icebergQuantities(order.order, execution.filled.amount)
+  );
+  return order;
+};
+
+// Venue recorded on execution reports for fills without a liquidity pool
+export const DEFAULT_FILL_VENUE = "INTERNAL";
+
+// Fill quantity, capped at the order amount. Fills are recorded at fillRate and
+// appended to execution.fills as an execution report.
+export const applyFill = (
+  order,
+  quantity,
+  fillRate,
+  now = Date.now(),
+  venue = order.order.liquidityPool ?? DEFAULT_FILL_VENUE
+) => {
+  const total = order.order.amount.amount;
+  const filled = order.execution.filled.amount;
+  const qty = Math.min(quantity, total - filled);
+  if (qty <= 0) return;
+
+  const fills = (order.execution.fills ??= []);
+  fills.push({
+    fillId: `${order.omsOrderId ?? order.orderId}-F${fills.length + 1}`,
+    orderId: order.orderId,
+    quantity: qty,
+    price: fillRate,
+    ccy: order.execution.filled.ccy,
+    venue,
+    timestamp: now,
+  });
+
+  // Running volume-weighted average across fills
+  order.execution.averageFillRate =
+    (order.execution.averageFillRate * filled + fillRate * qty) /
+    (filled + qty);
+  order.execution.filled.amount = filled + qty;
+  applyIcebergQuantities(order);
+};
+
+// Advance a single order by one simulator tick. Returns true when the order changed.
+export const advanceOrder = (
+  order,
+  now = Date.now(),
+  config = LIFECYCLE_CONFIG,
+  random = Math.random
+) => {
+  const { execution } = order;
+  const status = execution.status;
+  if (isTerminalStatus(status)) return false;
+
+  const since = now - (execution.statusUpdatedAt ?? now);
+
+  // GTD/GTT orders past their end time stop working, whatever they were doing
+  const expiresAt = expiryTimeOf(order.order);
+  if (
+    expiresAt !== null &&
+    now >= expiresAt &&
+    canTransition(status, S.PENDING_EXPIRY)
+  ) {
+    transition(order, S.PENDING_EXPIRY, now);
+    return true;
+  }
+
+  switch (status) {
+    case S.PENDING_LIVE:
+      if (since < config.pendingLiveMs) return false;
+      if (order.order.startEpoch != null && now < order.order.startEpoch) {
+        return false;
+      }
+      if (random() < config.rejectProbability) {
+        execution.rejectReason = "Rejected by liquidity provider";
+        transition(order, S.REJECTED, now);
+      } else {
+        transition(order, S.LIVE, now);
+        execution.startTime ??= now;
+      }
+      return true;
+
+    case S.LIVE: {
+      // Manual orders are worked by a trader, not the simulator
+      if (execution.agent === EXECUTION_AGENT.MANUAL) return false;
+
+      if (random() < config.suspendProbability) {
+        transition(order, S.LIVE_SUSPENDED, now);
+        return true;
+      }
+
+      const total = order.order.amount.amount;
+      const market = getMarket(order.order.currencyPair);
+
+      // Fixing orders: rest until the fixing, then fill the remainder at the fix
+      if (order.order.orderType === "FIXING") {
+        if (execution.targetEndTime == null || now < execution.targetEndTime) {
+          return false;
+        }
+        applyFill(order, total, fixRate(market, config, random), now, "FIXING");
+        execution.lastFillAt = now;
+        transition(order, S.PENDING_FILL, now);
+        return true;
+      }
+
+      // Level orders: rest until the market crosses the level, then fill the
+      // remainder - or, for icebergs, the shown clip once per fill interval
+      const { orderType, level } = order.order;
+      if (LEVEL_TRIGGERED_TYPES.includes(orderType) && level != null) {
+        if (!isLevelTriggered(order, market)) return false;
+        const clip = execution.shownQuantity;
+        if (clip != null) {
+          if (
+            execution.lastFillAt != null &&
+            now - execution.lastFillAt < config.fillIntervalMs
+          ) {
+            return false;
+          }
+          applyFill(order, clip, executionPrice(order, market), now);
+        } else {
+          applyFill(order, total, executionPrice(order, market), now);
+        }
+        execution.lastFillAt = now;
+        if (execution.filled.amount >= total) {
+          transition(order, S.PENDING_FILL, now);
+        }
+        return true;
+      }
+
+      const lastFillAt =
+        execution.lastFillAt ?? execution.statusUpdatedAt ?? now;
+
+      // TWAP orders: one child slice per fill interval, up to the schedule
+      if (orderType === "TWAP" && execution.targetEndTime != null) {
+        const atEnd = now >= execution.targetEndTime;
+        if (!atEnd && now - lastFillAt < config.fillIntervalMs) return false;
+        const scheduled = twapScheduledQuantity(
+          total,
+          execution.startTime ?? now,
+          execution.targetEndTime,
+          now
+        );
+        const slice = scheduled - execution.filled.amount;
+        if (slice <= 0) return false;
+        applyFill(order, slice, executionPrice(order, market), now);
+        execution.lastFillAt = now;
+        if (execution.filled.amount >= total) {
+          transition(order, S.PENDING_FILL, now);
+        }
+        return true;
+      }
+
+      if (now - lastFillAt < config.fillIntervalMs) return false;
+
+      applyFill(
+        order,
+        total * config.fillFraction,
+        executionPrice(order, market),
+        now
+      );
+      execution.lastFillAt = now;
+      if (execution.filled.amount >= total) {
+        transition(order, S.PENDING_FILL, now);
+      }
+      return true;
+    }
+
+    case S.PENDING_FILL:
+      if (since < config.pendingFillMs) return false;
+      transition(order, S.FILLED, now);
+      return true;
+
+    case S.PENDING_SUSPEND:
+      if (since < config.pendingSuspendMs) return false;
+      transition(order, S.LIVE_SUSPENDED, now);
+      return true;
+
+    case S.LIVE_SUSPENDED:
+      if (execution.suspendedByUser) return false;
+      if (since < config.suspendedMs) return false;
+      transition(order, S.PENDING_RESUME, now);
+      return true;
+
+    case S.PENDING_RESUME:
+      if (since < config.pendingResumeMs) return false;
+      transition(order, S.LIVE, now);
+      return true;
+
+    case S.PENDING_MOVE_TO_MANUAL:
+      if (since < config.pendingMoveToManualMs) return false;
+      execution.agent = EXECUTION_AGENT.MANUAL;
+      transition(order, S.LIVE, now);
+      return true;
+
+    case S.PENDING_CANCEL:
+      if (since < config.pendingCancelMs) return false;
+      transition(order, S.CANCELLED, now);
+      return true;
+
+    case S.PENDING_EXPIRY:
+      if (since < config.pendingExpiryMs) return false;
+      transition(order, S.EXPIRED, now);
+      return true;
+
+    default:
+      return false;
+  }
+};
+
+// Single ticking loop that advances every non-terminal order.
+// Orders are read and written through an OrderStore (storage/orderStore.js), so
+// each order is updated on its own instead of rewriting every order per tick.
+export const createOrderSimulator = ({ store, config = LIFECYCLE_CONFIG }) => {
+  let intervalId = null;
+  let ticking = false;
+
+  const tick = async () => {
+    // A slow store must not let ticks overlap
+    if (ticking) return;
+    ticking = true;
+
+    try {
+      const now = Date.now();
+      const orders = await store.list();
+
+      for (const { orderId, execution } of orders) {
+        if (isTerminalStatus(execution.status)) continue;
+        try {
+          await store.update(orderId, (order) =>
+            advanceOrder(order, now, config)
+          );
+        } catch (e) {
+          console.error(`[ORDER SIM] ${orderId}:`, e.message);
+        }
+      }
+    } finally {
+      ticking = false;
+    }
+  };
+
+  return {
+    tick,
+    start: () => {
+      if (intervalId) return;
+      intervalId = setInterval(tick, config.tickMs);
+      console.log(`[ORDER SIM] Started (tick ${config.tickMs}ms)`);
+    },
+    stop: () => {
+      clearInterval(intervalId);
+      intervalId = null;
+    },
+  };
+};
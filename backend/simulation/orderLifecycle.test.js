@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { executionPrice, isLevelTriggered } from "./orderLifecycle.js";
+
+// GBPUSD-like market whose raw bid/ask sit between two quoted (5dp) prices:
+// the ticket shows 1.27225 / 1.27235
+const market = {
+  bid: 1.272254,
+  ask: 1.272346,
+  mid: 1.2723,
+  precision: 5,
+};
+
+const levelOrder = (side, level, triggerSide = null) => ({
+  order: { orderType: "TAKE_PROFIT", side, level, triggerSide },
+  execution: {},
+});
+
+describe("orderLifecycle", () => {
+  describe("executionPrice", () => {
+    it("expect BUY to fill at the quoted ask", () => {
+      assert.equal(executionPrice(levelOrder("BUY", 1.27), market), 1.27235);
+    });
+
+    it("expect SELL to fill at the quoted bid", () => {
+      assert.equal(executionPrice(levelOrder("SELL", 1.28), market), 1.27225);
+    });
+  });
+
+  describe("isLevelTriggered", () => {
+    it("expect a BUY level between the raw and quoted ask not to trigger", () => {
+      // Raw ask 1.272346 is at or below the level, the quoted 1.27235 is not
+      assert.equal(
+        isLevelTriggered(levelOrder("BUY", 1.272348), market),
+        false
+      );
+    });
+
+    it("expect a BUY level at the quoted ask to trigger", () => {
+      assert.equal(isLevelTriggered(levelOrder("BUY", 1.27235), market), true);
+    });
+
+    it("expect a SELL level between the raw and quoted bid not to trigger", () => {
+      // Raw bid 1.272254 is at or above the level, the quoted 1.27225 is not
+      assert.equal(
+        isLevelTriggered(levelOrder("SELL", 1.272252), market),
+        false
+      );
+    });
+
+    it("expect LEADING and TRAILING sides to compare quoted prices", () => {
+      // BUY TAKE_PROFIT waits for the market to come down: LEADING is the bid
+      assert.equal(
+        isLevelTriggered(levelOrder("BUY", 1.272253, "LEADING"), market),
+        true
+      );
+      assert.equal(
+        isLevelTriggered(levelOrder("BUY", 1.272348, "TRAILING"), market),
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,42 @@
+// JSON file persistence shared by the file-backed stores
+//
+// Stores keep their data in memory and call schedule() after each change.
+// Changes are coalesced into at most one write per flush interval, and each
+// write replaces the file atomically (temp file + rename) so a crash mid-write
+// never leaves a truncated file. flush() writes immediately (used on close).
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+
+const FILE_FLUSH_MS = 250;
+
+export const readJsonFile = (path, fallback) =>
+  existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : fallback;
+
+// snapshot() returns the data to write at flush time
+export const createJsonFileWriter = (
+  path,
+  snapshot,
+  { flushMs = FILE_FLUSH_MS } = {}
+) => {
+  let dirty = false;
+  let flushTimer = null;
+
+  const flush = () => {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+    if (!dirty) return;
+    dirty = false;
+
+    const tempPath = `${path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(snapshot(), null, 2));
+    renameSync(tempPath, path);
+  };
+
+  return {
+    schedule: () => {
+      dirty = true;
+      if (!flushTimer) flushTimer = setTimeout(flush, flushMs);
+    },
+    flush,
+  };
+};
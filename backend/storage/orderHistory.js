@@ -0,0 +1,153 @@
+// Order history (audit trail)
+//
+// Every order change is recorded as a versioned, timestamped history entry.
+// Entries are derived from the order store's change events, so they are written
+// whichever path changed the order (mutations or the lifecycle simulator):
+//
+//   CREATED           order created
+//   AMENDED           order fields changed - changes lists each field's from/to
+//   FILL              filled amount increased - fillAmount at fillRate
+//   CANCEL_REQUESTED  status moved to PENDING_CANCEL
+//   CANCELLED         status moved to CANCELLED
+//   AGENT_CHANGED     execution agent changed (e.g. moved to manual) - changes
+//                     lists the agent's from/to
+//   STATUS_CHANGED    any other status move (LIVE, FILLED, REJECTED, ...)
+//
+// One order change can produce several entries (e.g. a final FILL followed by
+// STATUS_CHANGED to PENDING_FILL). Versions count up per order from 1.
+//
+// History lives next to the orders: orderHistory.json with the file order
+// store, memory only with ORDER_STORE=memory.
+
+import { createJsonFileWriter, readJsonFile } from "./jsonFile.js";
+
+// History values are strings so any field type fits FieldChange.from/to
+const toHistoryValue = (value) => {
+  if (value === undefined || value === null) return null;
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+// Flatten order details to dotted paths, e.g. { amount: { amount: 1 } } -> "amount.amount"
+const flatten = (value, prefix = "", out = {}) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) =>
+      flatten(child, prefix ? `${prefix}.${key}` : key, out)
+    );
+  } else if (prefix) {
+    out[prefix] = toHistoryValue(value);
+  }
+  return out;
+};
+
+// Field-by-field diff of the order details (order.order)
+export const diffOrderFields = (previous, next) => {
+  const before = flatten(previous);
+  const after = flatten(next);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter((field) => (before[field] ?? null) !== (after[field] ?? null))
+    .sort()
+    .map((field) => ({
+      field,
+      from: before[field] ?? null,
+      to: after[field] ?? null,
+    }));
+};
+
+// History entries (without version) for one order store change event
+export const buildHistoryEntries = ({ type, order, previous }, timestamp) => {
+  const base = {
+    orderId: order.orderId,
+    timestamp,
+    status: order.execution.status,
+    previousStatus: previous?.execution.status ?? null,
+    changes: [],
+    fillAmount: null,
+    fillRate: null,
+    filledAmount: order.execution.filled.amount,
+  };
+
+  if (type === "created" || !previous) {
+    return [{ ...base, type: "CREATED" }];
+  }
+
+  const entries = [];
+
+  const changes = diffOrderFields(previous.order, order.order);
+  if (changes.length > 0) {
+    entries.push({ ...base, type: "AMENDED", changes });
+  }
+
+  // Rate of this fill alone, backed out of the running average
+  const filledBefore = previous.execution.filled.amount;
+  const filledAfter = order.execution.filled.amount;
+  if (filledAfter > filledBefore) {
+    const fillAmount = filledAfter - filledBefore;
+    const fillRate =
+      (order.execution.averageFillRate * filledAfter -
+        previous.execution.averageFillRate * filledBefore) /
+      fillAmount;
+    entries.push({ ...base, type: "FILL", fillAmount, fillRate });
+  }
+
+  if (order.execution.agent !== previous.execution.agent) {
+    entries.push({
+      ...base,
+      type: "AGENT_CHANGED",
+      changes: [
+        {
+          field: "agent",
+          from: toHistoryValue(previous.execution.agent),
+          to: toHistoryValue(order.execution.agent),
+        },
+      ],
+    });
+  }
+
+  if (order.execution.status !== previous.execution.status) {
+    const statusType =
+      {
+        PENDING_CANCEL: "CANCEL_REQUESTED",
+        CANCELLED: "CANCELLED",
+      }[order.execution.status] ?? "STATUS_CHANGED";
+    entries.push({ ...base, type: statusType });
+  }
+
+  return entries;
+};
+
+export const createOrderHistory = ({ orderStore, path = null }) => {
+  const history = new Map(Object.entries(path ? readJsonFile(path, {}) : {}));
+  const writer = path
+    ? createJsonFileWriter(path, () => Object.fromEntries(history))
+    : null;
+
+  const unsubscribe = orderStore.subscribe((event) => {
+    const entries = buildHistoryEntries(event, Date.now());
+    if (entries.length === 0) return;
+
+    const orderHistory = history.get(event.order.orderId) ?? [];
+    entries.forEach((entry) =>
+      orderHistory.push({ ...entry, version: orderHistory.length + 1 })
+    );
+    history.set(event.order.orderId, orderHistory);
+    writer?.schedule();
+  });
+
+  return {
+    // Oldest first; empty for orders created before history was recorded
+    get: async (orderId) => structuredClone(history.get(orderId) ?? []),
+    close: async () => {
+      unsubscribe();
+      writer?.flush();
+    },
+  };
+};
+
+// Same ORDER_STORE switch as the order store: memory keeps history in memory only
+export const createOrderHistoryFromEnv = (orderStore, historyPath) =>
+  createOrderHistory({
+    orderStore,
+    path: process.env.ORDER_STORE === "memory" ? null : historyPath,
+  });
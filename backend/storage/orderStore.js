@@ -0,0 +1,128 @@
+// Order storage
+//
+// Every order read/write goes through an OrderStore so resolvers, subscriptions
+// and the lifecycle simulator share one consistent view of the orders:
+//
+//   get(orderId)               -> Promise<order | null>
+//   list()                     -> Promise<order[]>
+//   create(order)              -> Promise<order>
+//   update(orderId, mutator)   -> Promise<order | null>
+//       mutator receives a copy of the order and edits it in place; returning
+//       false discards the edit. Nothing is written or emitted when the order
+//       did not actually change.
+//   subscribe(listener)        -> unsubscribe()
+//       listener({ type: "created" | "updated", order, previous }) after every
+//       change (previous is the order before an update, null on create)
+//   close()                    -> Promise<void> (flushes pending writes)
+//
+// Writes are serialised through a single queue, so concurrent mutations and
+// simulator ticks apply one after another instead of overwriting each other.
+//
+// Implementations:
+// - createMemoryOrderStore(): orders live only in memory (tests, throwaway runs)
+// - createFileOrderStore(path): memory + orders.json on disk, written through
+//   createJsonFileWriter (coalesced, atomic) and flushed on close.
+
+import { EventEmitter } from "events";
+import { createJsonFileWriter, readJsonFile } from "./jsonFile.js";
+
+// Callers always get copies, so the stored state only changes through update()
+const clone = (order) => (order ? structuredClone(order) : null);
+
+// Shared core: in-memory orders, write queue and change events.
+// onChange() lets durable implementations persist after each write.
+const createStoreCore = (initialOrders = {}, onChange = () => {}) => {
+  const orders = new Map(Object.entries(initialOrders));
+  const events = new EventEmitter();
+  events.setMaxListeners(0); // one listener per open subscription
+
+  let queue = Promise.resolve();
+  const serialise = (fn) => {
+    const run = queue.then(fn);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  const emit = (type, order, previous = null) => {
+    onChange();
+    events.emit("change", {
+      type,
+      order: clone(order),
+      previous: clone(previous),
+    });
+  };
+
+  return {
+    orders,
+
+    get: async (orderId) => clone(orders.get(orderId)),
+
+    list: async () => [...orders.values()].map(clone),
+
+    create: (order) =>
+      serialise(() => {
+        if (orders.has(order.orderId)) {
+          throw new Error(`Order ${order.orderId} already exists`);
+        }
+        orders.set(order.orderId, clone(order));
+        emit("created", order);
+        return clone(order);
+      }),
+
+    update: (orderId, mutator) =>
+      serialise(() => {
+        const current = orders.get(orderId);
+        if (!current) return null;
+
+        const draft = clone(current);
+        const before = JSON.stringify(current);
+        if (mutator(draft) === false || JSON.stringify(draft) === before) {
+          return clone(current);
+        }
+
+        orders.set(orderId, draft);
+        emit("updated", draft, current);
+        return clone(draft);
+      }),
+
+    subscribe: (listener) => {
+      events.on("change", listener);
+      return () => events.off("change", listener);
+    },
+
+    // Resolves once every queued write has been applied
+    drain: () => queue,
+  };
+};
+
+export const createMemoryOrderStore = (initialOrders = {}) => {
+  const { orders: _orders, drain, ...store } = createStoreCore(initialOrders);
+  return { ...store, close: drain };
+};
+
+export const createFileOrderStore = (path, options) => {
+  let orders = null;
+  const writer = createJsonFileWriter(
+    path,
+    () => Object.fromEntries(orders),
+    options
+  );
+
+  const core = createStoreCore(readJsonFile(path, {}), writer.schedule);
+  orders = core.orders;
+
+  const { orders: _orders, drain, ...store } = core;
+  return {
+    ...store,
+    close: async () => {
+      await drain();
+      writer.flush();
+    },
+  };
+};
+
+// ORDER_STORE=memory keeps orders in memory only; anything else persists to orders.json
+export const createOrderStoreFromEnv = (ordersPath) =>
+  process.env.ORDER_STORE === "memory"
+    ? createMemoryOrderStore()
+    : createFileOrderStore(ordersPath);
@@ -0,0 +1,177 @@
+// Per-account pre-trade limits (data/accountLimits.json, amounts in USD)
+//
+// - maxOrderNotional:   largest single order                          HARD
+// - dailyGrossLimit:    sum of the account's orders created today     HARD
+//                       (UTC day, rejected orders excluded)
+// - maxNetOpenExposure: per currency, net of the account's live orders HARD
+//                       (BUY is long ccy1 / short ccy2)
+//
+// Going above warnAt x a HARD limit gives a SOFT warning first. Accounts without
+// their own entry use "default", and missing fields fall back to it as well.
+// Notionals are converted to USD at the current mid of the pair linking the
+// currency to USD; amounts with no such pair are not limit-checked.
+
+import { isTerminalStatus } from "../simulation/orderLifecycle.js";
+
+export const LIMIT_CURRENCY = "USD";
+
+const DEFAULT_WARN_AT = 0.9;
+
+export const limitsForAccount = (limitsByAccount, sdsId) => ({
+  warnAt: DEFAULT_WARN_AT,
+  ...limitsByAccount.default,
+  ...limitsByAccount[String(sdsId)],
+});
+
+// (amount, ccy) -> USD amount, or null when the currency can't be converted
+export const createUsdConverter = (currencyPairs, midFor) => (amount, ccy) => {
+  if (!Number.isFinite(amount)) return null;
+  if (ccy === LIMIT_CURRENCY) return amount;
+  const direct = currencyPairs.find(
+    (p) => p.ccy1 === ccy && p.ccy2 === LIMIT_CURRENCY
+  );
+  if (direct) return amount * midFor(direct.symbol);
+  const inverse = currencyPairs.find(
+    (p) => p.ccy1 === LIMIT_CURRENCY && p.ccy2 === ccy
+  );
+  if (inverse) return amount / midFor(inverse.symbol);
+  return null;
+};
+
+const utcDay = (time) => new Date(time).toISOString().slice(0, 10);
+
+// Signed USD exposure per currency for one order: [[ccy, usd], ...]
+const exposureLegs = (order, currencyPairs, notionalUsd) => {
+  const pair = currencyPairs.find((p) => p.symbol === order.currencyPair);
+  if (!pair) return [];
+  const sign = order.side === "SELL" ? -1 : 1;
+  return [
+    [pair.ccy1, sign * notionalUsd],
+    [pair.ccy2, -sign * notionalUsd],
+  ];
+};
+
+// Today's gross and live net exposure for an account, from stored orders
+// (excludeOrderId leaves out the order being amended)
+export const computeUsage = (
+  sdsId,
+  { orders, currencyPairs, toUsd, now = Date.now() },
+  excludeOrderId = null
+) => {
+  const today = utcDay(now);
+  let dailyGross = 0;
+  const netExposure = {};
+
+  for (const { orderId, order, execution, createdAt } of orders) {
+    if (orderId === excludeOrderId) continue;
+    if (String(order.account?.sdsId) !== String(sdsId)) continue;
+
+    const notionalUsd = toUsd(order.amount?.amount, order.amount?.ccy);
+    if (notionalUsd === null) continue;
+
+    if (
+      execution.status !== "REJECTED" &&
+      createdAt &&
+      utcDay(createdAt) === today
+    ) {
+      dailyGross += notionalUsd;
+    }
+    if (!isTerminalStatus(execution.status)) {
+      const legs = exposureLegs(order, currencyPairs, notionalUsd);
+      for (const [ccy, usd] of legs) {
+        netExposure[ccy] = (netExposure[ccy] ?? 0) + usd;
+      }
+    }
+  }
+
+  return { dailyGross, netExposure };
+};
+
+// e.g. 25000000 -> "USD 25m"
+const formatUsd = (value) =>
+  `${LIMIT_CURRENCY} ${(value / 1_000_000).toLocaleString("en-US", {
+    maximumFractionDigits: 1,
+  })}m`;
+
+const failure = (message, type) => ({
+  field: "amount",
+  ok: false,
+  type,
+  message,
+});
+
+// FieldValidation results (field "amount") for a new or amended order
+export const checkAccountLimits = (
+  order,
+  limits,
+  usage,
+  { currencyPairs, toUsd }
+) => {
+  const notionalUsd = toUsd(order.amount?.amount, order.amount?.ccy);
+  if (notionalUsd === null) return [];
+  const results = [];
+
+  const checkHardLimit = (label, used, limit) => {
+    if (!limit) return;
+    if (used > limit) {
+      results.push(
+        failure(
+          `${label} ${formatUsd(used)} exceeds limit ${formatUsd(limit)}`,
+          "HARD"
+        )
+      );
+    } else if (used > limit * limits.warnAt) {
+      results.push(
+        failure(
+          `${label} at ${Math.round((used / limit) * 100)}% of ${formatUsd(limit)} limit`,
+          "SOFT"
+        )
+      );
+    }
+  };
+
+  checkHardLimit("Order notional", notionalUsd, limits.maxOrderNotional);
+  checkHardLimit(
+    "Daily gross",
+    usage.dailyGross + notionalUsd,
+    limits.dailyGrossLimit
+  );
+
+  if (limits.maxNetOpenExposure) {
+    for (const [ccy, usd] of exposureLegs(order, currencyPairs, notionalUsd)) {
+      const net = (usage.netExposure[ccy] ?? 0) + usd;
+      checkHardLimit(
+        `${ccy} net open exposure`,
+        Math.abs(net),
+        limits.maxNetOpenExposure
+      );
+    }
+  }
+
+  return results;
+};
+
+// AccountHeadroom payload; currencies adds rows for currencies with no live
+// exposure yet (e.g. the pair on the ticket)
+export const computeHeadroom = (sdsId, limits, usage, currencies = []) => {
+  const exposureCcys = [
+    ...new Set([...Object.keys(usage.netExposure), ...currencies]),
+  ];
+  return {
+    sdsId,
+    currency: LIMIT_CURRENCY,
+    maxOrderNotional: limits.maxOrderNotional,
+    dailyGrossLimit: limits.dailyGrossLimit,
+    dailyGrossUsed: usage.dailyGross,
+    dailyGrossRemaining: Math.max(0, limits.dailyGrossLimit - usage.dailyGross),
+    netOpenExposure: exposureCcys.map((ccy) => {
+      const net = usage.netExposure[ccy] ?? 0;
+      return {
+        ccy,
+        net,
+        limit: limits.maxNetOpenExposure,
+        remaining: limits.maxNetOpenExposure - Math.abs(net),
+      };
+    }),
+  };
+};
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { checkAccountLimits } from "./accountLimits.js";
+
+const currencyPairs = [{ symbol: "EURUSD", ccy1: "EUR", ccy2: "USD" }];
+const context = { currencyPairs, toUsd: (amount) => amount };
+const limits = { warnAt: 0.9, maxNetOpenExposure: 10_000_000 };
+const order = (amount) => ({
+  currencyPair: "EURUSD",
+  side: "BUY",
+  amount: { amount, ccy: "USD" },
+});
+const usage = (eurExposure) => ({
+  dailyGross: 0,
+  netExposure: { EUR: eurExposure, USD: -eurExposure },
+});
+
+describe("accountLimits", () => {
+  describe("checkAccountLimits - maxNetOpenExposure", () => {
+    it("expect nothing below warnAt x the limit", () => {
+      assert.deepEqual(
+        checkAccountLimits(order(1_000_000), limits, usage(0), context),
+        []
+      );
+    });
+
+    it("expect a SOFT warning per currency above warnAt x the limit", () => {
+      const results = checkAccountLimits(
+        order(1_000_000),
+        limits,
+        usage(8_500_000),
+        context
+      );
+      assert.deepEqual(
+        results.map(({ type, message }) => [type, message]),
+        [
+          ["SOFT", "EUR net open exposure at 95% of USD 10m limit"],
+          ["SOFT", "USD net open exposure at 95% of USD 10m limit"],
+        ]
+      );
+    });
+
+    it("expect a HARD failure per currency above the limit", () => {
+      const results = checkAccountLimits(
+        order(3_000_000),
+        limits,
+        usage(8_500_000),
+        context
+      );
+      assert.deepEqual(
+        results.map(({ field, type, message }) => [field, type, message]),
+        [
+          [
+            "amount",
+            "HARD",
+            "EUR net open exposure USD 11.5m exceeds limit USD 10m",
+          ],
+          [
+            "amount",
+            "HARD",
+            "USD net open exposure USD 11.5m exceeds limit USD 10m",
+          ],
+        ]
+      );
+    });
+
+    it("expect an order reducing the exposure to pass", () => {
+      const sell = { ...order(3_000_000), side: "SELL" };
+      assert.deepEqual(
+        checkAccountLimits(sell, limits, usage(11_000_000), context),
+        []
+      );
+    });
+  });
+});
@@ -0,0 +1,285 @@
+// Whole-order validation for validateOrder, createOrder and amendOrder
+//
+// Rules mirror the ticket's SCHEMA_MAP and composable validators
+// (frontend/src/config/validation.ts), plus checks against reference data:
+// - every order: currencyPair, amount (1 .. 100bn), ccy from the pair, an
+//   available account (per-account limits are in accountLimits.js)
+// - entitlements: the order type, and the pair for that order type (STOP_LOSS
+//   also needs the pair's stopLossAllowed flag)
+// - level: required and positive for level order types, positive when set
+// - liquidityPool: must be offered for the order type (when the type lists pools)
+// - FIXING: a fixing offered for FIXING orders, and a weekday fixingDate whose
+//   fixing time has not passed yet (calendar/fixings.js)
+// - TAKE_PROFIT iceberg: positive, at most the amount, at least the pair's
+//   minIcebergClip (given in ccy1, converted at the mid for ccy2 amounts) and a
+//   multiple of ICEBERG_CLIP_STEP
+// - TWAP: twapTargetEndTime, when set, has not passed yet
+// - startMode START_AT: startTime, startDate and timeZone
+// - expiry GTD/GTT: expiryTime, expiryDate and expiryTimeZone that resolve to an
+//   end time (calendar/expiry.js) that has not passed yet
+//
+// Returns one FieldValidation per failed check, keyed by top-level OrderEntry
+// field; an empty list means the order is valid. HARD failures block the order,
+// SOFT failures are warnings.
+
+import {
+  isOrderTypeEntitled,
+  pairEntitlementError,
+} from "../auth/entitlements.js";
+import {
+  expiryError,
+  expiryTimeOf,
+  resolveExpiry,
+} from "../calendar/expiry.js";
+import { findFixing, fixingInstant, isFixingDay } from "../calendar/fixings.js";
+
+const AMOUNT_MIN = 1;
+const AMOUNT_MAX = 100_000_000_000;
+const MIN_VALID_PRICE = 0.00001;
+
+// Iceberg clips are round lots in the order currency (ICEBERG_CONFIG.CLIP_STEP
+// in frontend/src/config/constants.ts)
+const ICEBERG_CLIP_STEP = 10_000;
+
+// SCHEMA_MAP order types whose schema requires level (priceSchema)
+const LEVEL_REQUIRED = new Set([
+  "TAKE_PROFIT",
+  "STOP_LOSS",
+  "CALL_LEVEL",
+  "POUNCE",
+]);
+
+const isBlank = (value) =>
+  value === null || value === undefined || String(value).trim() === "";
+
+const failure = (field, message, type = "HARD") => ({
+  field,
+  ok: false,
+  type,
+  message,
+});
+
+// The pair's minimum iceberg clip in the order currency, rounded up to a whole
+// clip step for ccy2 amounts; null when the pair has none or there is no mid
+const minIcebergClipFor = (pair, ccy, midFor) => {
+  if (!pair?.minIcebergClip) return null;
+  if (ccy === pair.ccy1) return pair.minIcebergClip;
+  const mid = midFor?.(pair.symbol);
+  if (!(mid > 0)) return null;
+  return (
+    Math.ceil((pair.minIcebergClip * mid) / ICEBERG_CLIP_STEP) *
+    ICEBERG_CLIP_STEP
+  );
+};
+
+const formatQuantity = (value) => value.toLocaleString("en-US");
+
+export const hasHardFailures = (results) =>
+  results.some((result) => result.type === "HARD");
+
+// The "has passed" checks, keyed by the field their failure is reported on
+export const TIME_CHECKS = ["fixingDate", "twapTargetEndTime", "expiryTime"];
+
+// refData: { currencyPairs, accounts, orderTypesWithPools } from data/*.json,
+// plus the caller's entitlements (skipped when absent), the pair mids iceberg
+// clips are converted at (midFor), the time fixing, TWAP end and expiry times
+// are checked against (now, defaults to the current time) and which of those
+// time checks run (timeChecks, defaults to all of TIME_CHECKS)
+export const validateOrderEntry = (order, refData) => {
+  const {
+    currencyPairs = [],
+    accounts = [],
+    orderTypesWithPools = [],
+    entitlements = null,
+    midFor = null,
+    now = Date.now(),
+    timeChecks = TIME_CHECKS,
+  } = refData;
+  const results = [];
+  const hasPassed = (check, time) => timeChecks.includes(check) && time <= now;
+
+  // orderType
+  if (entitlements && !isOrderTypeEntitled(entitlements, order.orderType)) {
+    results.push(failure("orderType", "Order type not supported"));
+  }
+
+  // currencyPair
+  const pair = currencyPairs.find((cp) => cp.symbol === order.currencyPair);
+  if (isBlank(order.currencyPair)) {
+    results.push(failure("currencyPair", "Currency pair is required"));
+  } else if (!pair) {
+    results.push(failure("currencyPair", "Currency pair not available"));
+  } else if (entitlements) {
+    const entitlementError = pairEntitlementError(
+      entitlements,
+      order.orderType,
+      pair
+    );
+    if (entitlementError) {
+      results.push(failure("currencyPair", entitlementError));
+    }
+  }
+
+  // amount
+  const amount = order.amount?.amount;
+  if (typeof amount !== "number" || !Number.isFinite(amount)) {
+    results.push(failure("amount", "Amount must be a number"));
+  } else if (amount < AMOUNT_MIN) {
+    results.push(failure("amount", "Minimum amount is 1"));
+  } else if (amount > AMOUNT_MAX) {
+    results.push(failure("amount", "Amount exceeds pool limit"));
+  }
+  if (isBlank(order.amount?.ccy)) {
+    results.push(failure("amount", "Currency is required"));
+  } else if (pair && ![pair.ccy1, pair.ccy2].includes(order.amount.ccy)) {
+    results.push(
+      failure("amount", `Currency must be ${pair.ccy1} or ${pair.ccy2}`)
+    );
+  }
+
+  // account
+  if (!order.account || isBlank(order.account.name)) {
+    results.push(failure("account", "Account name is required"));
+  } else if (
+    !accounts.some((a) => String(a.sdsId) === String(order.account.sdsId))
+  ) {
+    results.push(failure("account", "Account not available"));
+  }
+
+  // level
+  if (order.level === null || order.level === undefined) {
+    if (LEVEL_REQUIRED.has(order.orderType)) {
+      results.push(failure("level", "Price must be a number"));
+    }
+  } else if (order.level < MIN_VALID_PRICE) {
+    results.push(failure("level", "Price must be positive"));
+  }
+
+  // iceberg - same messages as validateIcebergFields
+  if (order.orderType === "TAKE_PROFIT" && order.iceberg != null) {
+    const minClip = minIcebergClipFor(pair, order.amount?.ccy, midFor);
+    if (!(order.iceberg > 0)) {
+      results.push(failure("iceberg", "Iceberg must be positive"));
+    } else if (typeof amount === "number" && order.iceberg > amount) {
+      results.push(failure("iceberg", "Iceberg must not exceed amount"));
+    } else if (minClip !== null && order.iceberg < minClip) {
+      results.push(
+        failure(
+          "iceberg",
+          `Minimum iceberg clip is ${formatQuantity(minClip)} ${order.amount.ccy}`
+        )
+      );
+    } else if (order.iceberg % ICEBERG_CLIP_STEP !== 0) {
+      results.push(
+        failure(
+          "iceberg",
+          `Iceberg must be a multiple of ${formatQuantity(ICEBERG_CLIP_STEP)}`
+        )
+      );
+    }
+  }
+
+  // liquidityPool
+  const poolsForType = orderTypesWithPools.find(
+    (ot) => ot.orderType === order.orderType
+  )?.liquidityPools;
+  if (
+    !isBlank(order.liquidityPool) &&
+    poolsForType?.length &&
+    !poolsForType.some((p) => p.value === order.liquidityPool)
+  ) {
+    results.push(failure("liquidityPool", "Liquidity pool not available"));
+  }
+
+  // fixingId/fixingDate - same required messages as FixingOrderSchema
+  if (order.orderType === "FIXING") {
+    const fixing = findFixing(orderTypesWithPools, order.fixingId);
+    if (isBlank(order.fixingId)) {
+      results.push(failure("fixingId", "Fixing is required"));
+    } else if (!fixing) {
+      results.push(failure("fixingId", "Fixing not available"));
+    }
+    if (isBlank(order.fixingDate)) {
+      results.push(failure("fixingDate", "Fixing date is required"));
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(order.fixingDate)) {
+      results.push(failure("fixingDate", "Fixing date must be YYYY-MM-DD"));
+    } else if (!isFixingDay(order.fixingDate)) {
+      results.push(failure("fixingDate", "No fixing on weekends"));
+    } else if (
+      fixing &&
+      hasPassed("fixingDate", fixingInstant(fixing, order.fixingDate))
+    ) {
+      results.push(failure("fixingDate", "Fixing time has passed"));
+    }
+  }
+
+  if (
+    order.orderType === "TWAP" &&
+    order.twapTargetEndTime != null &&
+    hasPassed("twapTargetEndTime", order.twapTargetEndTime)
+  ) {
+    results.push(failure("twapTargetEndTime", "TWAP end time has passed"));
+  }
+
+  // Same messages as validateStartModeFields
+  if (order.startMode === "START_AT") {
+    if (isBlank(order.startTime)) {
+      results.push(
+        failure(
+          "startTime",
+          "Start time is required when Start Mode is 'Start At'"
+        )
+      );
+    }
+    if (isBlank(order.startDate)) {
+      results.push(
+        failure(
+          "startDate",
+          "Start date is required when Start Mode is 'Start At'"
+        )
+      );
+    }
+    if (isBlank(order.timeZone)) {
+      results.push(
+        failure(
+          "timeZone",
+          "Timezone is required when Start Mode is 'Start At'"
+        )
+      );
+    }
+  }
+
+  // Same messages as validateExpiryFields
+  if (order.expiry?.strategy === "GTD" || order.expiry?.strategy === "GTT") {
+    if (isBlank(order.expiryTime)) {
+      results.push(
+        failure("expiryTime", "Expiry time is required for GTD/GTT orders")
+      );
+    }
+    if (isBlank(order.expiryDate)) {
+      results.push(
+        failure("expiryDate", "Expiry date is required for GTD/GTT orders")
+      );
+    }
+    if (isBlank(order.expiryTimeZone)) {
+      results.push(
+        failure(
+          "expiryTimeZone",
+          "Expiry timezone is required for GTD/GTT orders"
+        )
+      );
+    }
+    const unresolved = expiryError(order);
+    if (unresolved) {
+      results.push(failure(unresolved.field, unresolved.message));
+    }
+    const endTime = unresolved
+      ? null
+      : expiryTimeOf({ expiry: resolveExpiry(order) });
+    if (endTime !== null && hasPassed("expiryTime", endTime)) {
+      results.push(failure("expiryTime", "Expiry time has passed"));
+    }
+  }
+
+  return results;
+};
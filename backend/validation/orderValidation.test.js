@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { validateOrderEntry } from "./orderValidation.js";
+
+const EXPIRY_FIELDS = ["expiryDate", "expiryTime", "expiryTimeZone"];
+const expiryFailures = (fields) =>
+  validateOrderEntry(
+    {
+      expiry: { strategy: "GTT", endTime: Date.UTC(2030, 0, 15) },
+      expiryDate: "2030-01-15",
+      expiryTime: "17:00",
+      expiryTimeZone: "America/New_York",
+      ...fields,
+    },
+    { now: Date.UTC(2026, 0, 1) }
+  )
+    .filter(({ field }) => EXPIRY_FIELDS.includes(field))
+    .map(({ field, type }) => [field, type]);
+
+describe("orderValidation", () => {
+  describe("validateOrderEntry - GTD/GTT expiry", () => {
+    it("expect no expiry failure when the ticket fields resolve", () => {
+      assert.deepEqual(expiryFailures({}), []);
+    });
+
+    it("expect a HARD failure when the time zone is unknown", () => {
+      assert.deepEqual(expiryFailures({ expiryTimeZone: "Nowhere/Special" }), [
+        ["expiryTimeZone", "HARD"],
+      ]);
+    });
+
+    it("expect a HARD failure when the date does not resolve", () => {
+      assert.deepEqual(expiryFailures({ expiryDate: "2030-13-45" }), [
+        ["expiryDate", "HARD"],
+      ]);
+    });
+  });
+});
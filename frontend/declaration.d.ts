@@ -4,6 +4,9 @@ declare module "*.scss";
 interface ImportMetaEnv {
   readonly VITE_GATOR_BFF_HTTP: string;
   readonly VITE_GATOR_BFF_SUBSCRIPTION: string;
+  readonly VITE_AUTH_TOKEN?: string;
+  readonly VITE_AUTH_DEV_TOKEN_URL?: string;
+  readonly VITE_AUTH_DEV_USER_ID?: string;
   readonly DEV: boolean;
 }
 
@@ -11,6 +11,9 @@
  *    - OrderHeader: Symbol selection and live ticking prices
  *    - OrderForm: Dynamic form fields based on order type
  *    - OrderFooter: Action buttons (Submit/Amend) - rendered inside OrderForm
+ *    - FillsTable: Per-fill execution reports of the viewed order, with running VWAP (viewing mode only)
+ *    - OrderHistoryPanel: Audit trail of the viewed order (viewing mode only)
+ *    - OrderBlotter: Live list of orders; clicking a row loads it into the ticket
  *
  * State Management:
  * - Uses Zustand store with "Layered State" pattern (baseValues + dirtyValues)
@@ -26,13 +29,17 @@ import { ApolloProvider } from "@apollo/client";
 
 import { Spinner } from "./components/atoms/Spinner";
 import { Fdc3ConfirmDialogPopup } from "./components/organisms/Fdc3ConfirmDialogPopup";
+import { FillsTable } from "./components/organisms/FillsTable";
+import { OrderBlotter } from "./components/organisms/OrderBlotter";
 import { OrderForm } from "./components/organisms/OrderForm";
 import { OrderHeader } from "./components/organisms/OrderHeader";
+import { OrderHistoryPanel } from "./components/organisms/OrderHistoryPanel";
 import { PopupProvider } from "./components/popup";
 import { MainLayout } from "./components/templates/MainLayout";
 import { graphqlClient } from "./graphql/client";
 import { useAppInit } from "./hooks/useAppInit";
 import { useKeyboardHotkeys } from "./hooks/useKeyboardHotkeys";
+import { useOrderBlotter } from "./hooks/useOrderBlotter";
 import { useOrderTracking } from "./hooks/useOrderTracking";
 import { useOrderEntryStore } from "./store";
 
@@ -46,6 +53,9 @@ function App() {
   // Track order status updates via ORDER_SUBSCRIPTION
   useOrderTracking();
 
+  // Load all orders for the blotter and keep them live via ORDERS_STREAM_SUBSCRIPTION
+  useOrderBlotter();
+
   // Set up global keyboard shortcuts (e.g., Ctrl+Enter to submit)
   useKeyboardHotkeys();
 
@@ -70,6 +80,7 @@ function App() {
   // OrderHeader: Currency pair selection and live price display
   // OrderForm: Dynamic form that changes based on selected order type
   // OrderFooter: Action buttons (rendered inside OrderForm component)
+  // OrderBlotter: All orders, click a row to view it in the ticket
   // Fdc3ConfirmDialog: Modal shown when FDC3 intent arrives with unsaved changes
   return (
     <MainLayout>
@@ -77,6 +88,9 @@ function App() {
       <div data-testid="order-form-entry">
         <OrderForm />
       </div>
+      <FillsTable />
+      <OrderHistoryPanel />
+      <OrderBlotter />
       <Fdc3ConfirmDialogPopup />
     </MainLayout>
   );
@@ -0,0 +1,51 @@
+import clsx from "clsx";
+
+import { useAccountHeadroom } from "../../hooks/useAccountHeadroom";
+import { formatCompactAmount } from "../../utils/numberFormats";
+
+import styles from "./AccountHeadroom.module.scss";
+
+/**
+ * AccountHeadroom - Remaining pre-trade limits for the selected account.
+ *
+ * Rendered under the account select. Shows the single-order limit, what is left
+ * of today's gross limit and the net open exposure headroom for each currency
+ * returned by the server (the ticket's pair plus any with live exposure).
+ * Items with no headroom left are highlighted; the server enforces the limits
+ * on submit either way.
+ *
+ * Renders nothing until an account is selected and the query has returned.
+ */
+export const AccountHeadroom = () => {
+  const headroom = useAccountHeadroom();
+
+  if (!headroom) {
+    return null;
+  }
+
+  const { currency } = headroom;
+
+  return (
+    <div className={styles.headroom} data-testid="account-headroom">
+      <span className={styles.item} data-testid="account-headroom-max-order">
+        Max order {currency} {formatCompactAmount(headroom.maxOrderNotional)}
+      </span>
+      <span
+        className={clsx(styles.item, headroom.dailyGrossRemaining <= 0 && styles.exhausted)}
+        data-testid="account-headroom-daily"
+      >
+        Day {formatCompactAmount(headroom.dailyGrossRemaining)} left
+      </span>
+      {headroom.netOpenExposure.map((exposure) => (
+        <span
+          key={exposure.ccy}
+          className={clsx(styles.item, exposure.remaining <= 0 && styles.exhausted)}
+          data-testid={`account-headroom-${exposure.ccy}`}
+          title={`Net ${exposure.ccy} exposure ${currency} ${formatCompactAmount(exposure.net)} of ${formatCompactAmount(exposure.limit)}`}
+        >
+          {exposure.ccy} {formatCompactAmount(exposure.remaining)} left
+        </span>
+      ))}
+    </div>
+  );
+};
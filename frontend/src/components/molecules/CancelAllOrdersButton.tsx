@@ -0,0 +1,51 @@
+import { useOrderEntryStore } from "../../store";
+
+import { ConfirmDialog } from "./ConfirmDialog";
+
+import styles from "./CancelAllOrdersButton.module.scss";
+
+/**
+ * Props for the CancelAllOrdersButton component.
+ */
+interface CancelAllOrdersButtonProps {
+  /** Currency pair symbol (e.g., "GBPUSD") */
+  symbol: string;
+}
+
+/**
+ * CancelAllOrdersButton - Panic "Cancel all {pair}" action.
+ *
+ * Asks for confirmation (ConfirmDialog); on confirm, cancels every live order
+ * for the pair via cancelAllForPair (cancelInstrumentAction), which toasts a
+ * summary.
+ *
+ * @example
+ * ```tsx
+ * <CancelAllOrdersButton symbol="GBPUSD" />
+ * ```
+ */
+export const CancelAllOrdersButton = ({ symbol }: CancelAllOrdersButtonProps) => {
+  const isCancellingAll = useOrderEntryStore((s) => s.isCancellingAll);
+  const cancelAllForPair = useOrderEntryStore((s) => s.cancelAllForPair);
+
+  return (
+    <ConfirmDialog
+      title={`Cancel all ${symbol} orders?`}
+      message={`Every live ${symbol} order will be cancelled, not just the one on this ticket. This cannot be undone.`}
+      keepLabel="Keep Orders"
+      confirmLabel={`Cancel All ${symbol}`}
+      onConfirm={() => cancelAllForPair(symbol)}
+      testId="cancel-all"
+      trigger={
+        <button
+          type="button"
+          className={styles.trigger}
+          disabled={!symbol || isCancellingAll}
+          data-testid="cancel-all-btn"
+        >
+          Cancel all {symbol}
+        </button>
+      }
+    />
+  );
+};
@@ -0,0 +1,66 @@
+import { canCancelOrder, getOrderStatusConfig } from "../../config/orderStatus";
+import { useOrderEntryStore } from "../../store";
+import { OrderStatus } from "../../types/domain";
+import { Spinner } from "../atoms/Spinner";
+
+import { ConfirmDialog } from "./ConfirmDialog";
+
+import styles from "./CancelOrderButton.module.scss";
+
+/**
+ * CancelOrderButton - Cancels the order shown on the ticket.
+ *
+ * Asks for confirmation (ConfirmDialog); on confirm, calls cancelOrder. The label
+ * follows the live orderStatus from useOrderTracking, so the ticket shows the
+ * PENDING_CANCEL → CANCELLED transition. Disabled once the order can no longer
+ * be cancelled (terminal or already cancelling) and while another order action
+ * is in flight.
+ *
+ * @example
+ * ```tsx
+ * <CancelOrderButton />
+ * ```
+ */
+export const CancelOrderButton = () => {
+  const orderStatus = useOrderEntryStore((s) => s.orderStatus);
+  const pendingOrderAction = useOrderEntryStore((s) => s.pendingOrderAction);
+  const cancelOrder = useOrderEntryStore((s) => s.cancelOrder);
+
+  const isCancellable = canCancelOrder(orderStatus);
+  const isCancelling =
+    pendingOrderAction === "CANCEL" || orderStatus === OrderStatus.PENDING_CANCEL;
+
+  return (
+    <ConfirmDialog
+      title="Cancel this order?"
+      message="Any unfilled amount will be withdrawn from the market. This cannot be undone."
+      keepLabel="Keep Order"
+      confirmLabel="Cancel Order"
+      onConfirm={() => cancelOrder()}
+      testId="cancel-order"
+      trigger={
+        <button
+          type="button"
+          className={styles.trigger}
+          disabled={!isCancellable || pendingOrderAction !== null}
+          title={
+            isCancellable
+              ? undefined
+              : `Cannot cancel: order is ${getOrderStatusConfig(orderStatus)?.label}`
+          }
+          data-testid="cancel-order-button"
+        >
+          {isCancelling ? (
+            <>
+              <Spinner size="sm" /> CANCELLING
+            </>
+          ) : orderStatus === OrderStatus.CANCELLED ? (
+            "CANCELLED"
+          ) : (
+            "CANCEL"
+          )}
+        </button>
+      }
+    />
+  );
+};
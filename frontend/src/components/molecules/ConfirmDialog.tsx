@@ -0,0 +1,167 @@
+import clsx from "clsx";
+import { type ReactElement, type ReactNode, useCallback, useEffect, useRef, useState } from "react";
+
+import { DialogPopup, usePopupChild } from "../popup";
+
+import styles from "./ConfirmDialog.module.scss";
+
+/**
+ * Reports the dialog body's current value: the data passed to onConfirm, or
+ * null while the body is invalid (the confirm button is disabled).
+ */
+type SetConfirmValue<T> = (data: T | null) => void;
+
+/**
+ * Props for the ConfirmDialog component.
+ */
+interface ConfirmDialogProps<T> {
+  /** Question shown as the dialog title (e.g., "Cancel this order?") */
+  title: string;
+  /** What confirming does */
+  message: string;
+  /** Label of the button that closes without confirming (e.g., "Keep Order") */
+  keepLabel: string;
+  /** Label of the button that confirms (e.g., "Cancel Order") */
+  confirmLabel: string;
+  /** Confirm button colour: danger for destructive actions (default), primary otherwise */
+  variant?: "danger" | "primary";
+  /** Called when the user confirms, with the body's value (undefined without a body) */
+  onConfirm: (data: T) => void;
+  /** Prefix of the data-testids: {testId}-dialog, -confirm-content, -keep-btn, -confirm-btn */
+  testId: string;
+  /** Trigger element that opens the dialog */
+  trigger: ReactElement;
+  /** Optional body (e.g., inputs) between the message and the buttons */
+  children?: (setValue: SetConfirmValue<T>) => ReactNode;
+}
+
+type ConfirmDialogContentProps<T> = Omit<ConfirmDialogProps<T>, "onConfirm" | "trigger">;
+
+/**
+ * Confirmation content rendered inside the DialogPopup.
+ * Closes with confirmed: true (and the body's value as data) only when the user
+ * explicitly confirms.
+ */
+const ConfirmDialogContent = <T,>({
+  title,
+  message,
+  keepLabel,
+  confirmLabel,
+  variant = "danger",
+  testId,
+  children,
+}: ConfirmDialogContentProps<T>) => {
+  const { close } = usePopupChild();
+
+  // Without a body there is nothing to fill in, so confirming is always allowed
+  const [value, setValue] = useState<{ data?: T } | null>({});
+  const setConfirmValue = useCallback<SetConfirmValue<T>>(
+    (data) => setValue(data === null ? null : { data }),
+    []
+  );
+
+  // Default focus on the keep button so Enter never confirms by accident,
+  // unless the body already focused one of its inputs
+  const contentRef = useRef<HTMLDivElement>(null);
+  const keepButtonRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => {
+    if (!contentRef.current?.contains(document.activeElement)) {
+      keepButtonRef.current?.focus();
+    }
+  }, []);
+
+  return (
+    <div
+      ref={contentRef}
+      className={styles.dialogContent}
+      data-testid={`${testId}-confirm-content`}
+    >
+      <h2 className={styles.title}>{title}</h2>
+      <p className={styles.message}>{message}</p>
+      {children && <div className={styles.body}>{children(setConfirmValue)}</div>}
+      <div className={styles.actions}>
+        <button
+          ref={keepButtonRef}
+          type="button"
+          className={clsx(styles.button, styles.keepButton)}
+          onClick={() => close({ confirmed: false, closeReason: "cancel" })}
+          data-testid={`${testId}-keep-btn`}
+        >
+          {keepLabel}
+        </button>
+        <button
+          type="button"
+          className={clsx(styles.button, styles.confirmButton, styles[variant])}
+          disabled={value === null}
+          onClick={() =>
+            close<T | undefined>({ confirmed: true, closeReason: "submit", data: value?.data })
+          }
+          data-testid={`${testId}-confirm-btn`}
+        >
+          {confirmLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * ConfirmDialog - Asks for confirmation before an order action.
+ *
+ * Wraps a trigger element in a DialogPopup with a title, a message, an optional
+ * body and keep/confirm buttons (keep has initial focus unless the body takes
+ * it); calls onConfirm only when the user confirms. A body reports its value
+ * through the setter it is rendered with, and null disables the confirm button.
+ *
+ * @example
+ * ```tsx
+ * <ConfirmDialog
+ *   title="Cancel this order?"
+ *   message="This cannot be undone."
+ *   keepLabel="Keep Order"
+ *   confirmLabel="Cancel Order"
+ *   onConfirm={cancelOrder}
+ *   testId="cancel-order"
+ *   trigger={<button type="button">CANCEL</button>}
+ * />
+ * ```
+ */
+export const ConfirmDialog = <T,>({
+  onConfirm,
+  trigger,
+  title,
+  message,
+  keepLabel,
+  confirmLabel,
+  variant,
+  testId,
+  children,
+}: ConfirmDialogProps<T>) => {
+  // DialogPopup takes a component, not an element; it is rendered once per opening
+  const DialogContent = useCallback(
+    () => (
+      <ConfirmDialogContent
+        title={title}
+        message={message}
+        keepLabel={keepLabel}
+        confirmLabel={confirmLabel}
+        {...(variant && { variant })}
+        testId={testId}
+        {...(children && { children })}
+      />
+    ),
+    [title, message, keepLabel, confirmLabel, variant, testId, children]
+  );
+
+  return (
+    <DialogPopup
+      content={{ type: "component", component: DialogContent }}
+      onClose={(result) => {
+        if (result.confirmed) onConfirm(result.data as T);
+      }}
+      data-testid={`${testId}-dialog`}
+    >
+      {trigger}
+    </DialogPopup>
+  );
+};
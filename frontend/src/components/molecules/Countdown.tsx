@@ -0,0 +1,35 @@
+import { useCountdown } from "../../hooks/useCountdown";
+import { formatCountdown } from "../../utils/countdown";
+
+import styles from "./Countdown.module.scss";
+
+interface CountdownProps {
+  /** Text before the time left, e.g. "Expires in" */
+  label: string;
+  /** Epoch ms to count down to; nothing is shown when undefined */
+  targetTime: number | undefined;
+  testId?: string;
+}
+
+/**
+ * Countdown - Live time left until an order event.
+ *
+ * Shows e.g. "Expires in 01:02:03", ticking once a second (see useCountdown).
+ * The full target time is in the tooltip.
+ */
+export const Countdown = ({ label, targetTime, testId }: CountdownProps) => {
+  const remaining = useCountdown(targetTime);
+
+  if (remaining === null || targetTime === undefined) {
+    return null;
+  }
+
+  return (
+    <div className={styles.countdown} data-testid={testId}>
+      <span className={styles.label}>{label}</span>
+      <time dateTime={new Date(targetTime).toISOString()} title={new Date(targetTime).toString()}>
+        {formatCountdown(remaining)}
+      </time>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+/**
+ * DepthLadder - Depth-of-book ladders shown under TickingPrice.
+ *
+ * One ladder per market from GATOR_DATA_SUBSCRIPTION `depth`:
+ * - Left: bids (SELL side) - size, price
+ * - Right: asks (BUY side) - price, size
+ * - Best price at the top, deeper levels below
+ *
+ * Clicking a price sets the ticket `level` field. Prices are only clickable when
+ * the order type has a level field and it is editable in the current mode
+ * (always while creating, only if level is amendable while amending).
+ *
+ * @example
+ * ```tsx
+ * <DepthLadder symbol="GBPUSD" />
+ * ```
+ */
+
+import clsx from "clsx";
+
+import { PRICE_CONFIG } from "../../config/constants";
+import { ORDER_TYPES } from "../../config/orderConfig";
+import { useOrderEntryStore } from "../../store";
+import type { DepthLevel } from "../../types/domain";
+import { formatPrice } from "../../utils/numberFormats";
+
+import styles from "./DepthLadder.module.scss";
+
+interface DepthLadderProps {
+  /** Currency pair symbol (e.g., "GBPUSD") - prices use its spotPrecision */
+  symbol: string;
+}
+
+/** Compact size in millions (e.g., 2500000 → "2.5M") */
+const formatSize = (size: number): string => `${(size / 1_000_000).toFixed(1)}M`;
+
+export const DepthLadder = ({ symbol }: DepthLadderProps) => {
+  const marketDepth = useOrderEntryStore((s) => s.marketDepth);
+  const currencyPairs = useOrderEntryStore((s) => s.currencyPairs);
+  const editMode = useOrderEntryStore((s) => s.editMode);
+  const orderType = useOrderEntryStore((s) => s.getDerivedValues().orderType);
+  const level = useOrderEntryStore((s) => s.getDerivedValues().level);
+  const setFieldValue = useOrderEntryStore((s) => s.setFieldValue);
+
+  if (marketDepth.length === 0) return null;
+
+  const precision =
+    currencyPairs.find((cp) => cp.symbol === symbol)?.spotPrecision ?? PRICE_CONFIG.PRICE_DECIMALS;
+
+  // Level must be on the ticket and editable in the current mode
+  const config = orderType ? ORDER_TYPES[orderType] : undefined;
+  const canSetLevel =
+    !!config?.fields.includes("level") &&
+    (editMode === "creating" ||
+      (editMode === "amending" && config.editableFields.includes("level")));
+
+  const renderPrice = (depthLevel: DepthLevel, side: "bid" | "ask") => (
+    <button
+      type="button"
+      className={clsx(styles.price, styles[side], depthLevel.price === level && styles.selected)}
+      disabled={!canSetLevel}
+      onClick={() => setFieldValue("level", depthLevel.price)}
+      title={canSetLevel ? "Set level" : undefined}
+    >
+      {formatPrice(depthLevel.price, precision)}
+    </button>
+  );
+
+  return (
+    <div className={styles.container} data-testid="depth-ladder">
+      {marketDepth.map(({ market, bids, asks }) => (
+        <div key={market} className={styles.market} data-testid={`depth-ladder-${market}`}>
+          <div className={styles.marketName}>{market}</div>
+          <div className={styles.ladder}>
+            <div className={styles.side}>
+              {bids.map((bid) => (
+                <div key={bid.price} className={styles.row}>
+                  <span className={styles.size}>{formatSize(bid.size)}</span>
+                  {renderPrice(bid, "bid")}
+                </div>
+              ))}
+            </div>
+            <div className={styles.side}>
+              {asks.map((ask) => (
+                <div key={ask.price} className={styles.row}>
+                  {renderPrice(ask, "ask")}
+                  <span className={styles.size}>{formatSize(ask.size)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import clsx from "clsx";
+
+import { PRICE_CONFIG } from "../../config/constants";
+import { getOrderStatusConfig } from "../../config/orderStatus";
+import { useOrderEntryStore } from "../../store";
+import {
+  EXECUTION_AGENT_LABELS,
+  filledShare,
+  type StatusTone,
+  statusTone,
+} from "../../utils/executionSummary";
+import { formatPrice } from "../../utils/numberFormats";
+
+import styles from "./ExecutionSummary.module.scss";
+
+/** e.g. 1000000 → "1,000,000" */
+const formatQuantity = (value: number): string =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value);
+
+const formatDateTime = (epoch: number): string =>
+  new Date(epoch).toLocaleString("en-GB", { hour12: false });
+
+const TONE_CLASS: Record<StatusTone, string | undefined> = {
+  pending: styles.pending,
+  working: styles.working,
+  suspended: styles.suspended,
+  filled: styles.filled,
+  failed: styles.failed,
+  closed: styles.closed,
+};
+
+/**
+ * ExecutionSummary - Live execution of the order on the ticket (read-only
+ * "execution" field in view mode).
+ *
+ * Shows a status badge, filled vs. total with the order currency, the average
+ * fill rate at the pair's precision, the agent working the order, the reject
+ * reason and the target end time. Reads orderStatus and orderExecution, which
+ * useOrderTracking keeps up to date from ORDER_SUBSCRIPTION.
+ */
+export const ExecutionSummary = () => {
+  const orderStatus = useOrderEntryStore((s) => s.orderStatus);
+  const execution = useOrderEntryStore((s) => s.orderExecution);
+  const amount = useOrderEntryStore((s) => s.getDerivedValues().amount);
+  const precision = useOrderEntryStore(
+    (s) =>
+      s.currencyPairs.find((p) => p.symbol === s.getDerivedValues().currencyPair)?.spotPrecision ??
+      PRICE_CONFIG.PRICE_DECIMALS
+  );
+
+  const status = orderStatus ?? execution?.status ?? null;
+  const total = amount?.amount ?? 0;
+  const filled = execution?.filled?.amount ?? 0;
+  const ccy = execution?.filled?.ccy ?? amount?.ccy;
+  const share = filledShare(filled, total);
+
+  return (
+    <div className={styles.executionSummary} data-testid="execution-summary">
+      <div className={styles.header}>
+        <span
+          className={clsx(styles.badge, TONE_CLASS[statusTone(status)])}
+          data-testid="execution-status"
+        >
+          {getOrderStatusConfig(status)?.label ?? "Submitted"}
+        </span>
+        {execution?.agent && (
+          <span className={styles.agent} data-testid="execution-agent">
+            {EXECUTION_AGENT_LABELS[execution.agent]}
+          </span>
+        )}
+      </div>
+
+      <div
+        className={styles.track}
+        role="progressbar"
+        aria-label="Filled"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(share * 100)}
+      >
+        <div className={styles.fill} style={{ width: `${share * 100}%` }} />
+      </div>
+
+      <dl className={styles.details}>
+        <dt>Filled</dt>
+        <dd data-testid="execution-filled">
+          {formatQuantity(filled)} / {formatQuantity(total)} {ccy}
+        </dd>
+        <dt>Avg rate</dt>
+        <dd data-testid="execution-average-rate">
+          {filled > 0 && execution?.averageFillRate
+            ? formatPrice(execution.averageFillRate, precision)
+            : "-"}
+        </dd>
+        {execution?.targetEndTime !== undefined && (
+          <>
+            <dt>Target end</dt>
+            <dd data-testid="execution-target-end">{formatDateTime(execution.targetEndTime)}</dd>
+          </>
+        )}
+        {execution?.rejectReason && (
+          <>
+            <dt>Reason</dt>
+            <dd className={styles.rejectReason} data-testid="execution-reject-reason">
+              {execution.rejectReason}
+            </dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+};
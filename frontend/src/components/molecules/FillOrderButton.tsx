@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { PRICE_CONFIG } from "../../config/constants";
+import { canFillOrder, getOrderStatusConfig } from "../../config/orderStatus";
+import { useOrderEntryStore } from "../../store";
+import { type OrderFill, OrderSide, OrderStatus } from "../../types/domain";
+import type { BoundState } from "../../types/store";
+import { validateOrderFill } from "../../utils/manualFill";
+import { Input } from "../atoms/Input";
+import { Spinner } from "../atoms/Spinner";
+
+import { ConfirmDialog } from "./ConfirmDialog";
+
+import styles from "./FillOrderButton.module.scss";
+
+/** Amount left to fill on the ticket's order */
+const selectRemaining = (s: BoundState): number =>
+  (s.getDerivedValues().amount?.amount ?? 0) - (s.orderExecution?.filled?.amount ?? 0);
+
+/**
+ * Rate and quantity inputs, rendered as the ConfirmDialog body.
+ * Rate starts at the market for the order's side (BUY at the ask, SELL at the
+ * bid) and quantity at the remaining amount; reports the fill, or null while it
+ * is invalid.
+ */
+const FillOrderFields = ({ onChange }: { onChange: (fill: OrderFill | null) => void }) => {
+  const side = useOrderEntryStore((s) => s.getDerivedValues().side);
+  const ccy = useOrderEntryStore((s) => s.getDerivedValues().amount?.ccy);
+  const marketRate = useOrderEntryStore((s) =>
+    side === OrderSide.SELL ? s.currentSellPrice : s.currentBuyPrice
+  );
+  const precision = useOrderEntryStore(
+    (s) =>
+      s.currencyPairs.find((p) => p.symbol === s.getDerivedValues().currencyPair)?.spotPrecision ??
+      PRICE_CONFIG.PRICE_DECIMALS
+  );
+  const remaining = useOrderEntryStore(selectRemaining);
+
+  // Seeded once when the dialog opens; the price keeps ticking underneath
+  const [rate, setRate] = useState(() => (marketRate > 0 ? marketRate.toFixed(precision) : ""));
+  const [quantity, setQuantity] = useState(() => String(remaining));
+
+  const rateInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    rateInputRef.current?.focus();
+  }, []);
+
+  const fill = useMemo<OrderFill>(
+    () => ({ fillRate: Number(rate), quantity: Number(quantity) }),
+    [rate, quantity]
+  );
+  const error = validateOrderFill(fill, remaining);
+
+  useEffect(() => {
+    onChange(error === null ? fill : null);
+  }, [fill, error, onChange]);
+
+  return (
+    <>
+      <div className={styles.field}>
+        <label htmlFor="fill-order-rate" className={styles.label}>
+          Rate
+        </label>
+        <Input
+          ref={rateInputRef}
+          id="fill-order-rate"
+          type="number"
+          step="any"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          data-testid="fill-order-rate"
+        />
+      </div>
+      <div className={styles.field}>
+        <label htmlFor="fill-order-quantity" className={styles.label}>
+          Quantity ({ccy})
+        </label>
+        <Input
+          id="fill-order-quantity"
+          type="number"
+          step="any"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          data-testid="fill-order-quantity"
+        />
+      </div>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+    </>
+  );
+};
+
+/**
+ * FillOrderButton - "Fill at price" for sales-trader workflows.
+ *
+ * Opens a ConfirmDialog where the trader enters a fill rate and quantity (all
+ * or part of what is left); on confirm, calls fillOrder. Enabled only while the
+ * order is LIVE under manual execution and no other order action is in flight.
+ *
+ * @example
+ * ```tsx
+ * <FillOrderButton />
+ * ```
+ */
+export const FillOrderButton = () => {
+  const orderStatus = useOrderEntryStore((s) => s.orderStatus);
+  const agent = useOrderEntryStore((s) => s.orderExecution?.agent);
+  const pendingOrderAction = useOrderEntryStore((s) => s.pendingOrderAction);
+  const fillOrder = useOrderEntryStore((s) => s.fillOrder);
+  const ccy = useOrderEntryStore((s) => s.getDerivedValues().amount?.ccy);
+  const remaining = useOrderEntryStore(selectRemaining);
+
+  const isFillable = canFillOrder(orderStatus, agent);
+
+  return (
+    <ConfirmDialog
+      title="Fill at price"
+      message={`${remaining.toLocaleString("en-US")} ${ccy} left to fill. A partial quantity keeps the order working.`}
+      keepLabel="Cancel"
+      confirmLabel="Fill"
+      variant="primary"
+      onConfirm={(fill: OrderFill) => fillOrder(fill)}
+      testId="fill-order"
+      trigger={
+        <button
+          type="button"
+          className={styles.trigger}
+          disabled={!isFillable || pendingOrderAction !== null}
+          title={
+            isFillable
+              ? undefined
+              : orderStatus === OrderStatus.LIVE
+                ? "Cannot fill: order is not under manual execution"
+                : `Cannot fill: order is ${getOrderStatusConfig(orderStatus)?.label}`
+          }
+          data-testid="fill-order-button"
+        >
+          {pendingOrderAction === "FILL" ? <Spinner size="sm" /> : "FILL"}
+        </button>
+      }
+    >
+      {(setFill) => <FillOrderFields onChange={setFill} />}
+    </ConfirmDialog>
+  );
+};
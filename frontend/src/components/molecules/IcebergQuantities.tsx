@@ -0,0 +1,39 @@
+import { useOrderEntryStore } from "../../store";
+
+import styles from "./IcebergQuantities.module.scss";
+
+/** e.g. 1000000 → "1,000,000" */
+const formatQuantity = (value: number): string =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value);
+
+/**
+ * IcebergQuantities - Displayed vs. hidden remaining quantity of an iceberg order.
+ *
+ * The market only sees the shown clip; the hidden quantity replenishes it as
+ * clips fill. Both come from the execution on ORDER_SUBSCRIPTION updates.
+ *
+ * Renders nothing for orders without an iceberg.
+ */
+export const IcebergQuantities = () => {
+  const execution = useOrderEntryStore((s) => s.orderExecution);
+  const ccy = useOrderEntryStore((s) => s.getDerivedValues().amount?.ccy);
+
+  if (execution?.shownQuantity === undefined || execution.hiddenQuantity === undefined) {
+    return null;
+  }
+
+  return (
+    <div className={styles.iceberg} data-testid="iceberg-quantities">
+      <span className={styles.label}>Iceberg</span>
+      <span>
+        <span className={styles.label}>Shown </span>
+        <span data-testid="iceberg-shown">{formatQuantity(execution.shownQuantity)}</span>
+      </span>
+      <span>
+        <span className={styles.label}>Hidden </span>
+        <span data-testid="iceberg-hidden">{formatQuantity(execution.hiddenQuantity)}</span>
+      </span>
+      {ccy && <span className={styles.label}>{ccy}</span>}
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
+import { useEffect } from "react";
+
 import { useSubscription } from "@apollo/client";
 
 import { PRICE_CONFIG } from "../../config/constants";
 import { GATOR_DATA_SUBSCRIPTION } from "../../graphql/subscriptions";
 import { useOrderEntryStore } from "../../store";
 import { isNdf, isOnshore } from "../../utils/currencyPairHelpers";
+import { formatPrice } from "../../utils/numberFormats";
 
 import { VerticalSpacer } from "./VerticalSpacer";
 
@@ -34,7 +37,9 @@ export interface PriceData {
  * Features:
  * - Displays both bid (SELL) and ask (BUY) prices
  * - Updates store with current prices for use by LimitPriceWithCheckbox
- * - Re-initializes when symbol changes
+ * - Stores depth-of-book ladders for the DepthLadder molecule
+ * - Re-initializes when symbol changes, clearing the previous pair's prices and
+ *   depth so neither is shown (or auto-grabbed) until the new pair ticks
  * - Skips subscription when symbol or currency pair is invalid
  *
  * @example
@@ -53,6 +58,7 @@ export const TickingPrice = ({ symbol }: TickingPriceProps) => {
 
   // Action to update prices in store
   const setCurrentPrices = useOrderEntryStore((s) => s.setCurrentPrices);
+  const setMarketDepth = useOrderEntryStore((s) => s.setMarketDepth);
 
   /**
    * Subscribe to real-time price feed from GATOR.
@@ -78,6 +84,7 @@ export const TickingPrice = ({ symbol }: TickingPriceProps) => {
         const newBuyPrice = payload.gatorData.topOfTheBookBuy.precisionValue;
         const newSellPrice = payload.gatorData.topOfTheBookSell.precisionValue;
         setCurrentPrices(newBuyPrice, newSellPrice);
+        setMarketDepth(payload.gatorData.depth ?? []);
       }
     },
     onError: (err) => {
@@ -85,9 +92,19 @@ export const TickingPrice = ({ symbol }: TickingPriceProps) => {
     },
   });
 
-  // Format prices to 5 decimal places (standard for FX)
-  const formattedBuyPrice = buyPrice.toFixed(PRICE_CONFIG.PRICE_DECIMALS);
-  const formattedSellPrice = sellPrice.toFixed(PRICE_CONFIG.PRICE_DECIMALS);
+  // Prices and depth belong to this symbol: clear them on switch and unmount
+  useEffect(
+    () => () => {
+      setCurrentPrices(0, 0);
+      setMarketDepth([]);
+    },
+    [symbol, setCurrentPrices, setMarketDepth]
+  );
+
+  // Format prices at the pair's spot precision (e.g., 5 for GBPUSD, 4 for USDINR)
+  const precision = currentPair?.spotPrecision ?? PRICE_CONFIG.PRICE_DECIMALS;
+  const formattedBuyPrice = formatPrice(buyPrice, precision);
+  const formattedSellPrice = formatPrice(sellPrice, precision);
 
   return (
     <div className={styles.container} data-testid="ticking-price">
@@ -0,0 +1,83 @@
+import clsx from "clsx";
+
+import { isTerminalOrderStatus } from "../../config/orderStatus";
+import { useNow } from "../../hooks/useNow";
+import { useOrderEntryStore } from "../../store";
+import { OrderType } from "../../types/domain";
+import { formatCountdown } from "../../utils/countdown";
+import { ScheduleStatus, twapProgress } from "../../utils/twapProgress";
+
+import styles from "./TwapProgress.module.scss";
+
+const percent = (share: number): string => `${Math.round(share * 100)}%`;
+
+const STATUS_CLASS: Record<ScheduleStatus, string | undefined> = {
+  AHEAD: styles.ahead,
+  ON_SCHEDULE: styles.onSchedule,
+  BEHIND: styles.behind,
+};
+
+/**
+ * TwapProgress - Execution progress of a TWAP order against its schedule.
+ *
+ * The bar shows the share of the amount filled, with a marker at the share of
+ * the execution window elapsed (where the fill should be on an even schedule).
+ * The badge says how far ahead or behind schedule the order is. Updates with
+ * every execution update from ORDER_SUBSCRIPTION and once a second while the
+ * order is working.
+ *
+ * Renders nothing for other order types, or until the order has gone live with
+ * a target end time.
+ */
+export const TwapProgress = () => {
+  const orderType = useOrderEntryStore((s) => s.getDerivedValues().orderType);
+  const amount = useOrderEntryStore((s) => s.getDerivedValues().amount?.amount);
+  const execution = useOrderEntryStore((s) => s.orderExecution);
+  const now = useNow(execution !== null && !isTerminalOrderStatus(execution.status));
+
+  if (orderType !== OrderType.TWAP || !execution || amount === undefined) {
+    return null;
+  }
+
+  const progress = twapProgress(execution, amount, now);
+  if (!progress) {
+    return null;
+  }
+
+  const { elapsed, filled, deviation, scheduleStatus, remainingMs } = progress;
+  const statusText =
+    scheduleStatus === "AHEAD"
+      ? `Ahead ${percent(deviation)}`
+      : scheduleStatus === "BEHIND"
+        ? `Behind ${percent(-deviation)}`
+        : "On schedule";
+
+  return (
+    <div className={styles.twapProgress} data-testid="twap-progress">
+      <div className={styles.header}>
+        <span className={styles.label}>TWAP</span>
+        <span
+          className={clsx(styles.status, STATUS_CLASS[scheduleStatus])}
+          data-testid="twap-progress-status"
+        >
+          {statusText}
+        </span>
+        <span className={styles.remaining}>Ends in {formatCountdown(remainingMs)}</span>
+      </div>
+      <div
+        className={styles.track}
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(filled * 100)}
+      >
+        <div className={styles.fill} style={{ width: percent(filled) }} />
+        <div className={styles.marker} style={{ left: percent(elapsed) }} />
+      </div>
+      <div className={styles.legend}>
+        <span>Filled {percent(filled)}</span>
+        <span>Time {percent(elapsed)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { useValueDate } from "../../hooks/useValueDate";
+
+import styles from "./ValueDate.module.scss";
+
+// Value dates are calendar dates, so format them as UTC (no local shift)
+const valueDateFormat = new Intl.DateTimeFormat("en-GB", {
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+/**
+ * ValueDate - Settlement date for the ticket's currency pair and tenor.
+ *
+ * Shows e.g. "SPOT Wed 21 Oct 2026" under the currency pair selector. Dates come
+ * from the server's value-date calculation (see useValueDate); nothing is shown
+ * until they have loaded.
+ */
+export const ValueDate = () => {
+  const { tenor, valueDate } = useValueDate();
+
+  if (!valueDate) {
+    return null;
+  }
+
+  return (
+    <div className={styles.valueDate} data-testid="value-date">
+      <span className={styles.tenor}>{tenor}</span>
+      <time dateTime={valueDate}>{valueDateFormat.format(new Date(`${valueDate}T00:00:00Z`))}</time>
+    </div>
+  );
+};
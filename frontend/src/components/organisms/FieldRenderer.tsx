@@ -25,6 +25,7 @@ import React from "react";
 import {
   getInputType,
   isAmountWithCurrencyComponent,
+  isExecutionSummaryComponent,
   isInputDateComponent,
   isInputTimeComponent,
   isLimitPriceComponent,
@@ -55,7 +56,9 @@ import { InputTime } from "../atoms/InputTime";
 import { RangeSlider } from "../atoms/RangeSlider";
 import { Select } from "../atoms/Select";
 import { Spinner } from "../atoms/Spinner";
+import { AccountHeadroom } from "../molecules/AccountHeadroom";
 import { AmountWithCurrency } from "../molecules/AmountWithCurrency";
+import { ExecutionSummary } from "../molecules/ExecutionSummary";
 import { LimitPriceWithCheckbox } from "../molecules/LimitPriceWithCheckbox";
 import { RowComponent } from "../molecules/RowComponent";
 import { ToggleSwitch } from "../molecules/ToggleSwitch";
@@ -137,7 +140,11 @@ export const FieldRenderer = React.memo(({ fieldKey, rowIndex }: FieldRendererPr
   ]);
 
   // If this is a complex object field without a dedicated component, don't render it
-  if (complexObjectFields.has(fieldKey) && !isAmountWithCurrencyComponent(def.component)) {
+  if (
+    complexObjectFields.has(fieldKey) &&
+    !isAmountWithCurrencyComponent(def.component) &&
+    !isExecutionSummaryComponent(def.component)
+  ) {
     // These should have dedicated components (Select for account, DateTime for expiry, etc.)
     // If no appropriate component is defined, skip rendering to avoid React warnings
     return null;
@@ -168,6 +175,16 @@ export const FieldRenderer = React.memo(({ fieldKey, rowIndex }: FieldRendererPr
     );
   }
 
+  // ===== Render ExecutionSummary (read-only, view mode) =====
+  // Live execution comes from the store (orderExecution), not the form value
+  if (isExecutionSummaryComponent(def.component)) {
+    return (
+      <RowComponent {...rowProps}>
+        <ExecutionSummary />
+      </RowComponent>
+    );
+  }
+
   // ===== Render AmountWithCurrency =====
   if (isAmountWithCurrencyComponent(def.component)) {
     // Extract numeric amount from Amount object {amount, ccy}
@@ -281,6 +298,7 @@ export const FieldRenderer = React.memo(({ fieldKey, rowIndex }: FieldRendererPr
           hasError={hasError}
           disabled={isReadOnly || (editMode === "amending" && !!refDataError)}
         />
+        {fieldKey === "account" && <AccountHeadroom />}
       </RowComponent>
     );
   }
@@ -339,7 +357,7 @@ export const FieldRenderer = React.memo(({ fieldKey, rowIndex }: FieldRendererPr
 
   // ===== Render Input (text or number) =====
   const inputType = getInputType(def.component);
-  const isInputReadOnly = isReadOnly || fieldKey === "currencyPair" || fieldKey === "execution";
+  const isInputReadOnly = isReadOnly || fieldKey === "currencyPair";
 
   if (inputType === "number") {
     // Safety: only convert primitives to string (avoid [object Object] errors)
@@ -0,0 +1,92 @@
+/**
+ * FillsTable Component
+ *
+ * Per-fill execution reports of the order on the ticket, shown in viewing mode
+ * only. One row per fill, oldest first: time, fill ID, venue, quantity and
+ * price, plus the cumulative quantity and running VWAP up to that fill.
+ *
+ * Data Flow:
+ * - useExecutionReports subscribes to EXECUTION_REPORTS_SUBSCRIPTION for currentOrderId
+ * - The server sends the fills so far, then each new fill as it happens
+ */
+
+import { PRICE_CONFIG } from "../../config/constants";
+import { useExecutionReports } from "../../hooks/useExecutionReports";
+import { useOrderEntryStore } from "../../store";
+import { withRunningVwap } from "../../utils/executionReports";
+import { formatPrice } from "../../utils/numberFormats";
+
+import styles from "./FillsTable.module.scss";
+
+/** Local time with seconds (e.g., "14:03:27") */
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString("en-GB", { hour12: false });
+
+const formatQuantity = (quantity: number): string => quantity.toLocaleString("en-US");
+
+export const FillsTable = () => {
+  const editMode = useOrderEntryStore((s) => s.editMode);
+  const currencyPair = useOrderEntryStore((s) => s.getDerivedValues().currencyPair);
+  const currencyPairs = useOrderEntryStore((s) => s.currencyPairs);
+  const reports = useExecutionReports();
+
+  if (editMode !== "viewing") return null;
+
+  // Prices are shown at the pair's spot precision
+  const precision =
+    currencyPairs.find((p) => p.symbol === currencyPair)?.spotPrecision ??
+    PRICE_CONFIG.PRICE_DECIMALS;
+
+  const rows = withRunningVwap(reports);
+
+  return (
+    <section className={styles.container} data-testid="fills-table" aria-label="Fills">
+      <h3 className={styles.title}>Fills</h3>
+
+      {rows.length === 0 ? (
+        <p className={styles.empty} data-testid="fills-table-empty">
+          No fills yet
+        </p>
+      ) : (
+        <div className={styles.scroll}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th scope="col">Time</th>
+                <th scope="col">Fill ID</th>
+                <th scope="col">Venue</th>
+                <th scope="col" className={styles.numeric}>
+                  Quantity
+                </th>
+                <th scope="col" className={styles.numeric}>
+                  Price
+                </th>
+                <th scope="col" className={styles.numeric}>
+                  Filled
+                </th>
+                <th scope="col" className={styles.numeric}>
+                  VWAP
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.fillId} data-testid={`fills-table-row-${row.fillId}`}>
+                  <td className={styles.muted}>{formatTime(row.timestamp)}</td>
+                  <td className={styles.mono}>{row.fillId}</td>
+                  <td>{row.venue}</td>
+                  <td className={styles.numeric}>
+                    {formatQuantity(row.quantity)} {row.ccy}
+                  </td>
+                  <td className={styles.numeric}>{formatPrice(row.price, precision)}</td>
+                  <td className={styles.numeric}>{formatQuantity(row.cumulativeQuantity)}</td>
+                  <td className={styles.numeric}>{formatPrice(row.vwap, precision)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,101 @@
+/**
+ * OrderBlotter Component
+ *
+ * Lists every order known to the server, newest first, with live status and fills.
+ * This is the bottom section of the trading interface.
+ *
+ * Columns:
+ * Ref (omsOrderId), Pair, Side, Type, Amount, Filled, Shown / Hidden (iceberg
+ * orders: displayed clip and hidden remainder), Avg Rate, Status
+ *
+ * Data Flow:
+ * - useOrderBlotter (App.tsx) populates blotterOrders from ORDERS_QUERY + ORDERS_STREAM_SUBSCRIPTION
+ * - This component only reads from the store
+ * - Clicking a row calls viewBlotterOrder → ticket switches to viewing mode for that order
+ *
+ * Rows are buttons (not clickable <li>s) so they are keyboard accessible.
+ */
+
+import clsx from "clsx";
+
+import { PRICE_CONFIG } from "../../config/constants";
+import { useOrderEntryStore } from "../../store";
+import { formatPrice } from "../../utils/numberFormats";
+
+import styles from "./OrderBlotter.module.scss";
+
+/** Compact notional formatting (e.g., 1000000 → "1,000,000") */
+const formatAmount = (value: number): string =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value);
+
+export const OrderBlotter = () => {
+  const orders = useOrderEntryStore((s) => s.blotterOrders);
+  const currentOrderId = useOrderEntryStore((s) => s.currentOrderId);
+  const currencyPairs = useOrderEntryStore((s) => s.currencyPairs);
+  const viewBlotterOrder = useOrderEntryStore((s) => s.viewBlotterOrder);
+
+  // Average rate is shown at the pair's spot precision
+  const getPrecision = (symbol: string) =>
+    currencyPairs.find((p) => p.symbol === symbol)?.spotPrecision ?? PRICE_CONFIG.PRICE_DECIMALS;
+
+  return (
+    <section className={styles.container} data-testid="order-blotter" aria-label="Order blotter">
+      <div className={clsx(styles.grid, styles.header)}>
+        <span>Ref</span>
+        <span>Pair</span>
+        <span>Side</span>
+        <span>Type</span>
+        <span className={styles.numeric}>Amount</span>
+        <span className={styles.numeric}>Filled</span>
+        <span className={styles.numeric}>Shown / Hidden</span>
+        <span className={styles.numeric}>Avg Rate</span>
+        <span>Status</span>
+      </div>
+
+      {orders.length === 0 ? (
+        <p className={styles.empty} data-testid="order-blotter-empty">
+          No orders yet
+        </p>
+      ) : (
+        <ul className={styles.list}>
+          {orders.map(({ orderId, omsOrderId, order, execution }) => {
+            const isSelected = orderId === currentOrderId;
+            return (
+              <li key={orderId}>
+                <button
+                  type="button"
+                  className={clsx(styles.grid, styles.row, isSelected && styles.selected)}
+                  aria-current={isSelected ? "true" : undefined}
+                  data-testid={`order-blotter-row-${orderId}`}
+                  onClick={() => viewBlotterOrder(orderId)}
+                >
+                  <span className={styles.ref}>{omsOrderId ?? orderId}</span>
+                  <span>{order.currencyPair}</span>
+                  <span className={order.side === "BUY" ? styles.buy : styles.sell}>
+                    {order.side}
+                  </span>
+                  <span>{order.orderType}</span>
+                  <span className={styles.numeric}>
+                    {formatAmount(order.amount.amount)} {order.amount.ccy}
+                  </span>
+                  <span className={styles.numeric}>{formatAmount(execution.filled.amount)}</span>
+                  <span className={styles.numeric}>
+                    {execution.shownQuantity != null && execution.hiddenQuantity != null
+                      ? `${formatAmount(execution.shownQuantity)} / ${formatAmount(execution.hiddenQuantity)}`
+                      : "-"}
+                  </span>
+                  <span className={styles.numeric}>
+                    {execution.filled.amount > 0
+                      ? formatPrice(execution.averageFillRate, getPrecision(order.currencyPair))
+                      : "-"}
+                  </span>
+                  <span className={styles.status}>{execution.status}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -6,7 +6,8 @@
  *
  * Button States:
  * - "creating" mode: Shows SUBMIT ORDER button
- * - "viewing" mode: Shows AMEND ORDER button (after successful submit)
+ * - "viewing" mode: Shows CANCEL, SUSPEND, RESUME, MANUAL, FILL, DUPLICATE, REVERSE
+ *   and AMEND ORDER buttons (after successful submit)
  * - "amending" mode: Shows SUBMIT ORDER button (to re-submit changes)
  *
  * The SUBMIT button is disabled when:
@@ -19,11 +20,36 @@
  * 3. Click AMEND → editMode becomes "amending" → only editable fields unlock
  * 4. Make changes → Click SUBMIT → cycle repeats
  *
- * TODO (Future): Add more buttons like CANCEL, FILL NOW, SUSPEND, RESUME
+ * AMEND is disabled once the order reaches a terminal status (FILLED, CANCELLED, ...).
+ * While a GTD/GTT order is working, a countdown shows the time left until it expires;
+ * a START_AT order waiting in PENDING_LIVE shows the time left until it starts.
+ * TWAP orders show their execution progress against schedule.
+ * SUSPEND is enabled only while the order is LIVE, RESUME only while it is
+ * LIVE_SUSPENDED (from the live orderStatus). CANCEL asks for confirmation and
+ * follows the order through PENDING_CANCEL → CANCELLED (see CancelOrderButton).
+ * MANUAL hands a LIVE order to a sales trader (agent EXECUTION_AGENT_MANUAL), and
+ * FILL fills a LIVE manual order at an entered rate and quantity (see FillOrderButton).
+ * DUPLICATE starts a new ticket with the order's details; REVERSE does the same
+ * on the other side for the filled quantity, so it needs something filled.
  */
 
+import {
+  canMoveToManual,
+  canResumeOrder,
+  canSuspendOrder,
+  getOrderStatusConfig,
+  isTerminalOrderStatus,
+} from "../../config/orderStatus";
 import { useOrderEntryStore } from "../../store";
+import { ExecutionAgent, OrderStatus } from "../../types/domain";
+import { expiryEndTime } from "../../utils/expiry";
+import { resolveStartEpoch } from "../../utils/startTime";
 import { Spinner } from "../atoms/Spinner";
+import { CancelOrderButton } from "../molecules/CancelOrderButton";
+import { Countdown } from "../molecules/Countdown";
+import { FillOrderButton } from "../molecules/FillOrderButton";
+import { IcebergQuantities } from "../molecules/IcebergQuantities";
+import { TwapProgress } from "../molecules/TwapProgress";
 
 import styles from "./OrderFooter.module.scss";
 
@@ -34,9 +60,36 @@ export const OrderFooter = () => {
   // Form interaction mode: "creating" | "viewing" | "amending"
   const editMode = useOrderEntryStore((s) => s.editMode);
 
+  // Live execution status from ORDER_SUBSCRIPTION
+  const orderStatus = useOrderEntryStore((s) => s.orderStatus);
+  const isOrderTerminal = isTerminalOrderStatus(orderStatus);
+
+  // Who is working the order: the algo (AUTO) or a sales trader (MANUAL)
+  const agent = useOrderEntryStore((s) => s.orderExecution?.agent);
+
+  // Quantity filled so far (REVERSE trades it back)
+  const filledAmount = useOrderEntryStore((s) => s.orderExecution?.filled?.amount ?? 0);
+
+  // GTD/GTT end time (epoch ms), undefined for GTC orders
+  const expiresAt = useOrderEntryStore((s) => expiryEndTime(s.getDerivedValues()));
+
+  // START_AT start time (epoch ms); the order waits in PENDING_LIVE until then
+  // (orderStatus is null until the first update after submit)
+  const startsAt = useOrderEntryStore((s) => resolveStartEpoch(s.getDerivedValues()));
+  const isAwaitingStart = orderStatus === null || orderStatus === OrderStatus.PENDING_LIVE;
+
   // Actions
   const submitOrder = useOrderEntryStore((s) => s.submitOrder);
   const amendOrder = useOrderEntryStore((s) => s.amendOrder);
+  const suspendOrder = useOrderEntryStore((s) => s.suspendOrder);
+  const resumeOrder = useOrderEntryStore((s) => s.resumeOrder);
+  const moveToManual = useOrderEntryStore((s) => s.moveToManual);
+  const duplicateOrder = useOrderEntryStore((s) => s.duplicateOrder);
+  const reverseOrder = useOrderEntryStore((s) => s.reverseOrder);
+
+  // Order action request in flight (every action button waits for it)
+  const pendingOrderAction = useOrderEntryStore((s) => s.pendingOrderAction);
+  const statusLabel = getOrderStatusConfig(orderStatus)?.label;
 
   // Validation state
   const errors = useOrderEntryStore((s) => s.errors); // Client-side validation errors
@@ -59,23 +112,109 @@ export const OrderFooter = () => {
         </div>
       )}
 
+      {/* TWAP fill vs. schedule */}
+      {editMode === "viewing" && <TwapProgress />}
+
+      {/* Iceberg shown clip vs. hidden remainder */}
+      {editMode === "viewing" && <IcebergQuantities />}
+
+      {/* Time left until a scheduled START_AT order starts */}
+      {editMode === "viewing" && isAwaitingStart && (
+        <Countdown label="Starts in" targetTime={startsAt} testId="start-countdown" />
+      )}
+
+      {/* Time left until a working GTD/GTT order expires */}
+      {editMode === "viewing" && !isOrderTerminal && (
+        <Countdown label="Expires in" targetTime={expiresAt} testId="expiry-countdown" />
+      )}
+
       {/* Conditional Button Rendering */}
       {editMode === "viewing" ? (
-        // After successful submit, show AMEND button
-        // Clicking this sets editMode to "amending" and unlocks editable fields
-        // Button is disabled if reference data errors exist
-        <button
-          onClick={() => amendOrder()}
-          className={styles.submitBtn}
-          disabled={Object.keys(refDataErrors).length > 0}
-          title={
-            Object.keys(refDataErrors).length > 0
-              ? "Cannot amend order with unavailable data"
-              : undefined
-          }
-        >
-          AMEND
-        </button>
+        <div className={styles.viewingActions}>
+          {/* CANCEL confirms first; disabled once the order is terminal */}
+          <CancelOrderButton />
+
+          {/* SUSPEND/RESUME follow the live status: only a LIVE order can be
+              suspended, only a LIVE_SUSPENDED one resumed */}
+          <button
+            onClick={() => suspendOrder()}
+            className={styles.secondaryBtn}
+            disabled={!canSuspendOrder(orderStatus) || pendingOrderAction !== null}
+            title={
+              canSuspendOrder(orderStatus) ? undefined : `Cannot suspend: order is ${statusLabel}`
+            }
+            data-testid="suspend-order-button"
+          >
+            {pendingOrderAction === "SUSPEND" ? <Spinner size="sm" /> : "SUSPEND"}
+          </button>
+          <button
+            onClick={() => resumeOrder()}
+            className={styles.secondaryBtn}
+            disabled={!canResumeOrder(orderStatus) || pendingOrderAction !== null}
+            title={
+              canResumeOrder(orderStatus) ? undefined : `Cannot resume: order is ${statusLabel}`
+            }
+            data-testid="resume-order-button"
+          >
+            {pendingOrderAction === "RESUME" ? <Spinner size="sm" /> : "RESUME"}
+          </button>
+
+          {/* Sales-trader workflow: MANUAL takes the order off the algo, FILL
+              fills it at an entered rate (all or part of what is left) */}
+          <button
+            onClick={() => moveToManual()}
+            className={styles.secondaryBtn}
+            disabled={!canMoveToManual(orderStatus, agent) || pendingOrderAction !== null}
+            title={
+              agent === ExecutionAgent.EXECUTION_AGENT_MANUAL
+                ? "Order is already manual"
+                : canMoveToManual(orderStatus, agent)
+                  ? undefined
+                  : `Cannot move to manual: order is ${statusLabel}`
+            }
+            data-testid="move-to-manual-button"
+          >
+            {pendingOrderAction === "MOVE_TO_MANUAL" ? <Spinner size="sm" /> : "MANUAL"}
+          </button>
+          <FillOrderButton />
+
+          {/* New ticket from this order: DUPLICATE copies it, REVERSE trades the
+              filled quantity back on the other side */}
+          <button
+            onClick={() => duplicateOrder()}
+            className={styles.secondaryBtn}
+            data-testid="duplicate-order-button"
+          >
+            DUPLICATE
+          </button>
+          <button
+            onClick={() => reverseOrder()}
+            className={styles.secondaryBtn}
+            disabled={filledAmount <= 0}
+            title={filledAmount > 0 ? undefined : "Nothing filled to reverse"}
+            data-testid="reverse-order-button"
+          >
+            REVERSE
+          </button>
+
+          {/* After successful submit, show AMEND button
+              Clicking this sets editMode to "amending" and unlocks editable fields
+              Button is disabled if reference data errors exist or the order is terminal */}
+          <button
+            onClick={() => amendOrder()}
+            className={styles.submitBtn}
+            disabled={Object.keys(refDataErrors).length > 0 || isOrderTerminal}
+            title={
+              isOrderTerminal
+                ? `Order is ${statusLabel}`
+                : Object.keys(refDataErrors).length > 0
+                  ? "Cannot amend order with unavailable data"
+                  : undefined
+            }
+          >
+            AMEND
+          </button>
+        </div>
       ) : (
         // In "creating" or "amending" mode, show SUBMIT button
         // Disabled if form has errors or submission is in progress
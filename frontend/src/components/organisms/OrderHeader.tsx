@@ -7,6 +7,9 @@
  * Components:
  * 1. Currency Pair Dropdown: Allows user to select which FX pair to trade
  * 2. TickingPrice: Shows live BUY and SELL prices for the selected symbol
+ * 3. DepthLadder: Depth-of-book ladders per market (click a price to set level)
+ * 4. CancelAllOrdersButton: Panic "Cancel all {pair}" with confirmation
+ * 5. ValueDate: Settlement date for the selected tenor
  *
  * Data Flow:
  * - Reads symbol from store (merged baseValues + dirtyValues)
@@ -21,7 +24,10 @@ import clsx from "clsx";
 
 import { useOrderEntryStore } from "../../store";
 import { Select } from "../atoms/Select";
+import { CancelAllOrdersButton } from "../molecules/CancelAllOrdersButton";
+import { DepthLadder } from "../molecules/DepthLadder";
 import { TickingPrice } from "../molecules/TickingPrice";
+import { ValueDate } from "../molecules/ValueDate";
 
 import styles from "./OrderHeader.module.scss";
 
@@ -107,12 +113,18 @@ export const OrderHeader = () => {
             ))}
           </Select>
           {refDataError && <div className={styles.error}>{refDataError}</div>}
+          <ValueDate />
+          {/* Panic action: cancels every live order for the pair, not just this ticket */}
+          <CancelAllOrdersButton symbol={currencyPair} />
         </div>
       </div>
 
       {/* Live Price Feed */}
       {/* Shows real-time BUY and SELL prices for the selected currencyPair */}
       <TickingPrice symbol={currencyPair} />
+
+      {/* Depth-of-book ladders under the top of book */}
+      <DepthLadder symbol={currencyPair} />
     </>
   );
 };
@@ -0,0 +1,63 @@
+/**
+ * OrderHistoryPanel Component
+ *
+ * Audit trail for the order on the ticket, shown in viewing mode only.
+ * One row per history entry, oldest first: version, time, event and what changed
+ * (amend field diffs, fills with rate, status transitions).
+ *
+ * Data Flow:
+ * - useOrderHistory fetches ORDER_HISTORY_QUERY for currentOrderId
+ * - It refetches whenever ORDERS_STREAM updates the order, so the timeline stays live
+ */
+
+import { PRICE_CONFIG } from "../../config/constants";
+import { useOrderHistory } from "../../hooks/useOrderHistory";
+import { useOrderEntryStore } from "../../store";
+import { describeHistoryEntry, ORDER_HISTORY_EVENT_LABELS } from "../../utils/orderHistory";
+
+import styles from "./OrderHistoryPanel.module.scss";
+
+/** Local time with seconds (e.g., "14:03:27") */
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString("en-GB", { hour12: false });
+
+export const OrderHistoryPanel = () => {
+  const editMode = useOrderEntryStore((s) => s.editMode);
+  const currencyPair = useOrderEntryStore((s) => s.getDerivedValues().currencyPair);
+  const currencyPairs = useOrderEntryStore((s) => s.currencyPairs);
+  const { entries, loading } = useOrderHistory();
+
+  if (editMode !== "viewing") return null;
+
+  // Fill rates are shown at the pair's spot precision
+  const precision =
+    currencyPairs.find((p) => p.symbol === currencyPair)?.spotPrecision ??
+    PRICE_CONFIG.PRICE_DECIMALS;
+
+  return (
+    <section className={styles.container} data-testid="order-history" aria-label="Order history">
+      <h3 className={styles.title}>History</h3>
+
+      {entries.length === 0 ? (
+        <p className={styles.empty} data-testid="order-history-empty">
+          {loading ? "Loading history..." : "No history recorded"}
+        </p>
+      ) : (
+        <ol className={styles.timeline}>
+          {entries.map((entry) => (
+            <li
+              key={entry.version}
+              className={styles.entry}
+              data-testid={`order-history-entry-${entry.version}`}
+            >
+              <span className={styles.version}>v{entry.version}</span>
+              <span className={styles.time}>{formatTime(entry.timestamp)}</span>
+              <span className={styles.event}>{ORDER_HISTORY_EVENT_LABELS[entry.type]}</span>
+              <span className={styles.detail}>{describeHistoryEntry(entry, precision)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
@@ -3,6 +3,7 @@ import { describe, expect, it } from "vitest";
 import {
   getInputType,
   isAmountWithCurrencyComponent,
+  isExecutionSummaryComponent,
   isInputDateComponent,
   isInputTimeComponent,
   isLimitPriceComponent,
@@ -157,6 +158,16 @@ describe("componentFactory", () => {
     });
   });
 
+  describe("isExecutionSummaryComponent", () => {
+    it("expect true when component is ExecutionSummary", () => {
+      expect(isExecutionSummaryComponent("ExecutionSummary")).toBe(true);
+    });
+
+    it("expect false when component is InputText", () => {
+      expect(isExecutionSummaryComponent("InputText")).toBe(false);
+    });
+  });
+
   describe("isSpecialComponent", () => {
     it("expect true when component is AmountWithCurrency", () => {
       expect(isSpecialComponent("AmountWithCurrency")).toBe(true);
@@ -174,6 +185,10 @@ describe("componentFactory", () => {
       expect(isSpecialComponent("RangeSlider")).toBe(true);
     });
 
+    it("expect true when component is ExecutionSummary", () => {
+      expect(isSpecialComponent("ExecutionSummary")).toBe(true);
+    });
+
     it("expect true when component is InputTime", () => {
       expect(isSpecialComponent("InputTime")).toBe(true);
     });
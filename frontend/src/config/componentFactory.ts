@@ -75,6 +75,13 @@ export const isRangeSliderComponent = (component: FieldDefinition["component"]):
   return component === "RangeSlider";
 };
 
+/**
+ * Check if a component type is ExecutionSummary
+ */
+export const isExecutionSummaryComponent = (component: FieldDefinition["component"]): boolean => {
+  return component === "ExecutionSummary";
+};
+
 /**
  * Check if a component type requires special handling (not a basic Input)
  */
@@ -84,6 +91,7 @@ export const isSpecialComponent = (component: FieldDefinition["component"]): boo
     component === "LimitPriceWithCheckbox" ||
     component === "Toggle" ||
     component === "RangeSlider" ||
+    component === "ExecutionSummary" ||
     component === "InputTime" ||
     component === "InputDate"
   );
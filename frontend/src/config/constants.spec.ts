@@ -48,10 +48,6 @@ describe("constants", () => {
       expect(AMOUNT_CONFIG.DEFAULT_PLACEHOLDER).toBeDefined();
       expect(AMOUNT_CONFIG.DEFAULT_PLACEHOLDER.length).toBeGreaterThan(0);
     });
-
-    it("expect max firm limit to be greater than min amount when validating limits", () => {
-      expect(AMOUNT_CONFIG.MAX_FIRM_LIMIT).toBeGreaterThan(AMOUNT_CONFIG.MIN_AMOUNT);
-    });
   });
 
   describe("VALIDATION_CONFIG", () => {
@@ -100,7 +96,7 @@ describe("constants", () => {
     });
 
     it("expect all AMOUNT_CONFIG keys to be present when accessing config", () => {
-      const expectedKeys = ["MIN_AMOUNT", "STEP_AMOUNT", "DEFAULT_PLACEHOLDER", "MAX_FIRM_LIMIT"];
+      const expectedKeys = ["MIN_AMOUNT", "STEP_AMOUNT", "DEFAULT_PLACEHOLDER"];
       expect(Object.keys(AMOUNT_CONFIG)).toEqual(expect.arrayContaining(expectedKeys));
     });
   });
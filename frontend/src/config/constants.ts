@@ -47,8 +47,6 @@ export const AMOUNT_CONFIG = {
   STEP_AMOUNT: 100000,
   /** Placeholder text shown in amount input */
   DEFAULT_PLACEHOLDER: "1,000,000",
-  /** Threshold for server-side "exceeds firm limit" validation */
-  MAX_FIRM_LIMIT: 50_000_000,
 } as const;
 
 /**
@@ -72,3 +70,14 @@ export const NOTIONAL_LIMITS = {
   /** Absolute maximum notional (e.g., $100 billion cap - client-side hard limit) */
   MAX: 100_000_000_000,
 } as const;
+
+/**
+ * Iceberg Configuration
+ * Iceberg clips are round lots in the order currency. The smallest clip is per
+ * pair (CurrencyPair.minIcebergClip). The server checks the same step
+ * (backend/validation/orderValidation.js).
+ */
+export const ICEBERG_CONFIG = {
+  /** Clips must be a multiple of this quantity */
+  CLIP_STEP: 10_000,
+} as const;
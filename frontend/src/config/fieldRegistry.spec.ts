@@ -48,6 +48,7 @@ describe("fieldRegistry", () => {
         "RangeSlider",
         "DateTime",
         "AmountWithCurrency",
+        "ExecutionSummary",
         "LimitPriceWithCheckbox",
       ];
       Object.values(FIELD_REGISTRY).forEach((definition: FieldDefinition) => {
@@ -147,8 +148,8 @@ describe("fieldRegistry", () => {
   });
 
   describe("execution field", () => {
-    it("expect execution to use InputText component when rendering", () => {
-      expect(FIELD_REGISTRY.execution.component).toBe("InputText");
+    it("expect execution to use ExecutionSummary component when rendering", () => {
+      expect(FIELD_REGISTRY.execution.component).toBe("ExecutionSummary");
     });
 
     it("expect execution to have Execution label when rendering", () => {
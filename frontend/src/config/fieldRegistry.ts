@@ -35,6 +35,7 @@ export interface FieldDefinition {
     | "RangeSlider" // Range slider for target execution rate
     | "DateTime" // Date/time picker
     | "AmountWithCurrency" // Amount with currency toggle
+    | "ExecutionSummary" // Read-only live execution panel
     | "LimitPriceWithCheckbox"; // Price input with "Grab" checkbox
 }
 
@@ -112,7 +113,7 @@ export const FIELD_REGISTRY: Record<string, FieldDefinition> = {
   /** Execution info (read-only, shown in view/amend mode) */
   execution: {
     label: "Execution",
-    component: "InputText",
+    component: "ExecutionSummary",
   },
   /** Start mode for scheduled orders (Start Now vs Start At) */
   startMode: {
@@ -144,4 +145,14 @@ export const FIELD_REGISTRY: Record<string, FieldDefinition> = {
     label: "Expiry Timezone",
     component: "Select",
   },
+  /** Fixing a FIXING order executes at (options from fixingCombinations) */
+  fixingId: {
+    label: "Fixing",
+    component: "Select",
+  },
+  /** Date of the fixing for FIXING orders (calendar picker) */
+  fixingDate: {
+    label: "Fixing Date",
+    component: "InputDate",
+  },
 };
@@ -104,6 +104,14 @@ describe("orderConfig", () => {
         expect(ORDER_TYPES[OrderType.POUNCE].initialFocus).toBe("level");
       });
     });
+
+    describe("FIXING order", () => {
+      it("expect FIXING to have no liquidityPool when rendering form (it has no pools)", () => {
+        const { fields } = ORDER_TYPES[OrderType.FIXING];
+        expect(fields).not.toContain("liquidityPool");
+        expect(fields).toContain("fixingId");
+      });
+    });
   });
 
   describe("getViewFields", () => {
@@ -206,9 +206,9 @@ export const ORDER_TYPES: Record<OrderType, OrderConfig> = {
     initialFocus: "twapTargetEndTime",
     editableFields: ["amount", "twapTargetEndTime"],
   },
-  /** FIXING - executes at fixing price */
+  /** FIXING - executes at fixing price (no liquidity pools: it fills at the fix) */
   [OrderType.FIXING]: {
-    fields: ["side", "liquidityPool", "amount", "fixingId", "fixingDate", "account"],
+    fields: ["side", "amount", "fixingId", "fixingDate", "account"],
     initialFocus: "fixingId",
     editableFields: ["amount"],
   },
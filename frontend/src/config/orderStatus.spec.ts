@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+
+import { OrderStatus } from "../types/domain";
+
+import {
+  canCancelOrder,
+  canFillOrder,
+  canMoveToManual,
+  canResumeOrder,
+  canSuspendOrder,
+  getOrderStatusConfig,
+  isTerminalOrderStatus,
+  ORDER_STATUS_CONFIG,
+} from "./orderStatus";
+
+describe("orderStatus", () => {
+  describe("ORDER_STATUS_CONFIG", () => {
+    it("expect every OrderStatus to have a config entry", () => {
+      Object.values(OrderStatus).forEach((status) => {
+        expect(ORDER_STATUS_CONFIG[status]).toBeDefined();
+        expect(ORDER_STATUS_CONFIG[status].label.length).toBeGreaterThan(0);
+      });
+    });
+
+    it("expect only FILLED, CANCELLED, REJECTED and EXPIRED to be terminal", () => {
+      const terminal = Object.values(OrderStatus).filter((s) => ORDER_STATUS_CONFIG[s].terminal);
+
+      expect(terminal.sort()).toEqual(["CANCELLED", "EXPIRED", "FILLED", "REJECTED"]);
+    });
+
+    it("expect success toast when order is FILLED", () => {
+      expect(ORDER_STATUS_CONFIG[OrderStatus.FILLED].toast).toEqual({
+        type: "success",
+        text: "Order Filled Successfully!",
+      });
+    });
+  });
+
+  describe("getOrderStatusConfig", () => {
+    it("expect config when status is known", () => {
+      expect(getOrderStatusConfig("LIVE")).toBe(ORDER_STATUS_CONFIG[OrderStatus.LIVE]);
+    });
+
+    it("expect undefined when status is not in the enum", () => {
+      expect(getOrderStatusConfig("WORKING")).toBeUndefined();
+    });
+
+    it("expect undefined when status is null or undefined", () => {
+      expect(getOrderStatusConfig(null)).toBeUndefined();
+      expect(getOrderStatusConfig(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("isTerminalOrderStatus", () => {
+    it.each(["FILLED", "CANCELLED", "REJECTED", "EXPIRED"])(
+      "expect true when status is %s",
+      (status) => {
+        expect(isTerminalOrderStatus(status)).toBe(true);
+      }
+    );
+
+    it.each(["PENDING_LIVE", "LIVE", "PENDING_FILL", "LIVE_SUSPENDED", "PENDING_CANCEL"])(
+      "expect false when status is %s",
+      (status) => {
+        expect(isTerminalOrderStatus(status)).toBe(false);
+      }
+    );
+
+    it("expect false when status is unknown or missing", () => {
+      expect(isTerminalOrderStatus("WORKING")).toBe(false);
+      expect(isTerminalOrderStatus(null)).toBe(false);
+    });
+  });
+
+  describe("canCancelOrder", () => {
+    it.each(["PENDING_LIVE", "LIVE", "LIVE_SUSPENDED"])(
+      "expect true when status is %s",
+      (status) => {
+        expect(canCancelOrder(status)).toBe(true);
+      }
+    );
+
+    it.each(["PENDING_CANCEL", "PENDING_FILL", "CANCELLED", "FILLED", "REJECTED"])(
+      "expect false when status is %s",
+      (status) => {
+        expect(canCancelOrder(status)).toBe(false);
+      }
+    );
+
+    it("expect false when status is missing", () => {
+      expect(canCancelOrder(null)).toBe(false);
+    });
+  });
+
+  describe("canSuspendOrder", () => {
+    it("expect true when status is LIVE", () => {
+      expect(canSuspendOrder("LIVE")).toBe(true);
+    });
+
+    it.each(["PENDING_LIVE", "PENDING_SUSPEND", "LIVE_SUSPENDED", "FILLED"])(
+      "expect false when status is %s",
+      (status) => {
+        expect(canSuspendOrder(status)).toBe(false);
+      }
+    );
+
+    it("expect false when status is missing", () => {
+      expect(canSuspendOrder(null)).toBe(false);
+    });
+  });
+
+  describe("canResumeOrder", () => {
+    it("expect true when status is LIVE_SUSPENDED", () => {
+      expect(canResumeOrder("LIVE_SUSPENDED")).toBe(true);
+    });
+
+    it.each(["LIVE", "PENDING_SUSPEND", "PENDING_RESUME", "CANCELLED"])(
+      "expect false when status is %s",
+      (status) => {
+        expect(canResumeOrder(status)).toBe(false);
+      }
+    );
+  });
+
+  describe("canMoveToManual", () => {
+    it("expect true when a LIVE order is worked automatically", () => {
+      expect(canMoveToManual("LIVE", "EXECUTION_AGENT_AUTO")).toBe(true);
+    });
+
+    it("expect false when the order is already manual", () => {
+      expect(canMoveToManual("LIVE", "EXECUTION_AGENT_MANUAL")).toBe(false);
+    });
+
+    it.each(["PENDING_LIVE", "PENDING_MOVE_TO_MANUAL", "LIVE_SUSPENDED", "FILLED"])(
+      "expect false when status is %s",
+      (status) => {
+        expect(canMoveToManual(status, "EXECUTION_AGENT_AUTO")).toBe(false);
+      }
+    );
+  });
+
+  describe("canFillOrder", () => {
+    it("expect true when a LIVE order is under manual execution", () => {
+      expect(canFillOrder("LIVE", "EXECUTION_AGENT_MANUAL")).toBe(true);
+    });
+
+    it("expect false when the order is worked automatically", () => {
+      expect(canFillOrder("LIVE", "EXECUTION_AGENT_AUTO")).toBe(false);
+    });
+
+    it("expect false before the agent is known", () => {
+      expect(canFillOrder("LIVE", undefined)).toBe(false);
+    });
+
+    it.each(["PENDING_LIVE", "PENDING_MOVE_TO_MANUAL", "PENDING_FILL", "FILLED"])(
+      "expect false when status is %s",
+      (status) => {
+        expect(canFillOrder(status, "EXECUTION_AGENT_MANUAL")).toBe(false);
+      }
+    );
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Order Status Configuration
+ *
+ * Display and lifecycle metadata for every OrderStatus the server can emit.
+ *
+ * Lifecycle (server-side state machine):
+ * - PENDING_LIVE → LIVE → PENDING_FILL → FILLED
+ *   (START_AT orders wait in PENDING_LIVE until their start time)
+ * - PENDING_LIVE → REJECTED
+ * - LIVE → (PENDING_SUSPEND →) LIVE_SUSPENDED → PENDING_RESUME → LIVE
+ *   (suspendOrder/resumeOrder; user-suspended orders stay suspended until resumed)
+ * - PENDING_LIVE | LIVE | LIVE_SUSPENDED → PENDING_CANCEL → CANCELLED
+ * - PENDING_LIVE | LIVE | LIVE_SUSPENDED → PENDING_EXPIRY → EXPIRED (GTD/GTT end time passed)
+ *
+ * Terminal statuses never change again, so tracking and amend stop there.
+ *
+ * Used by: useOrderTracking (toasts), OrderFooter (amend, cancel, suspend, resume,
+ * move to manual and fill availability).
+ */
+
+import { ExecutionAgent, OrderStatus } from "../types/domain";
+
+type StatusToast = { type: "success" | "error" | "info"; text: string };
+
+export interface OrderStatusConfig {
+  /** Human-readable label */
+  label: string;
+  /** No further transitions are possible */
+  terminal: boolean;
+  /** Toast shown when the order enters this status (null = silent) */
+  toast: StatusToast | null;
+}
+
+export const ORDER_STATUS_CONFIG: Record<OrderStatus, OrderStatusConfig> = {
+  [OrderStatus.CANCELLED]: {
+    label: "Cancelled",
+    terminal: true,
+    toast: { type: "info", text: "Order Cancelled" },
+  },
+  [OrderStatus.EXPIRED]: {
+    label: "Expired",
+    terminal: true,
+    toast: { type: "info", text: "Order Expired" },
+  },
+  [OrderStatus.FILLED]: {
+    label: "Filled",
+    terminal: true,
+    toast: { type: "success", text: "Order Filled Successfully!" },
+  },
+  [OrderStatus.LIVE]: { label: "Live", terminal: false, toast: null },
+  [OrderStatus.LIVE_DELAYED]: { label: "Live (Delayed)", terminal: false, toast: null },
+  [OrderStatus.LIVE_SUSPENDED]: {
+    label: "Suspended",
+    terminal: false,
+    toast: { type: "info", text: "Order Suspended" },
+  },
+  [OrderStatus.LOADING]: { label: "Loading", terminal: false, toast: null },
+  [OrderStatus.PENDING_AMEND]: { label: "Pending Amend", terminal: false, toast: null },
+  [OrderStatus.PENDING_CANCEL]: { label: "Pending Cancel", terminal: false, toast: null },
+  [OrderStatus.PENDING_EXPIRY]: { label: "Pending Expiry", terminal: false, toast: null },
+  [OrderStatus.PENDING_FILL]: { label: "Pending Fill", terminal: false, toast: null },
+  [OrderStatus.PENDING_LIVE]: { label: "Pending Live", terminal: false, toast: null },
+  [OrderStatus.PENDING_MOVE_TO_MANUAL]: {
+    label: "Pending Manual",
+    terminal: false,
+    toast: null,
+  },
+  [OrderStatus.PENDING_RESUME]: { label: "Pending Resume", terminal: false, toast: null },
+  [OrderStatus.PENDING_SUSPEND]: { label: "Pending Suspend", terminal: false, toast: null },
+  [OrderStatus.REJECTED]: { label: "Rejected", terminal: true, toast: null },
+  [OrderStatus.UNSPECIFIED]: { label: "Unspecified", terminal: false, toast: null },
+};
+
+/**
+ * Look up status metadata for a raw status string from the server.
+ *
+ * @param status - Execution status (e.g., "LIVE")
+ * @returns Config for known statuses, undefined otherwise
+ */
+export const getOrderStatusConfig = (
+  status: string | null | undefined
+): OrderStatusConfig | undefined =>
+  status && status in ORDER_STATUS_CONFIG ? ORDER_STATUS_CONFIG[status as OrderStatus] : undefined;
+
+/**
+ * Check whether an order status is terminal (FILLED, CANCELLED, REJECTED, EXPIRED).
+ *
+ * @param status - Execution status, may be null before the first update
+ * @returns true when the order can no longer change
+ */
+export const isTerminalOrderStatus = (status: string | null | undefined): boolean =>
+  getOrderStatusConfig(status)?.terminal ?? false;
+
+/**
+ * Check whether an order can be cancelled
+ * (cancelOrder moves PENDING_LIVE | LIVE | LIVE_SUSPENDED → PENDING_CANCEL).
+ *
+ * @param status - Execution status, may be null before the first update
+ */
+export const canCancelOrder = (status: string | null | undefined): boolean =>
+  status === OrderStatus.PENDING_LIVE ||
+  status === OrderStatus.LIVE ||
+  status === OrderStatus.LIVE_SUSPENDED;
+
+/**
+ * Check whether an order can be suspended (suspendOrder moves LIVE → PENDING_SUSPEND).
+ *
+ * @param status - Execution status, may be null before the first update
+ */
+export const canSuspendOrder = (status: string | null | undefined): boolean =>
+  status === OrderStatus.LIVE;
+
+/**
+ * Check whether an order can be resumed (resumeOrder moves LIVE_SUSPENDED → PENDING_RESUME).
+ *
+ * @param status - Execution status, may be null before the first update
+ */
+export const canResumeOrder = (status: string | null | undefined): boolean =>
+  status === OrderStatus.LIVE_SUSPENDED;
+
+/**
+ * Check whether an order can be moved to manual
+ * (moveToManual moves LIVE → PENDING_MOVE_TO_MANUAL → LIVE with a manual agent).
+ *
+ * @param status - Execution status, may be null before the first update
+ * @param agent - Execution agent, undefined before the first update
+ */
+export const canMoveToManual = (
+  status: string | null | undefined,
+  agent: string | undefined
+): boolean => status === OrderStatus.LIVE && agent !== ExecutionAgent.EXECUTION_AGENT_MANUAL;
+
+/**
+ * Check whether an order can be filled at a price (fillOrder fills LIVE manual orders).
+ *
+ * @param status - Execution status, may be null before the first update
+ * @param agent - Execution agent, undefined before the first update
+ */
+export const canFillOrder = (
+  status: string | null | undefined,
+  agent: string | undefined
+): boolean => status === OrderStatus.LIVE && agent === ExecutionAgent.EXECUTION_AGENT_MANUAL;
@@ -9,6 +9,7 @@ import {
   OrderTypeSchema,
   SCHEMA_MAP,
   validateField,
+  validateIcebergFields,
   validateOrderForSubmission,
 } from "./validation";
 
@@ -158,10 +159,18 @@ describe("validation", () => {
       expect(result.errors.level).toBeDefined();
     });
 
-    it("expect valid when account is undefined (optional field)", () => {
+    it("expect error when account is undefined (required, as on the server)", () => {
       const order = { ...validTakeProfitOrder, account: undefined };
       const result = validateOrderForSubmission(order);
-      expect(result.valid).toBe(true);
+      expect(result.valid).toBe(false);
+      expect(result.errors.account).toBe("Account name is required");
+    });
+
+    it("expect error when account name is empty", () => {
+      const order = { ...validTakeProfitOrder, account: { name: "", sdsId: 1001 } };
+      const result = validateOrderForSubmission(order);
+      expect(result.valid).toBe(false);
+      expect(result.errors.account).toBe("Account name is required");
     });
 
     it("expect valid when liquidityPool is empty string (optional field)", () => {
@@ -285,6 +294,26 @@ describe("validation", () => {
       expect(result.errors.expiryTime).toBe("Expiry time is required for GTD/GTT orders");
     });
 
+    it("expect valid result when submitting fixing order with fixing and date", () => {
+      const order = {
+        ...validLiquiditySeekerOrder,
+        orderType: OrderType.FIXING,
+        fixingId: "FIX-LON-4PM",
+        fixingDate: "2026-10-26",
+      };
+      const result = validateOrderForSubmission(order);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual({});
+    });
+
+    it("expect errors when fixing order has no fixing or date", () => {
+      const order = { ...validLiquiditySeekerOrder, orderType: OrderType.FIXING };
+      const result = validateOrderForSubmission(order);
+      expect(result.valid).toBe(false);
+      expect(result.errors.fixingId).toBe("Fixing is required");
+      expect(result.errors.fixingDate).toBe("Fixing date is required");
+    });
+
     it("expect valid when expiry strategy is GTC", () => {
       const order = {
         ...validTakeProfitOrder,
@@ -294,6 +323,62 @@ describe("validation", () => {
       expect(result.valid).toBe(true);
       expect(result.errors).toEqual({});
     });
+
+    it("expect valid when iceberg is a whole clip between the minimum and the amount", () => {
+      const order = { ...validTakeProfitOrder, iceberg: 250000 };
+      const result = validateOrderForSubmission(order, 100000);
+      expect(result.valid).toBe(true);
+    });
+
+    it("expect error when iceberg is not positive", () => {
+      const order = { ...validTakeProfitOrder, iceberg: 0 };
+      const result = validateOrderForSubmission(order, 100000);
+      expect(result.errors.iceberg).toBe("Iceberg must be positive");
+    });
+
+    it("expect error when iceberg exceeds the amount", () => {
+      const order = { ...validTakeProfitOrder, iceberg: 2000000 };
+      const result = validateOrderForSubmission(order, 100000);
+      expect(result.errors.iceberg).toBe("Iceberg must not exceed amount");
+    });
+
+    it("expect error with the minimum and currency when iceberg is below the pair's minimum clip", () => {
+      const order = { ...validTakeProfitOrder, iceberg: 50000 };
+      const result = validateOrderForSubmission(order, 100000);
+      expect(result.errors.iceberg).toBe("Minimum iceberg clip is 100,000 GBP");
+    });
+
+    it("expect error when iceberg is not a multiple of the clip step", () => {
+      const order = { ...validTakeProfitOrder, iceberg: 125000 };
+      const result = validateOrderForSubmission(order, 100000);
+      expect(result.errors.iceberg).toBe("Iceberg must be a multiple of 10,000");
+    });
+  });
+
+  describe("validateIcebergFields", () => {
+    it("expect no errors when the order has no iceberg", () => {
+      expect(validateIcebergFields({ orderType: OrderType.TAKE_PROFIT }, 100000)).toEqual({});
+    });
+
+    it("expect no errors when the order type is not TAKE_PROFIT", () => {
+      expect(validateIcebergFields({ orderType: OrderType.FLOAT, iceberg: 1 }, 100000)).toEqual({});
+    });
+
+    it("expect minimum without currency when the order has no amount", () => {
+      expect(
+        validateIcebergFields({ orderType: OrderType.TAKE_PROFIT, iceberg: 50000 }, 100000)
+      ).toEqual({ iceberg: "Minimum iceberg clip is 100,000" });
+    });
+
+    it("expect only the clip step to apply when there is no minimum clip", () => {
+      expect(
+        validateIcebergFields({
+          orderType: OrderType.TAKE_PROFIT,
+          amount: { amount: 1000000, ccy: "GBP" },
+          iceberg: 10000,
+        })
+      ).toEqual({});
+    });
   });
 
   describe("validateField", () => {
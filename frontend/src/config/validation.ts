@@ -3,7 +3,9 @@
  *
  * This file uses Valibot to define validation schemas for each order type.
  * Schemas are aligned with the GraphQL `OrderEntry` input type to ensure
- * client-side validation matches server expectations.
+ * client-side validation matches server expectations. The server applies the
+ * same rules (backend/validation/orderValidation.js) in `validateOrder`,
+ * `createOrder` and `amendOrder`.
  *
  * GraphQL OrderEntry fields (server-aligned naming):
  * - currencyPair: String!
@@ -28,7 +30,7 @@ import * as v from "valibot";
 
 import { OrderType } from "../types/domain";
 
-import { NOTIONAL_LIMITS, PRICE_CONFIG } from "./constants";
+import { ICEBERG_CONFIG, NOTIONAL_LIMITS, PRICE_CONFIG } from "./constants";
 
 // ============================================================================
 // ENUM SCHEMAS (aligned with GraphQL enums)
@@ -70,19 +72,23 @@ const amountSchema = v.object({
  * Account schema - required account with name and sdsId
  * GraphQL type: AccountInput { name: String!, sdsId: Int! }
  */
-const accountSchema = v.object({
-  name: v.pipe(v.string("Account name is required"), v.minLength(1, "Account name is required")),
-  sdsId: v.number("Account sdsId is required"),
-});
+const accountSchema = v.object(
+  {
+    name: v.pipe(v.string("Account name is required"), v.minLength(1, "Account name is required")),
+    sdsId: v.number("Account sdsId is required"),
+  },
+  "Account name is required"
+);
 
 /**
  * Expiry schema - optional expiry configuration
- * GraphQL type: ExpiryInput { strategy: ExpiryStrategy!, endTime?: EpochTime, endTimeZone?: String }
+ * GraphQL type: ExpiryInput { strategy: ExpiryStrategy!, endTime?: EpochTime, endDate?: String, endTimeZone?: String }
  */
 const expirySchema = v.optional(
   v.object({
     strategy: ExpiryStrategySchema,
     endTime: v.optional(v.nullish(v.number())),
+    endDate: v.optional(v.nullish(v.string())),
     endTimeZone: v.optional(v.nullish(v.string())),
   })
 );
@@ -127,14 +133,15 @@ const priceSchema = v.pipe(
 const optionalString = v.optional(v.nullish(v.string()));
 
 /**
- * Optional number - for non-required numeric fields
+ * Required string - a missing key reports the same message as an empty value
  */
-const optionalNumber = v.optional(v.nullish(v.number()));
+const requiredString = (message: string) =>
+  v.pipe(v.optional(v.string(message), ""), v.minLength(1, message));
 
 /**
- * Optional account - for orders where account is not strictly required
+ * Optional number - for non-required numeric fields
  */
-const optionalAccount = v.optional(v.nullish(accountSchema));
+const optionalNumber = v.optional(v.nullish(v.number()));
 
 // ============================================================================
 // ORDER TYPE SCHEMAS
@@ -142,13 +149,15 @@ const optionalAccount = v.optional(v.nullish(accountSchema));
 
 /**
  * Common base fields for all order types.
- * Required: currencyPair, side, orderType, amount
+ * Required: currencyPair, side, orderType, amount, account (OrderEntry.account
+ * is AccountInput!, and the server's validateOrder rejects orders without one)
  */
 const commonBase = {
   currencyPair: currencyPairSchema,
   side: sideSchema,
   orderType: orderTypeSchema,
   amount: amountSchema,
+  account: accountSchema,
 };
 
 /**
@@ -156,7 +165,6 @@ const commonBase = {
  */
 const sharedOptional = {
   liquidityPool: optionalString,
-  account: optionalAccount,
   orderId: optionalString,
   level: optionalNumber,
   startTime: optionalString, // HH:mm:ss format
@@ -290,13 +298,14 @@ export const TwapOrderSchema = v.object({
 });
 
 /**
- * Fixing - pool required, fixingId/date optional.
+ * Fixing - executes at the fixing, so fixingId and fixingDate are required
+ * (the server also checks the fixing is offered and still ahead).
  */
 export const FixingOrderSchema = v.object({
   ...commonBase,
   ...sharedOptional,
-  fixingId: optionalNumber,
-  fixingDate: optionalString,
+  fixingId: requiredString("Fixing is required"),
+  fixingDate: requiredString("Fixing date is required"), // YYYY-MM-DD format
 });
 
 // ============================================================================
@@ -406,6 +415,42 @@ export const validateExpiryFields = (values: Record<string, unknown>): Record<st
   return errors;
 };
 
+/** e.g. 100000 → "100,000" */
+const formatQuantity = (value: number): string => value.toLocaleString("en-US");
+
+/**
+ * Validate the iceberg clip of a TAKE_PROFIT order.
+ * The clip must be positive, at most the order amount, at least the pair's
+ * minimum clip, and a multiple of ICEBERG_CONFIG.CLIP_STEP.
+ *
+ * @param values - The order data to validate
+ * @param minClip - Pair's minimum clip in the order currency (see minIcebergClip)
+ */
+export const validateIcebergFields = (
+  values: Record<string, unknown>,
+  minClip?: number
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const iceberg = values.iceberg;
+  if (values.orderType !== OrderType.TAKE_PROFIT || typeof iceberg !== "number") {
+    return errors;
+  }
+
+  const amount = values.amount as { amount?: number; ccy?: string } | undefined;
+  if (iceberg <= 0) {
+    errors.iceberg = "Iceberg must be positive";
+  } else if (typeof amount?.amount === "number" && iceberg > amount.amount) {
+    errors.iceberg = "Iceberg must not exceed amount";
+  } else if (minClip !== undefined && iceberg < minClip) {
+    errors.iceberg =
+      `Minimum iceberg clip is ${formatQuantity(minClip)} ${amount?.ccy ?? ""}`.trim();
+  } else if (iceberg % ICEBERG_CONFIG.CLIP_STEP !== 0) {
+    errors.iceberg = `Iceberg must be a multiple of ${formatQuantity(ICEBERG_CONFIG.CLIP_STEP)}`;
+  }
+
+  return errors;
+};
+
 // ============================================================================
 // FULL ORDER VALIDATION
 // ============================================================================
@@ -415,9 +460,13 @@ export const validateExpiryFields = (values: Record<string, unknown>): Record<st
  * Runs full schema validation and returns field-level errors.
  *
  * @param values - The order data to validate
+ * @param minIcebergClip - Pair's minimum iceberg clip in the order currency
  * @returns ValidationResult with valid flag and error map
  */
-export const validateOrderForSubmission = (values: Record<string, unknown>): ValidationResult => {
+export const validateOrderForSubmission = (
+  values: Record<string, unknown>,
+  minIcebergClip?: number
+): ValidationResult => {
   const orderType = values.orderType as OrderType;
   if (!Object.values(OrderType).includes(orderType)) {
     return {
@@ -440,6 +489,7 @@ export const validateOrderForSubmission = (values: Record<string, unknown>): Val
 
   Object.assign(errors, validateStartModeFields(values));
   Object.assign(errors, validateExpiryFields(values));
+  Object.assign(errors, validateIcebergFields(values, minIcebergClip));
 
   if (Object.keys(errors).length > 0) {
     return { valid: false, errors };
@@ -473,6 +523,7 @@ export const validateField = (
     side: "BUY",
     orderType: orderType,
     amount: { amount: 1000000, ccy: "GBP" },
+    account: { name: "test", sdsId: 1 },
     liquidityPool: "test",
     level: 1.0,
     [field]: value,
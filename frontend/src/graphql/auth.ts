@@ -0,0 +1,66 @@
+/**
+ * Auth Token Provider
+ *
+ * Supplies the bearer token the backend requires on every request:
+ * - HTTP: "Authorization: Bearer <token>" header (see client.ts authLink)
+ * - WebSocket: connectionParams.authToken on graphql-ws connection_init
+ *
+ * Token source, in order:
+ * 1. VITE_AUTH_TOKEN - a token issued elsewhere (e.g. by the host platform)
+ * 2. The backend's local dev token issuer (VITE_AUTH_DEV_TOKEN_URL) for the
+ *    user in VITE_AUTH_DEV_USER_ID
+ *
+ * Issued tokens are cached and fetched again shortly before they expire.
+ */
+
+// Dev issuer defaults (backend POST /auth/dev-token)
+const devTokenUrl =
+  import.meta.env.VITE_AUTH_DEV_TOKEN_URL || "http://localhost:4000/auth/dev-token";
+const devUserId = import.meta.env.VITE_AUTH_DEV_USER_ID || "user-123";
+
+// Fetch a new token this long before the cached one expires
+const REFRESH_MARGIN_MS = 60_000;
+
+interface IssuedToken {
+  token: string;
+  expiresAt: number;
+}
+
+let cached: IssuedToken | null = null;
+let pending: Promise<string | null> | null = null;
+
+const requestDevToken = async (): Promise<string | null> => {
+  try {
+    const response = await fetch(devTokenUrl, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ userId: devUserId }),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    cached = (await response.json()) as IssuedToken;
+    return cached.token;
+  } catch (error) {
+    console.error("[Auth] Failed to get dev token:", error);
+    return null;
+  } finally {
+    pending = null;
+  }
+};
+
+/**
+ * Get the current auth token, or null when none is available (requests are then
+ * rejected by the server as unauthorized).
+ */
+export const getAuthToken = (): Promise<string | null> => {
+  const configured = import.meta.env.VITE_AUTH_TOKEN;
+  if (configured) {
+    return Promise.resolve(configured);
+  }
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return Promise.resolve(cached.token);
+  }
+  pending ??= requestDevToken();
+  return pending;
+};
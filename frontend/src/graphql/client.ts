@@ -17,17 +17,27 @@
  * - Default: cache-first (use cached data if available, good for reference data)
  * - Can be overridden per query with fetchPolicy option
  *
+ * Authentication:
+ * Every operation carries the caller's token (see auth.ts): as a Bearer
+ * Authorization header over HTTP and as connectionParams.authToken over WebSocket.
+ * The server resolves the user from it and scopes orders, preferences and
+ * accounts to that user.
+ *
  * Environment Variables:
  * - VITE_GATOR_BFF_HTTP: HTTP endpoint for queries/mutations
  * - VITE_GATOR_BFF_SUBSCRIPTION: WebSocket endpoint for subscriptions
+ * - VITE_AUTH_TOKEN / VITE_AUTH_DEV_TOKEN_URL / VITE_AUTH_DEV_USER_ID: see auth.ts
  */
 
 import { createClient } from "graphql-ws";
 
 import { ApolloClient, HttpLink, InMemoryCache, split } from "@apollo/client";
+import { setContext } from "@apollo/client/link/context";
 import { GraphQLWsLink } from "@apollo/client/link/subscriptions";
 import { getMainDefinition } from "@apollo/client/utilities";
 
+import { getAuthToken } from "./auth";
+
 // HTTP endpoint for queries and mutations
 const httpUri = import.meta.env.VITE_GATOR_BFF_HTTP || "http://localhost:4000/graphql";
 
@@ -41,8 +51,20 @@ const wsUri = import.meta.env.VITE_GATOR_BFF_SUBSCRIPTION || "ws://localhost:400
  */
 const httpLink = new HttpLink({
   uri: httpUri,
-  // Credentials: 'include' would be needed for cookie-based auth
-  // Currently disabled as backend has no auth
+});
+
+/**
+ * Auth Link
+ * Adds the Bearer token to every HTTP request (queries and mutations)
+ */
+const authLink = setContext(async (_, { headers }) => {
+  const token = await getAuthToken();
+  return {
+    headers: {
+      ...headers,
+      ...(token ? { authorization: `Bearer ${token}` } : {}),
+    },
+  };
 });
 
 /**
@@ -53,8 +75,9 @@ const httpLink = new HttpLink({
 const wsLink = new GraphQLWsLink(
   createClient({
     url: wsUri,
-    // Connection params can be used for auth tokens in future
-    // connectionParams: () => ({ token: getAuthToken() }),
+    // Sent with connection_init; the server closes the socket (4403) when the
+    // token is missing or invalid
+    connectionParams: async () => ({ authToken: await getAuthToken() }),
 
     // Retry connection on failure
     retryAttempts: 5,
@@ -83,7 +106,7 @@ const splitLink = split(
     return definition.kind === "OperationDefinition" && definition.operation === "subscription";
   },
   wsLink, // Route subscriptions through WebSocket
-  httpLink // Route queries/mutations through HTTP
+  authLink.concat(httpLink) // Route queries/mutations through HTTP
 );
 
 /**
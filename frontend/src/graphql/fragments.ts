@@ -0,0 +1,81 @@
+import { gql } from "@apollo/client";
+
+/**
+ * Full OrderData field selection.
+ * Shared by ORDER_SUBSCRIPTION, ORDERS_QUERY and ORDERS_STREAM_SUBSCRIPTION so the
+ * ticket and the blotter always receive the same order shape.
+ */
+export const ORDER_DATA_FIELDS = gql`
+  fragment OrderDataFields on OrderData {
+    orderId
+    omsOrderId
+    order {
+      fixingId
+      fixingDate
+      amount {
+        amount
+        ccy
+      }
+      currencyPair
+      iceberg
+      level
+      side
+      orderType
+      account {
+        sdsId
+        name
+      }
+      triggerSide
+      liquidityPool
+      targetExecutionRate
+      participationRate
+      executionStyle
+      discretionFactor
+      delayBehaviour
+      twapTargetEndTime
+      twapTimeZone
+      timeZone
+      startTime
+      startDate
+      startMode
+      startEpoch
+      skew
+      franchiseExposure
+      tenor
+      expiry {
+        strategy
+        endTime
+        endDate
+        endTimeZone
+      }
+      expiryTime
+      expiryDate
+      expiryTimeZone
+      ndf
+      onshore
+      orderOtherComments {
+        firstComment
+        secondComment
+        thirdComment
+      }
+      rollInfo {
+        tenor
+        valueDate
+      }
+    }
+    execution {
+      agent
+      averageFillRate
+      filled {
+        ccy
+        amount
+      }
+      rejectReason
+      status
+      startTime
+      targetEndTime
+      shownQuantity
+      hiddenQuantity
+    }
+  }
+`;
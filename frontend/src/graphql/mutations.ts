@@ -6,6 +6,12 @@ export const CREATE_ORDER_MUTATION = gql`
       orderId
       result
       failureReason
+      fieldFailures {
+        field
+        ok
+        type
+        message
+      }
     }
   }
 `;
@@ -16,6 +22,74 @@ export const AMEND_ORDER_MUTATION = gql`
       orderId
       result
       failureReason
+      fieldFailures {
+        field
+        ok
+        type
+        message
+      }
+    }
+  }
+`;
+
+export const CANCEL_INSTRUMENT_MUTATION = gql`
+  mutation cancelInstrumentAction($ccyPair: CcyPairInput!) {
+    cancelInstrumentAction(ccyPair: $ccyPair) {
+      userId
+      result
+      failureReason
+      cancelledOrderIds
+      cancelledCount
+    }
+  }
+`;
+
+export const CANCEL_ORDER_MUTATION = gql`
+  mutation cancelOrder($orderId: ID!) {
+    cancelOrder(orderId: $orderId) {
+      orderId
+      result
+      failureReason
+    }
+  }
+`;
+
+export const MOVE_TO_MANUAL_MUTATION = gql`
+  mutation moveToManual($orderId: ID!) {
+    moveToManual(orderId: $orderId) {
+      orderId
+      result
+      failureReason
+    }
+  }
+`;
+
+export const FILL_ORDER_MUTATION = gql`
+  mutation fillOrder($orderId: ID!, $fillRate: Float, $quantity: Float) {
+    fillOrder(orderId: $orderId, fillRate: $fillRate, quantity: $quantity) {
+      orderId
+      result
+      failureReason
+    }
+  }
+`;
+
+export const SUSPEND_ORDER_MUTATION = gql`
+  mutation suspendOrder($orderId: ID!) {
+    suspendOrder(orderId: $orderId) {
+      orderId
+      result
+      failureReason
+    }
+  }
+`;
+
+export const RESUME_ORDER_MUTATION = gql`
+  mutation resumeOrder($orderId: ID!) {
+    resumeOrder(orderId: $orderId) {
+      orderId
+      result
+      failureReason
     }
   }
 `;
@@ -1,5 +1,7 @@
 import { gql } from "@apollo/client";
 
+import { ORDER_DATA_FIELDS } from "./fragments";
+
 export const ACCOUNTS_QUERY = gql`
   query Accounts {
     accounts {
@@ -29,6 +31,7 @@ export const CCY_STATIC_QUERY = gql`
       defaultTenor
       tenor
       stopLossAllowed
+      minIcebergClip
     }
   }
 `;
@@ -67,6 +70,10 @@ export const CURRENCY_PAIR_INFO_QUERY = gql`
   query getCurrencyPairInfo($currencyPairId: ID!) {
     currencyPair(currencyPairId: $currencyPairId) {
       id
+      symbol
+      tradeDate
+      spotLag
+      spotDate
       tenorInfos {
         tenorCode
         valueDate
@@ -74,3 +81,52 @@ export const CURRENCY_PAIR_INFO_QUERY = gql`
     }
   }
 `;
+
+export const ORDERS_QUERY = gql`
+  ${ORDER_DATA_FIELDS}
+  query Orders($filter: OrdersFilter) {
+    orders(filter: $filter) {
+      ...OrderDataFields
+    }
+  }
+`;
+
+export const ORDER_HISTORY_QUERY = gql`
+  query OrderHistory($orderId: ID!) {
+    orderHistory(orderId: $orderId) {
+      orderId
+      version
+      type
+      timestamp
+      status
+      previousStatus
+      changes {
+        field
+        from
+        to
+      }
+      fillAmount
+      fillRate
+      filledAmount
+    }
+  }
+`;
+
+export const ACCOUNT_HEADROOM_QUERY = gql`
+  query AccountHeadroom($sdsId: ID!, $currencyPair: String) {
+    accountHeadroom(sdsId: $sdsId, currencyPair: $currencyPair) {
+      sdsId
+      currency
+      maxOrderNotional
+      dailyGrossLimit
+      dailyGrossUsed
+      dailyGrossRemaining
+      netOpenExposure {
+        ccy
+        net
+        limit
+        remaining
+      }
+    }
+  }
+`;
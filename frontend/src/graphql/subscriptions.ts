@@ -1,56 +1,21 @@
 import { gql } from "@apollo/client";
 
+import { ORDER_DATA_FIELDS } from "./fragments";
+
 export const ORDER_SUBSCRIPTION = gql`
+  ${ORDER_DATA_FIELDS}
   subscription OrderSubscription($orderId: ID!) {
     orderData(orderId: $orderId) {
-      orderId
-      omsOrderId
-      order {
-        fixingId
-        fixingDate
-        amount {
-          amount
-          ccy
-        }
-        currencyPair
-        iceberg
-        level
-        side
-        orderType
-        account {
-          sdsId
-          name
-        }
-        triggerSide
-        liquidityPool
-        targetExecutionRate
-        participationRate
-        executionStyle
-        discretionFactor
-        delayBehaviour
-        twapTargetEndTime
-        twapTimeZone
-        timeZone
-        startTime
-        skew
-        franchiseExposure
-        expiry {
-          strategy
-          endTime
-          endTimeZone
-        }
-      }
-      execution {
-        agent
-        averageFillRate
-        filled {
-          ccy
-          amount
-        }
-        rejectReason
-        status
-        targetEndTime
-      }
+      ...OrderDataFields
+    }
+  }
+`;
+
+export const ORDERS_STREAM_SUBSCRIPTION = gql`
+  ${ORDER_DATA_FIELDS}
+  subscription OrdersStream($filter: OrdersFilter) {
+    ordersStream(filter: $filter) {
+      ...OrderDataFields
     }
   }
 `;
@@ -65,6 +30,20 @@ export const ORDER_FAILURE_SUBSCRIPTION = gql`
   }
 `;
 
+export const EXECUTION_REPORTS_SUBSCRIPTION = gql`
+  subscription ExecutionReports($orderId: ID!) {
+    executionReports(orderId: $orderId) {
+      fillId
+      orderId
+      quantity
+      price
+      ccy
+      venue
+      timestamp
+    }
+  }
+`;
+
 export const GATOR_DATA_SUBSCRIPTION = gql`
   subscription GatorSubscription($input: GatorSubscription) {
     gatorData(subscription: $input) {
@@ -76,6 +55,17 @@ export const GATOR_DATA_SUBSCRIPTION = gql`
         price
         precisionValue
       }
+      depth {
+        market
+        bids {
+          price
+          size
+        }
+        asks {
+          price
+          size
+        }
+      }
     }
   }
 `;
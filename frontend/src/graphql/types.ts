@@ -36,6 +36,7 @@ export interface CurrencyPairGQL {
   defaultTenor: string;
   tenor: string;
   stopLossAllowed: boolean;
+  minIcebergClip: number | null;
 }
 
 export interface CcyStaticQueryResponse {
@@ -72,6 +73,10 @@ export interface TenorInfoGQL {
 
 export interface CurrencyPairDetailGQL {
   id: string;
+  symbol: string;
+  tradeDate: string;
+  spotLag: number;
+  spotDate: string;
   tenorInfos: TenorInfoGQL[];
 }
 
@@ -79,6 +84,72 @@ export interface CurrencyPairInfoQueryResponse {
   currencyPair: CurrencyPairDetailGQL;
 }
 
+export interface OrdersFilterGQL {
+  currencyPair?: string;
+  side?: string;
+  orderType?: string;
+  statuses?: string[];
+  account?: string;
+}
+
+export interface OrdersQueryResponse {
+  orders: OrderDataGQL[];
+}
+
+export type OrderHistoryEventTypeGQL =
+  | "CREATED"
+  | "AMENDED"
+  | "FILL"
+  | "CANCEL_REQUESTED"
+  | "CANCELLED"
+  | "AGENT_CHANGED"
+  | "STATUS_CHANGED";
+
+export interface FieldChangeGQL {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface OrderHistoryEntryGQL {
+  orderId: string;
+  version: number;
+  type: OrderHistoryEventTypeGQL;
+  timestamp: number;
+  status: string;
+  previousStatus: string | null;
+  changes: FieldChangeGQL[];
+  fillAmount: number | null;
+  fillRate: number | null;
+  filledAmount: number;
+}
+
+export interface OrderHistoryQueryResponse {
+  orderHistory: OrderHistoryEntryGQL[];
+}
+
+export interface ExposureHeadroomGQL {
+  ccy: string;
+  net: number;
+  limit: number;
+  remaining: number;
+}
+
+/** Remaining pre-trade limits for an account, amounts in `currency` (USD) */
+export interface AccountHeadroomGQL {
+  sdsId: string;
+  currency: string;
+  maxOrderNotional: number;
+  dailyGrossLimit: number;
+  dailyGrossUsed: number;
+  dailyGrossRemaining: number;
+  netOpenExposure: ExposureHeadroomGQL[];
+}
+
+export interface AccountHeadroomQueryResponse {
+  accountHeadroom: AccountHeadroomGQL;
+}
+
 // ============================================================================
 // Subscription Response Types
 // ============================================================================
@@ -96,9 +167,21 @@ export interface PriceGQL {
   precisionValue: number;
 }
 
+export interface DepthLevelGQL {
+  price: number;
+  size: number;
+}
+
+export interface MarketDepthGQL {
+  market: string;
+  bids: DepthLevelGQL[];
+  asks: DepthLevelGQL[];
+}
+
 export interface GatorDataGQL {
   topOfTheBookBuy: PriceGQL;
   topOfTheBookSell: PriceGQL;
+  depth: MarketDepthGQL[];
 }
 
 export interface GatorDataSubscriptionResponse {
@@ -117,10 +200,22 @@ export interface AccountDetailGQL {
 
 export interface ExpiryGQL {
   strategy: string;
-  endTime: string | null;
+  endTime: number | null;
+  endDate: string | null;
   endTimeZone: string | null;
 }
 
+export interface OrderOtherCommentsGQL {
+  firstComment: string | null;
+  secondComment: string | null;
+  thirdComment: string | null;
+}
+
+export interface RollInfoGQL {
+  tenor: string | null;
+  valueDate: string | null;
+}
+
 export interface OrderDetailGQL {
   fixingId: string | null;
   fixingDate: string | null;
@@ -132,19 +227,30 @@ export interface OrderDetailGQL {
   orderType: string;
   account: AccountDetailGQL;
   triggerSide: string | null;
-  liquidityPool: string;
+  liquidityPool: string | null;
   targetExecutionRate: number | null;
   participationRate: number | null;
   executionStyle: string | null;
   discretionFactor: number | null;
   delayBehaviour: string | null;
-  twapTargetEndTime: string | null;
+  twapTargetEndTime: number | null;
   twapTimeZone: string | null;
   timeZone: string | null;
   startTime: string | null;
+  startDate: string | null;
+  startMode: string | null;
+  startEpoch: number | null;
   skew: number | null;
   franchiseExposure: number | null;
+  tenor: string | null;
   expiry: ExpiryGQL | null;
+  expiryTime: string | null;
+  expiryDate: string | null;
+  expiryTimeZone: string | null;
+  ndf: boolean | null;
+  onshore: boolean | null;
+  orderOtherComments: OrderOtherCommentsGQL | null;
+  rollInfo: RollInfoGQL | null;
 }
 
 export interface ExecutionGQL {
@@ -153,7 +259,10 @@ export interface ExecutionGQL {
   filled: AmountGQL;
   rejectReason: string | null;
   status: string;
+  startTime: string | null;
   targetEndTime: string | null;
+  shownQuantity: number | null;
+  hiddenQuantity: number | null;
 }
 
 export interface OrderDataGQL {
@@ -167,6 +276,10 @@ export interface OrderDataSubscriptionResponse {
   orderData: OrderDataGQL;
 }
 
+export interface OrdersStreamSubscriptionResponse {
+  ordersStream: OrderDataGQL;
+}
+
 export interface OrderFailureGQL {
   description: string;
   errorCode: string;
@@ -177,6 +290,21 @@ export interface OrderFailureSubscriptionResponse {
   orderFailure: OrderFailureGQL;
 }
 
+/** One fill of an order (venue: liquidity pool, INTERNAL, FIXING or MANUAL) */
+export interface ExecutionReportGQL {
+  fillId: string;
+  orderId: string;
+  quantity: number;
+  price: number;
+  ccy: string;
+  venue: string;
+  timestamp: number;
+}
+
+export interface ExecutionReportsSubscriptionResponse {
+  executionReports: ExecutionReportGQL;
+}
+
 export interface FieldValidationGQL {
   field: string;
   ok: boolean;
@@ -194,9 +322,10 @@ export interface ValidateFieldSubscriptionResponse {
 
 export interface CreateOrderResponse {
   createOrder: {
-    orderId: string;
+    orderId: string | null; // null when the order was rejected
     result: string;
     failureReason: string | null;
+    fieldFailures: FieldValidationGQL[];
   };
 }
 
@@ -205,9 +334,52 @@ export interface AmendOrderResponse {
     orderId: string;
     result: string;
     failureReason: string | null;
+    fieldFailures: FieldValidationGQL[];
+  };
+}
+
+export interface CcyPairInputGQL {
+  symbol: string;
+  onshore: boolean;
+  deliverable: boolean;
+}
+
+export interface CancelInstrumentResponse {
+  cancelInstrumentAction: {
+    userId: string;
+    result: string;
+    failureReason: string | null;
+    cancelledOrderIds: string[];
+    cancelledCount: number;
   };
 }
 
+export interface OrderActionResultGQL {
+  orderId: string;
+  result: string;
+  failureReason: string | null;
+}
+
+export interface CancelOrderResponse {
+  cancelOrder: OrderActionResultGQL;
+}
+
+export interface MoveToManualResponse {
+  moveToManual: OrderActionResultGQL;
+}
+
+export interface FillOrderResponse {
+  fillOrder: OrderActionResultGQL;
+}
+
+export interface SuspendOrderResponse {
+  suspendOrder: OrderActionResultGQL;
+}
+
+export interface ResumeOrderResponse {
+  resumeOrder: OrderActionResultGQL;
+}
+
 export interface GlobalUserPreferenceMutationResponse {
   mutateGlobalUserPreferences: GlobalUserPreferencesGQL;
 }
@@ -210,6 +210,58 @@ describe("useFieldOptions", () => {
     });
   });
 
+  describe("fixingId field", () => {
+    const london4pm = {
+      fixingId: "FIX-LON-4PM",
+      fixingName: "London 4PM",
+      fixingTime: "16:00",
+      fixingTimezone: "Europe/London",
+    };
+
+    const mockFixingStore = (currentFixingId?: string, isLoadingRefData = false) =>
+      vi.mocked(useOrderEntryStore).mockImplementation((selector) =>
+        selector({
+          accounts: [],
+          pools: [],
+          fixings: [london4pm],
+          isLoadingRefData,
+          getDerivedValues: () => ({ fixingId: currentFixingId }),
+        } as never)
+      );
+
+    it("expect fixing options with name, fixing time and time zone when fixings are loaded", () => {
+      mockFixingStore();
+
+      const { result } = renderHook(() => useFieldOptions("fixingId"));
+
+      expect(result.current.options).toHaveLength(1);
+      expect(result.current.options[0].value).toBe("FIX-LON-4PM");
+      expect(result.current.options[0].label).toMatch(
+        /^London 4PM – 16:00 Europe\/London \(\d{2}:\d{2} local\)$/
+      );
+    });
+
+    it("expect unavailable fixing to be added to options when current value not in list", () => {
+      mockFixingStore("FIX-OLD");
+
+      const { result } = renderHook(() => useFieldOptions("fixingId"));
+
+      expect(result.current.options).toHaveLength(2);
+      expect(result.current.options[0]).toEqual({
+        label: "FIX-OLD (Unavailable)",
+        value: "FIX-OLD",
+      });
+    });
+
+    it("expect isLoading to be true when ref data is loading", () => {
+      mockFixingStore(undefined, true);
+
+      const { result } = renderHook(() => useFieldOptions("fixingId"));
+
+      expect(result.current.isLoading).toBe(true);
+    });
+  });
+
   describe("other fields", () => {
     it("expect empty options array when field is not a select field", () => {
       createMockStore();
@@ -7,13 +7,15 @@
  * Handles:
  * - account: Options from accounts reference data
  * - liquidityPool: Options from pools reference data
+ * - fixingId: Options from fixings reference data, labelled with the fixing's
+ *   time zone and the user's local time of the next fixing
  * - Unavailable values: Adds "(Unavailable)" suffix if current value not in options
  *
  * @param fieldKey - The field name from OrderStateData
  * @returns Options array and loading state
  */
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 
 import { useOrderEntryStore } from "../../store";
 import {
@@ -23,6 +25,7 @@ import {
   StartMode,
   StopLossTriggerSide,
 } from "../../types/domain";
+import { formatFixingLabel } from "../../utils/fixings";
 
 export interface SelectOption {
   label: string;
@@ -40,6 +43,7 @@ export const useFieldOptions = (fieldKey: keyof OrderStateData): UseFieldOptions
   // Get reference data
   const accounts = useOrderEntryStore((s) => s.accounts);
   const pools = useOrderEntryStore((s) => s.pools);
+  const fixings = useOrderEntryStore((s) => s.fixings);
   const isLoadingRefData = useOrderEntryStore((s) => s.isLoadingRefData);
 
   // Get current values using stable selectors (not getDerivedValues() which creates new objects)
@@ -47,6 +51,11 @@ export const useFieldOptions = (fieldKey: keyof OrderStateData): UseFieldOptions
   const currentAccount = useOrderEntryStore((s) => s.getDerivedValues().account);
   const currentLiquidityPool = useOrderEntryStore((s) => s.getDerivedValues().liquidityPool);
   const currentSide = useOrderEntryStore((s) => s.getDerivedValues().side);
+  const currentFixingId = useOrderEntryStore((s) => s.getDerivedValues().fixingId);
+
+  // Fixing labels show the local time of the next fixing, which only moves when
+  // a daylight saving change passes, so the time the field mounted is enough
+  const [mountedAt] = useState(Date.now);
 
   // Compute options based on field key
   const options = useMemo((): SelectOption[] => {
@@ -87,6 +96,24 @@ export const useFieldOptions = (fieldKey: keyof OrderStateData): UseFieldOptions
         return opts;
       }
 
+      case "fixingId": {
+        const opts = fixings.map((f) => ({
+          label: formatFixingLabel(f, mountedAt),
+          value: f.fixingId,
+        }));
+
+        // If current value doesn't exist in options (unavailable fixing)
+        // Add it to dropdown so it can be displayed
+        if (currentFixingId && !opts.some((opt) => opt.value === currentFixingId)) {
+          opts.unshift({
+            label: `${currentFixingId} (Unavailable)`,
+            value: currentFixingId,
+          });
+        }
+
+        return opts;
+      }
+
       case "startMode":
         return [
           { label: "Start Now", value: StartMode.START_NOW },
@@ -135,11 +162,21 @@ export const useFieldOptions = (fieldKey: keyof OrderStateData): UseFieldOptions
       default:
         return [];
     }
-  }, [fieldKey, accounts, pools, currentAccount, currentLiquidityPool, currentSide]);
+  }, [
+    fieldKey,
+    accounts,
+    pools,
+    fixings,
+    currentAccount,
+    currentLiquidityPool,
+    currentSide,
+    currentFixingId,
+    mountedAt,
+  ]);
 
   // Determine if this field is loading options
   const isLoading = useMemo(() => {
-    const refDataFields = ["account", "liquidityPool"];
+    const refDataFields = ["account", "liquidityPool", "fixingId"];
     return refDataFields.includes(fieldKey) && isLoadingRefData;
   }, [fieldKey, isLoadingRefData]);
 
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { renderHook } from "@testing-library/react";
+
+import type { AccountHeadroomGQL, OrderDataGQL } from "../graphql/types";
+
+import { useAccountHeadroom } from "./useAccountHeadroom";
+
+// Mock the store
+vi.mock("../store", () => ({
+  useOrderEntryStore: vi.fn(),
+}));
+
+// Mock Apollo client
+vi.mock("@apollo/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@apollo/client")>();
+  return {
+    ...actual,
+    useQuery: vi.fn(),
+  };
+});
+
+import { useQuery } from "@apollo/client";
+
+import { useOrderEntryStore } from "../store";
+
+const headroom = { sdsId: "1", dailyGrossRemaining: 56741800 } as AccountHeadroomGQL;
+
+describe("useAccountHeadroom", () => {
+  const mockRefetch = vi.fn();
+  let derived: { account?: { sdsId: number; name: string }; currencyPair: string };
+  let state: {
+    getDerivedValues: () => typeof derived;
+    blotterOrders: OrderDataGQL[];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    derived = { account: { sdsId: 1, name: "Hedge Fund A" }, currencyPair: "GBPUSD" };
+    state = {
+      getDerivedValues: () => derived,
+      blotterOrders: [],
+    };
+
+    vi.mocked(useOrderEntryStore).mockImplementation((selector) => selector(state as never));
+
+    vi.mocked(useQuery).mockReturnValue({
+      data: { accountHeadroom: headroom },
+      error: undefined,
+      refetch: mockRefetch,
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("expect headroom query for the ticket's account and pair", () => {
+    const { result } = renderHook(() => useAccountHeadroom());
+
+    expect(useQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        variables: { sdsId: "1", currencyPair: "GBPUSD" },
+        skip: false,
+        fetchPolicy: "network-only",
+      })
+    );
+    expect(result.current).toBe(headroom);
+  });
+
+  it("expect query to be skipped and null when no account is selected", () => {
+    delete derived.account;
+
+    const { result } = renderHook(() => useAccountHeadroom());
+
+    expect(useQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ skip: true })
+    );
+    expect(result.current).toBeNull();
+  });
+
+  it("expect null while the query has no data", () => {
+    vi.mocked(useQuery).mockReturnValue({
+      data: undefined,
+      error: undefined,
+      refetch: mockRefetch,
+    } as never);
+
+    const { result } = renderHook(() => useAccountHeadroom());
+
+    expect(result.current).toBeNull();
+  });
+
+  it("expect no refetch on mount", () => {
+    renderHook(() => useAccountHeadroom());
+
+    expect(mockRefetch).not.toHaveBeenCalled();
+  });
+
+  it("expect refetch when the blotter changes", () => {
+    const { rerender } = renderHook(() => useAccountHeadroom());
+
+    state.blotterOrders = [{ orderId: "ORD-1" } as OrderDataGQL];
+    rerender();
+
+    expect(mockRefetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("expect no refetch when the blotter changes without an account", () => {
+    const { rerender } = renderHook(() => useAccountHeadroom());
+
+    delete derived.account;
+    state.blotterOrders = [{ orderId: "ORD-1" } as OrderDataGQL];
+    rerender();
+
+    expect(mockRefetch).not.toHaveBeenCalled();
+  });
+
+  it("expect error to be logged when the query fails", () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const error = new Error("Network error");
+    vi.mocked(useQuery).mockReturnValue({
+      data: undefined,
+      error,
+      refetch: mockRefetch,
+    } as never);
+
+    renderHook(() => useAccountHeadroom());
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "[useAccountHeadroom] Account headroom query error:",
+      error
+    );
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * useAccountHeadroom Hook
+ *
+ * Loads the remaining pre-trade limits (ACCOUNT_HEADROOM_QUERY) for the account
+ * on the ticket, shown next to the account select.
+ *
+ * Responsibilities:
+ * 1. Query headroom for the ticket's account and currency pair
+ * 2. Refetch whenever the blotter changes (ORDERS_STREAM pushes every
+ *    create/amend/fill/status change, and each of them moves limit usage)
+ *
+ * Used by: AccountHeadroom.
+ */
+
+import { useEffect, useRef } from "react";
+
+import { useQuery } from "@apollo/client";
+
+import { ACCOUNT_HEADROOM_QUERY } from "../graphql/queries";
+import type { AccountHeadroomGQL, AccountHeadroomQueryResponse } from "../graphql/types";
+import { useOrderEntryStore } from "../store";
+
+export const useAccountHeadroom = (): AccountHeadroomGQL | null => {
+  const sdsId = useOrderEntryStore((s) => s.getDerivedValues().account?.sdsId);
+  const currencyPair = useOrderEntryStore((s) => s.getDerivedValues().currencyPair);
+  const blotterOrders = useOrderEntryStore((s) => s.blotterOrders);
+
+  const skip = sdsId === undefined;
+
+  const { data, error, refetch } = useQuery<AccountHeadroomQueryResponse>(ACCOUNT_HEADROOM_QUERY, {
+    variables: { sdsId: String(sdsId), currencyPair },
+    skip,
+    fetchPolicy: "network-only",
+  });
+
+  // Initial fetch is done by useQuery; refetch only on later blotter changes
+  const lastOrdersRef = useRef(blotterOrders);
+  useEffect(() => {
+    if (lastOrdersRef.current === blotterOrders) return;
+    lastOrdersRef.current = blotterOrders;
+    if (!skip) {
+      refetch();
+    }
+  }, [blotterOrders, skip, refetch]);
+
+  // Non-blocking: the server still enforces limits on submit
+  useEffect(() => {
+    if (error) {
+      console.error("[useAccountHeadroom] Account headroom query error:", error);
+    }
+  }, [error]);
+
+  return skip ? null : (data?.accountHeadroom ?? null);
+};
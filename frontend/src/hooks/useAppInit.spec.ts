@@ -62,6 +62,7 @@ describe("useAppInit", () => {
   const mockProcessIntentQueue = vi.fn();
   const mockIsDirty = vi.fn(() => false);
   const mockSetPendingFdc3Intent = vi.fn();
+  let mockOrderType: string | undefined;
 
   // Mock query results
   const mockAccountsData = {
@@ -84,6 +85,18 @@ describe("useAppInit", () => {
         orderType: "LIQUIDITY_SEEKER",
         liquidityPools: [{ value: "POOL1", name: "Pool 1" }],
       },
+      {
+        orderType: "FIXING",
+        liquidityPools: [],
+        fixingCombinations: [
+          {
+            fixingId: "FIX-LON-4PM",
+            fixingName: "London 4PM",
+            fixingTime: "16:00",
+            fixingTimezone: "Europe/London",
+          },
+        ],
+      },
     ],
   };
 
@@ -96,6 +109,7 @@ describe("useAppInit", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockOrderType = "TAKE_PROFIT";
 
     // Setup default store mock
     vi.mocked(useOrderEntryStore).mockImplementation((selector) => {
@@ -110,6 +124,7 @@ describe("useAppInit", () => {
         processIntentQueue: mockProcessIntentQueue,
         isDirty: mockIsDirty,
         setPendingFdc3Intent: mockSetPendingFdc3Intent,
+        getDerivedValues: () => ({ orderType: mockOrderType }),
         status: "READY",
       };
       return selector(state as never);
@@ -163,7 +178,15 @@ describe("useAppInit", () => {
           { value: "POOL2", name: "Pool 2" },
         ]),
         currencyPairs: mockCurrencyPairsData.currencyPairs,
-        entitledOrderTypes: ["TAKE_PROFIT", "LIQUIDITY_SEEKER"],
+        entitledOrderTypes: ["TAKE_PROFIT", "LIQUIDITY_SEEKER", "FIXING"],
+        fixings: [
+          {
+            fixingId: "FIX-LON-4PM",
+            fixingName: "London 4PM",
+            fixingTime: "16:00",
+            fixingTimezone: "Europe/London",
+          },
+        ],
       });
     });
 
@@ -264,6 +287,7 @@ describe("useAppInit", () => {
         pools: [],
         currencyPairs: [],
         entitledOrderTypes: [],
+        fixings: [],
       });
     });
 
@@ -301,6 +325,39 @@ describe("useAppInit", () => {
       expect(refDataCall.pools[0].value).toBe("POOL1");
     });
 
+    it("expect fixings to be deduplicated across order types", () => {
+      const london4pm = {
+        fixingId: "FIX-LON-4PM",
+        fixingName: "London 4PM",
+        fixingTime: "16:00",
+        fixingTimezone: "Europe/London",
+      };
+      const orderTypesWithDuplicateFixings = {
+        orderTypesWithPools: [
+          { orderType: "FIXING", liquidityPools: [], fixingCombinations: [london4pm] },
+          { orderType: "TWAP", liquidityPools: [], fixingCombinations: [london4pm] }, // Duplicate
+        ],
+      };
+
+      vi.mocked(useQuery)
+        .mockReturnValueOnce({ data: mockAccountsData, loading: false, error: undefined } as never)
+        .mockReturnValueOnce({
+          data: orderTypesWithDuplicateFixings,
+          loading: false,
+          error: undefined,
+        } as never)
+        .mockReturnValueOnce({
+          data: mockCurrencyPairsData,
+          loading: false,
+          error: undefined,
+        } as never);
+
+      renderHook(() => useAppInit());
+
+      const refDataCall = mockSetRefData.mock.calls[0][0];
+      expect(refDataCall.fixings).toEqual([london4pm]);
+    });
+
     it("expect to log errors but continue when non-critical queries fail", () => {
       const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
@@ -329,6 +386,91 @@ describe("useAppInit", () => {
     });
   });
 
+  describe("currency pairs by order type", () => {
+    it("expect currency pairs to be queried for the current order type", () => {
+      renderHook(() => useAppInit());
+
+      expect(useQuery).toHaveBeenCalledWith(expect.anything(), {
+        variables: { orderType: "TAKE_PROFIT" },
+      });
+    });
+
+    it("expect currency pairs to be queried for any order type when none is set", () => {
+      mockOrderType = undefined;
+
+      renderHook(() => useAppInit());
+
+      expect(useQuery).toHaveBeenCalledWith(expect.anything(), {
+        variables: { orderType: null },
+      });
+    });
+
+    it("expect previous pairs to be kept and app READY while refetching for a new order type", () => {
+      vi.mocked(useQuery)
+        .mockReturnValueOnce({ data: mockAccountsData, loading: false, error: undefined } as never)
+        .mockReturnValueOnce({
+          data: mockOrderTypesData,
+          loading: false,
+          error: undefined,
+        } as never)
+        .mockReturnValueOnce({
+          data: undefined,
+          previousData: mockCurrencyPairsData,
+          loading: true,
+          error: undefined,
+        } as never);
+
+      renderHook(() => useAppInit());
+
+      expect(mockSetStatus).not.toHaveBeenCalledWith("INITIALIZING");
+      expect(mockSetStatus).toHaveBeenCalledWith("READY");
+      expect(mockSetRefData).toHaveBeenCalledWith(
+        expect.objectContaining({ currencyPairs: mockCurrencyPairsData.currencyPairs })
+      );
+    });
+  });
+
+  describe("ready transition", () => {
+    it("expect ref data to update but READY and the intent queue to run once when pairs are refetched", () => {
+      // Every render queries accounts, order types, then currency pairs
+      let currencyPairs = mockCurrencyPairsData;
+      let call = 0;
+      vi.mocked(useQuery).mockImplementation(() => {
+        const data = [mockAccountsData, mockOrderTypesData, currencyPairs][call++ % 3];
+        return { data, loading: false, error: undefined } as never;
+      });
+
+      const { rerender } = renderHook(() => useAppInit());
+      currencyPairs = { currencyPairs: [mockCurrencyPairsData.currencyPairs[0]] };
+      rerender();
+
+      expect(mockSetRefData).toHaveBeenCalledTimes(2);
+      expect(mockSetRefData).toHaveBeenLastCalledWith(
+        expect.objectContaining({ currencyPairs: currencyPairs.currencyPairs })
+      );
+      expect(mockValidateRefData).toHaveBeenCalledTimes(2);
+      expect(mockSetStatus).toHaveBeenCalledTimes(1);
+      expect(mockSetStatus).toHaveBeenCalledWith("READY");
+      expect(mockProcessIntentQueue).toHaveBeenCalledTimes(1);
+    });
+
+    it("expect status to stay READY when a query loads again after the first load", () => {
+      let loading = false;
+      let call = 0;
+      vi.mocked(useQuery).mockImplementation(() => {
+        const data = [mockAccountsData, mockOrderTypesData, mockCurrencyPairsData][call++ % 3];
+        return { data: loading ? undefined : data, loading, error: undefined } as never;
+      });
+
+      const { rerender } = renderHook(() => useAppInit());
+      loading = true;
+      rerender();
+
+      expect(mockSetStatus).not.toHaveBeenCalledWith("INITIALIZING");
+      expect(mockSetRefData).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("user preferences subscription", () => {
     beforeEach(() => {
       // Setup queries to complete successfully
@@ -466,6 +608,7 @@ describe("useAppInit", () => {
           processIntentQueue: mockProcessIntentQueue,
           isDirty: mockIsDirty,
           setPendingFdc3Intent: mockSetPendingFdc3Intent,
+          getDerivedValues: () => ({ orderType: mockOrderType }),
           status: "READY",
         };
         return selector(state as never);
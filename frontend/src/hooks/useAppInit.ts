@@ -7,7 +7,8 @@
  * 1. Load reference data (Accounts, Liquidity Pools, Currency Pairs) from GraphQL server
  * 2. Subscribe to global user preferences for default account selection
  * 3. Set up FDC3 intent listeners for external context linking (e.g., from another app)
- * 4. Transition app status from "INITIALIZING" to "READY"
+ * 4. Transition app status from "INITIALIZING" to "READY" once, replaying queued FDC3 intents
+ *    (later ref data refetches only update the ref data)
  *
  * Priority-Based Layered State:
  * - Defaults (Priority 1): Hardcoded in DefaultsSlice
@@ -21,6 +22,9 @@
  * GraphQL Integration:
  * - Uses Apollo Client hooks (useQuery, useSubscription) to fetch data
  * - Queries: accounts, orderTypesWithPools, currencyPairs
+ * - orderTypesWithPools also carries each type's fixingCombinations (FIXING orders)
+ * - currencyPairs is filtered by the ticket's order type on the server (the user's
+ *   entitlements, and stopLossAllowed for STOP_LOSS) and refetched when it changes
  * - Subscription: globalUserPreferencesStream (for default account updates)
  *
  * @example
@@ -28,7 +32,7 @@
  * useAppInit(); // Runs once on mount
  */
 
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 
 import { useQuery, useSubscription } from "@apollo/client";
 
@@ -43,12 +47,13 @@ import { GLOBAL_USER_PREFERENCES_SUBSCRIPTION } from "../graphql/subscriptions";
 import type {
   AccountsQueryResponse,
   CcyStaticQueryResponse,
+  FixingCombinationGQL,
   GlobalUserPreferencesSubscriptionResponse,
   LiquidityPoolGQL,
   OrderTypesLiquidityPoolsQueryResponse,
 } from "../graphql/types";
 import { useOrderEntryStore } from "../store";
-import type { Account, CurrencyPair, LiquidityPool } from "../types/domain";
+import type { Account, CurrencyPair, FixingCombination, LiquidityPool } from "../types/domain";
 
 export const useAppInit = () => {
   // Extract actions from store (these don't change, so safe to extract)
@@ -64,6 +69,7 @@ export const useAppInit = () => {
   const processIntentQueue = useOrderEntryStore((s) => s.processIntentQueue);
   const isDirty = useOrderEntryStore((s) => s.isDirty);
   const setPendingFdc3Intent = useOrderEntryStore((s) => s.setPendingFdc3Intent);
+  const orderType = useOrderEntryStore((s) => s.getDerivedValues().orderType);
 
   // Query 1: Fetch all accounts
   // Used to populate account dropdown
@@ -83,18 +89,23 @@ export const useAppInit = () => {
     error: orderTypesError,
   } = useQuery<OrderTypesLiquidityPoolsQueryResponse>(ORDER_TYPES_LIQUIDITY_POOLS_QUERY);
 
-  // Query 3: Fetch currency pairs
-  // No orderType filter initially - get all pairs
-  // When user changes order type, we'll refetch with the filter
-  // Cache policy: cache-first, but will refetch when orderType changes
+  // Query 3: Fetch currency pairs the user is entitled to for the current order type
+  // Changing the order type changes the variables, so Apollo refetches the pairs
+  // Cache policy: cache-first (per order type)
   const {
-    data: currencyPairsData,
-    loading: currencyPairsLoading,
+    data: currentCurrencyPairsData,
+    previousData: previousCurrencyPairsData,
+    loading: currencyPairsRefetching,
     error: currencyPairsError,
   } = useQuery<CcyStaticQueryResponse>(CCY_STATIC_QUERY, {
-    variables: { orderType: null }, // null = fetch all pairs initially
+    variables: { orderType: orderType ?? null }, // null = pairs for any order type
   });
 
+  // Keep the previous order type's pairs while refetching, so only the first load
+  // holds the app in INITIALIZING
+  const currencyPairsData = currentCurrencyPairsData ?? previousCurrencyPairsData;
+  const currencyPairsLoading = currencyPairsRefetching && !currencyPairsData;
+
   // Subscription: Global user preferences stream
   // Provides real-time updates when user's default account changes
   // This will override the 0th index account selection from the accounts query
@@ -110,18 +121,17 @@ export const useAppInit = () => {
     }
   );
 
-  // Effect 1: Load reference data when queries complete
+  const isLoading = accountsLoading || orderTypesLoading || currencyPairsLoading;
+
+  // Set once the app has gone READY, so refetches never replay the startup steps
+  const isReadyRef = useRef(false);
+
+  // Effect 1: Load reference data when queries complete (and again on every refetch)
   useEffect(() => {
     // Wait for all queries to complete
-    const isLoading = accountsLoading || orderTypesLoading || currencyPairsLoading;
-    const hasErrors = accountsError || orderTypesError || currencyPairsError;
-
-    if (isLoading) {
-      // Still loading, keep status as INITIALIZING
-      setStatus("INITIALIZING");
-      return;
-    }
+    if (isLoading) return;
 
+    const hasErrors = accountsError || orderTypesError || currencyPairsError;
     if (hasErrors) {
       // Log errors but continue - we can work with partial data
       console.error("[useAppInit] Query errors:", {
@@ -129,11 +139,8 @@ export const useAppInit = () => {
         orderTypesError,
         currencyPairsError,
       });
-      // Set status to ERROR if critical queries fail
-      if (accountsError) {
-        setStatus("ERROR");
-        return;
-      }
+      // Accounts are critical: no ref data without them (status set by Effect 2)
+      if (accountsError) return;
     }
 
     // Map backend data to store format
@@ -159,6 +166,22 @@ export const useAppInit = () => {
     });
     const pools: LiquidityPool[] = Array.from(poolsMap.values());
 
+    // Same for fixings - unique by fixingId across order types
+    const fixingsMap = new Map<string, FixingCombination>();
+    orderTypesData?.orderTypesWithPools?.forEach((orderType) => {
+      orderType.fixingCombinations?.forEach((fixing: FixingCombinationGQL) => {
+        if (!fixingsMap.has(fixing.fixingId)) {
+          fixingsMap.set(fixing.fixingId, {
+            fixingId: fixing.fixingId,
+            fixingName: fixing.fixingName,
+            fixingTime: fixing.fixingTime,
+            fixingTimezone: fixing.fixingTimezone,
+          });
+        }
+      });
+    });
+    const fixings: FixingCombination[] = Array.from(fixingsMap.values());
+
     // Use currency pairs as-is from the query (no transformation)
     const currencyPairs: CurrencyPair[] = currencyPairsData?.currencyPairs || [];
 
@@ -168,34 +191,51 @@ export const useAppInit = () => {
       pools,
       currencyPairs,
       entitledOrderTypes,
+      fixings,
     });
 
     // Validate reference data after loading
     // This checks if any baseValues reference unavailable data
     validateRefData();
-
-    // Mark app as ready (hides loading screen, shows form)
-    setStatus("READY");
-
-    // Process any FDC3 intents that arrived before app was ready
-    processIntentQueue();
   }, [
     accountsData,
-    accountsLoading,
     accountsError,
     orderTypesData,
-    orderTypesLoading,
     orderTypesError,
     currencyPairsData,
-    currencyPairsLoading,
     currencyPairsError,
+    isLoading,
     setRefData,
-    setStatus,
     validateRefData,
-    processIntentQueue,
   ]);
 
-  // Effect 2: Apply user preferences when available
+  // Effect 2: Go READY after the first complete load (runs after Effect 1, so the
+  // ref data is in the store first), then never again
+  useEffect(() => {
+    if (isReadyRef.current) return;
+
+    if (isLoading) {
+      // Still loading, keep status as INITIALIZING
+      setStatus("INITIALIZING");
+      return;
+    }
+
+    // Set status to ERROR if critical queries fail
+    if (accountsError) {
+      setStatus("ERROR");
+      return;
+    }
+
+    isReadyRef.current = true;
+
+    // Mark app as ready (hides loading screen, shows form)
+    setStatus("READY");
+
+    // Process any FDC3 intents that arrived before app was ready
+    processIntentQueue();
+  }, [isLoading, accountsError, setStatus, processIntentQueue]);
+
+  // Effect 3: Apply user preferences when available
   useEffect(() => {
     if (!userPrefsData?.globalUserPreferencesStream) return;
 
@@ -212,7 +252,7 @@ export const useAppInit = () => {
     }
   }, [userPrefsData, setUserPrefs, validateRefData]);
 
-  // Effect 3: Initialize FDC3 Service
+  // Effect 4: Initialize FDC3 Service
   useEffect(() => {
     // Get current app status to determine if we should queue or apply intents
     const getAppStatus = () => useOrderEntryStore.getState().status;
@@ -254,7 +294,7 @@ export const useAppInit = () => {
     });
   }, [setFdc3Intent, queueFdc3Intent, setPendingFdc3Intent, validateRefData, isDirty]);
 
-  // Effect 4: Initialize field order preferences from localStorage
+  // Effect 5: Initialize field order preferences from localStorage
   useEffect(() => {
     // Load user's custom field order preferences on app start
     initFieldOrderFromStorage();
@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for useCountdown Hook
+ *
+ * Tests the once-a-second countdown to a target time.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { act, renderHook } from "@testing-library/react";
+
+import { useCountdown } from "./useCountdown";
+
+const NOW = Date.parse("2026-10-21T12:00:00Z");
+
+describe("useCountdown", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("expect time left when a target is set", () => {
+    const { result } = renderHook(() => useCountdown(NOW + 5000));
+
+    expect(result.current).toBe(5000);
+  });
+
+  it("expect time left to go down every second when time passes", () => {
+    const { result } = renderHook(() => useCountdown(NOW + 5000));
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(result.current).toBe(3000);
+  });
+
+  it("expect zero when the target has passed", () => {
+    const { result } = renderHook(() => useCountdown(NOW + 1000));
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+
+    expect(result.current).toBe(0);
+  });
+
+  it("expect null when there is no target", () => {
+    const { result } = renderHook(() => useCountdown(undefined));
+
+    expect(result.current).toBeNull();
+  });
+
+  it("expect the timer to stop when unmounted", () => {
+    const { unmount } = renderHook(() => useCountdown(NOW + 5000));
+
+    unmount();
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
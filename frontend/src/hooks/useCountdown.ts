@@ -0,0 +1,25 @@
+/**
+ * useCountdown Hook - Time Left Until an Order Event
+ *
+ * Ticks once a second while a target time is set, so the ticket can show how
+ * long is left until the order starts or expires.
+ *
+ * Used by: Countdown (OrderFooter start/expiry countdowns).
+ *
+ * @example
+ * const remaining = useCountdown(expiryEndTime); // ms left, null when no target
+ */
+
+import { useNow } from "./useNow";
+
+/**
+ * Milliseconds left until a target time.
+ *
+ * @param targetTime - Epoch ms to count down to (undefined = nothing to count down)
+ * @returns Remaining ms (0 once reached), or null when there is no target
+ */
+export function useCountdown(targetTime: number | undefined): number | null {
+  const now = useNow(targetTime !== undefined);
+
+  return targetTime === undefined ? null : Math.max(0, targetTime - now);
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { act, renderHook } from "@testing-library/react";
+
+import type { ExecutionReportGQL } from "../graphql/types";
+
+import { useExecutionReports } from "./useExecutionReports";
+
+// Mock the store
+vi.mock("../store", () => ({
+  useOrderEntryStore: vi.fn(),
+}));
+
+// Mock Apollo client
+vi.mock("@apollo/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@apollo/client")>();
+  return {
+    ...actual,
+    useSubscription: vi.fn(),
+  };
+});
+
+import { useSubscription } from "@apollo/client";
+
+import { useOrderEntryStore } from "../store";
+
+const report = (orderId: string, fillId: string): ExecutionReportGQL => ({
+  fillId,
+  orderId,
+  quantity: 100000,
+  price: 1.2745,
+  ccy: "GBP",
+  venue: "FLOAT_POOL",
+  timestamp: 1_700_000_000_000,
+});
+
+describe("useExecutionReports", () => {
+  let state: { editMode: string; currentOrderId: string | null };
+  let options: Parameters<typeof useSubscription>[1];
+
+  /** Delivers a subscription payload through the captured onData callback */
+  const deliver = (executionReports: ExecutionReportGQL | undefined) =>
+    act(() => {
+      options?.onData?.({ data: { data: executionReports && { executionReports } } } as never);
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    state = { editMode: "viewing", currentOrderId: "ORD-1" };
+    vi.mocked(useOrderEntryStore).mockImplementation((selector) => selector(state as never));
+
+    vi.mocked(useSubscription).mockImplementation((_query, opts) => {
+      options = opts;
+      return { data: undefined } as never;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("expect a subscription for the current order when viewing", () => {
+    renderHook(() => useExecutionReports());
+
+    expect(useSubscription).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        variables: { orderId: "ORD-1" },
+        skip: false,
+        fetchPolicy: "no-cache",
+      })
+    );
+  });
+
+  it("expect the subscription to be skipped when not viewing", () => {
+    state.editMode = "creating";
+
+    const { result } = renderHook(() => useExecutionReports());
+
+    expect(useSubscription).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ skip: true })
+    );
+    expect(result.current).toEqual([]);
+  });
+
+  it("expect the subscription to be skipped when there is no current order", () => {
+    state.currentOrderId = null;
+
+    renderHook(() => useExecutionReports());
+
+    expect(useSubscription).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ skip: true })
+    );
+  });
+
+  it("expect fills to accumulate as they arrive", () => {
+    const { result } = renderHook(() => useExecutionReports());
+
+    deliver(report("ORD-1", "OMS-1-F1"));
+    deliver(report("ORD-1", "OMS-1-F2"));
+
+    expect(result.current.map((r) => r.fillId)).toEqual(["OMS-1-F1", "OMS-1-F2"]);
+  });
+
+  it("expect replayed fills to be ignored", () => {
+    const { result } = renderHook(() => useExecutionReports());
+
+    deliver(report("ORD-1", "OMS-1-F1"));
+    deliver(report("ORD-1", "OMS-1-F1"));
+
+    expect(result.current).toHaveLength(1);
+  });
+
+  it("expect payloads without a report to be ignored", () => {
+    const { result } = renderHook(() => useExecutionReports());
+
+    deliver(undefined);
+
+    expect(result.current).toEqual([]);
+  });
+
+  it("expect the previous order's fills to be dropped when another order is shown", () => {
+    const { result, rerender } = renderHook(() => useExecutionReports());
+    deliver(report("ORD-1", "OMS-1-F1"));
+
+    state.currentOrderId = "ORD-2";
+    rerender();
+    expect(result.current).toEqual([]);
+
+    deliver(report("ORD-2", "OMS-2-F1"));
+    expect(result.current.map((r) => r.fillId)).toEqual(["OMS-2-F1"]);
+  });
+
+  it("expect no fills returned once the ticket leaves viewing mode", () => {
+    const { result, rerender } = renderHook(() => useExecutionReports());
+    deliver(report("ORD-1", "OMS-1-F1"));
+
+    state.editMode = "amending";
+    rerender();
+
+    expect(result.current).toEqual([]);
+  });
+
+  it("expect error to be logged when the subscription fails", () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const error = new Error("Network error");
+    renderHook(() => useExecutionReports());
+
+    options?.onError?.(error as never);
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "[useExecutionReports] Execution reports subscription error:",
+      error
+    );
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * useExecutionReports Hook
+ *
+ * Collects the per-fill execution reports (EXECUTION_REPORTS_SUBSCRIPTION) for
+ * the order on the ticket.
+ *
+ * Responsibilities:
+ * 1. Subscribe only in viewing mode, when there is a current order
+ * 2. Append each fill as it arrives, ignoring fills already held (the server
+ *    replays every fill so far whenever the subscription starts)
+ * 3. Drop the reports of the previous order when the ticket shows another one
+ *
+ * Used by: FillsTable.
+ */
+
+import { useState } from "react";
+
+import { useSubscription } from "@apollo/client";
+
+import { EXECUTION_REPORTS_SUBSCRIPTION } from "../graphql/subscriptions";
+import type { ExecutionReportGQL, ExecutionReportsSubscriptionResponse } from "../graphql/types";
+import { useOrderEntryStore } from "../store";
+import { addExecutionReport } from "../utils/executionReports";
+
+/** Reports collected so far, tagged with the order they belong to */
+interface CollectedReports {
+  orderId: string | null;
+  reports: ExecutionReportGQL[];
+}
+
+export const useExecutionReports = (): ExecutionReportGQL[] => {
+  const editMode = useOrderEntryStore((s) => s.editMode);
+  const currentOrderId = useOrderEntryStore((s) => s.currentOrderId);
+
+  const [collected, setCollected] = useState<CollectedReports>({ orderId: null, reports: [] });
+
+  const skip = editMode !== "viewing" || !currentOrderId;
+
+  useSubscription<ExecutionReportsSubscriptionResponse>(EXECUTION_REPORTS_SUBSCRIPTION, {
+    variables: { orderId: currentOrderId },
+    skip,
+    fetchPolicy: "no-cache",
+    onData: ({ data }) => {
+      const report = data.data?.executionReports;
+      if (!report) return;
+      setCollected((prev) =>
+        prev.orderId === report.orderId
+          ? { orderId: prev.orderId, reports: addExecutionReport(prev.reports, report) }
+          : { orderId: report.orderId, reports: [report] }
+      );
+    },
+    // Non-blocking: the ticket keeps working without the fills table
+    onError: (err) => {
+      console.error("[useExecutionReports] Execution reports subscription error:", err);
+    },
+  });
+
+  return !skip && collected.orderId === currentOrderId ? collected.reports : [];
+};
@@ -0,0 +1,51 @@
+/**
+ * Unit Tests for useNow Hook
+ *
+ * Tests the once-a-second ticking clock.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { act, renderHook } from "@testing-library/react";
+
+import { useNow } from "./useNow";
+
+const NOW = Date.parse("2026-10-21T12:00:00Z");
+
+describe("useNow", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("expect the current time when first rendered", () => {
+    const { result } = renderHook(() => useNow());
+
+    expect(result.current).toBe(NOW);
+  });
+
+  it("expect the time to move on every second when active", () => {
+    const { result } = renderHook(() => useNow());
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+
+    expect(result.current).toBe(NOW + 3000);
+  });
+
+  it("expect the time to stay put when inactive", () => {
+    const { result } = renderHook(() => useNow(false));
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+
+    expect(result.current).toBe(NOW);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * useNow Hook - Ticking Clock
+ *
+ * Current time, refreshed once a second while active, for displays that move
+ * with the clock (countdowns, execution progress).
+ *
+ * Used by: useCountdown, TwapProgress.
+ *
+ * @example
+ * const now = useNow(isWorking); // stops ticking once the order is done
+ */
+
+import { useEffect, useState } from "react";
+
+const TICK_MS = 1000;
+
+/**
+ * Current epoch ms, updated every second while active.
+ *
+ * @param active - Whether to keep ticking (default true)
+ * @returns Epoch ms as of the last tick
+ */
+export function useNow(active = true): number {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  return now;
+}
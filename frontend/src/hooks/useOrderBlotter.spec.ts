@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { renderHook } from "@testing-library/react";
+
+import type { OrderDataGQL } from "../graphql/types";
+
+import { useOrderBlotter } from "./useOrderBlotter";
+
+// Mock the store
+vi.mock("../store", () => ({
+  useOrderEntryStore: vi.fn(),
+}));
+
+// Mock Apollo client
+vi.mock("@apollo/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@apollo/client")>();
+  return {
+    ...actual,
+    useQuery: vi.fn(),
+    useSubscription: vi.fn(),
+  };
+});
+
+import { useQuery, useSubscription } from "@apollo/client";
+
+import { useOrderEntryStore } from "../store";
+
+const order = { orderId: "ORD-1" } as OrderDataGQL;
+
+describe("useOrderBlotter", () => {
+  const mockMergeBlotterSnapshot = vi.fn();
+  const mockUpsertBlotterOrder = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(useOrderEntryStore).mockImplementation((selector) => {
+      const state = {
+        mergeBlotterSnapshot: mockMergeBlotterSnapshot,
+        upsertBlotterOrder: mockUpsertBlotterOrder,
+      };
+      return selector(state as never);
+    });
+
+    vi.mocked(useQuery).mockReturnValue({ data: undefined, error: undefined } as never);
+    vi.mocked(useSubscription).mockReturnValue({ data: undefined } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("initial orders query", () => {
+    it("expect orders query to be network-only when hook mounts", () => {
+      renderHook(() => useOrderBlotter());
+
+      expect(useQuery).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ fetchPolicy: "network-only", variables: { filter: null } })
+      );
+    });
+
+    it("expect mergeBlotterSnapshot to be called when query data arrives", () => {
+      vi.mocked(useQuery).mockReturnValue({ data: { orders: [order] }, error: undefined } as never);
+
+      renderHook(() => useOrderBlotter());
+
+      expect(mockMergeBlotterSnapshot).toHaveBeenCalledWith([order]);
+    });
+
+    it("expect mergeBlotterSnapshot not to be called when query has no data", () => {
+      renderHook(() => useOrderBlotter());
+
+      expect(mockMergeBlotterSnapshot).not.toHaveBeenCalled();
+    });
+
+    it("expect error to be logged when query fails", () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const error = new Error("Network error");
+      vi.mocked(useQuery).mockReturnValue({ data: undefined, error } as never);
+
+      renderHook(() => useOrderBlotter());
+
+      expect(consoleSpy).toHaveBeenCalledWith("[useOrderBlotter] Orders query error:", error);
+    });
+  });
+
+  describe("orders stream subscription", () => {
+    it("expect subscription to use no-cache when hook mounts", () => {
+      renderHook(() => useOrderBlotter());
+
+      expect(useSubscription).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ fetchPolicy: "no-cache", variables: { filter: null } })
+      );
+    });
+
+    it("expect upsertBlotterOrder to be called when stream emits an order", () => {
+      vi.mocked(useSubscription).mockImplementation((_query, options) => {
+        options?.onData?.({ data: { data: { ordersStream: order } } } as never);
+        return { data: undefined } as never;
+      });
+
+      renderHook(() => useOrderBlotter());
+
+      expect(mockUpsertBlotterOrder).toHaveBeenCalledWith(order);
+    });
+
+    it("expect upsertBlotterOrder not to be called when stream emits no order", () => {
+      vi.mocked(useSubscription).mockImplementation((_query, options) => {
+        options?.onData?.({ data: { data: undefined } } as never);
+        return { data: undefined } as never;
+      });
+
+      renderHook(() => useOrderBlotter());
+
+      expect(mockUpsertBlotterOrder).not.toHaveBeenCalled();
+    });
+
+    it("expect error to be logged when stream fails", () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const error = new Error("Stream error");
+      vi.mocked(useSubscription).mockImplementation((_query, options) => {
+        options?.onError?.(error as never);
+        return { data: undefined } as never;
+      });
+
+      renderHook(() => useOrderBlotter());
+
+      expect(consoleSpy).toHaveBeenCalledWith("[useOrderBlotter] Orders stream error:", error);
+    });
+  });
+});
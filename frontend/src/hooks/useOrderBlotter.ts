@@ -0,0 +1,62 @@
+/**
+ * useOrderBlotter Hook
+ *
+ * Loads every order for the blotter and keeps the list live.
+ *
+ * Responsibilities:
+ * 1. Fetch the initial order list via ORDERS_QUERY (network-only, never stale)
+ * 2. Subscribe to ORDERS_STREAM_SUBSCRIPTION for new orders and status/fill updates
+ * 3. Write both into the BlotterSlice (mergeBlotterSnapshot / upsertBlotterOrder); stream
+ *    updates that arrive before the snapshot are kept, not overwritten
+ *
+ * Used by: App.tsx (the OrderBlotter organism only reads from the store)
+ */
+
+import { useEffect } from "react";
+
+import { useQuery, useSubscription } from "@apollo/client";
+
+import { ORDERS_QUERY } from "../graphql/queries";
+import { ORDERS_STREAM_SUBSCRIPTION } from "../graphql/subscriptions";
+import type { OrdersQueryResponse, OrdersStreamSubscriptionResponse } from "../graphql/types";
+import { useOrderEntryStore } from "../store";
+
+export const useOrderBlotter = () => {
+  const mergeBlotterSnapshot = useOrderEntryStore((s) => s.mergeBlotterSnapshot);
+  const upsertBlotterOrder = useOrderEntryStore((s) => s.upsertBlotterOrder);
+
+  // Initial snapshot of all orders
+  const { data: ordersData, error: ordersError } = useQuery<OrdersQueryResponse>(ORDERS_QUERY, {
+    variables: { filter: null },
+    fetchPolicy: "network-only",
+  });
+
+  // Live updates: new orders, status changes and fills
+  useSubscription<OrdersStreamSubscriptionResponse>(ORDERS_STREAM_SUBSCRIPTION, {
+    variables: { filter: null },
+    fetchPolicy: "no-cache",
+    onData: ({ data }) => {
+      const order = data.data?.ordersStream;
+      if (order) {
+        upsertBlotterOrder(order);
+      }
+    },
+    onError: (err) => {
+      console.error("[useOrderBlotter] Orders stream error:", err);
+    },
+  });
+
+  // Merge the initial snapshot when the query completes
+  useEffect(() => {
+    if (ordersData?.orders) {
+      mergeBlotterSnapshot(ordersData.orders);
+    }
+  }, [ordersData, mergeBlotterSnapshot]);
+
+  // Non-blocking: the ticket keeps working without the blotter
+  useEffect(() => {
+    if (ordersError) {
+      console.error("[useOrderBlotter] Orders query error:", ordersError);
+    }
+  }, [ordersError]);
+};
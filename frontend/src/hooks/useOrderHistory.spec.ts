@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { renderHook } from "@testing-library/react";
+
+import type { OrderDataGQL, OrderHistoryEntryGQL } from "../graphql/types";
+
+import { useOrderHistory } from "./useOrderHistory";
+
+// Mock the store
+vi.mock("../store", () => ({
+  useOrderEntryStore: vi.fn(),
+}));
+
+// Mock Apollo client
+vi.mock("@apollo/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@apollo/client")>();
+  return {
+    ...actual,
+    useQuery: vi.fn(),
+  };
+});
+
+import { useQuery } from "@apollo/client";
+
+import { useOrderEntryStore } from "../store";
+
+const entry = { orderId: "ORD-1", version: 1, type: "CREATED" } as OrderHistoryEntryGQL;
+
+describe("useOrderHistory", () => {
+  const mockRefetch = vi.fn();
+  let state: {
+    editMode: string;
+    currentOrderId: string | null;
+    blotterOrders: OrderDataGQL[];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    state = {
+      editMode: "viewing",
+      currentOrderId: "ORD-1",
+      blotterOrders: [{ orderId: "ORD-1" } as OrderDataGQL],
+    };
+
+    vi.mocked(useOrderEntryStore).mockImplementation((selector) => selector(state as never));
+
+    vi.mocked(useQuery).mockReturnValue({
+      data: { orderHistory: [entry] },
+      loading: false,
+      error: undefined,
+      refetch: mockRefetch,
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("expect history query for the current order when viewing", () => {
+    const { result } = renderHook(() => useOrderHistory());
+
+    expect(useQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        variables: { orderId: "ORD-1" },
+        skip: false,
+        fetchPolicy: "network-only",
+      })
+    );
+    expect(result.current).toEqual({ entries: [entry], loading: false });
+  });
+
+  it("expect query to be skipped and no entries when not viewing", () => {
+    state.editMode = "creating";
+
+    const { result } = renderHook(() => useOrderHistory());
+
+    expect(useQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ skip: true })
+    );
+    expect(result.current).toEqual({ entries: [], loading: false });
+  });
+
+  it("expect query to be skipped when there is no current order", () => {
+    state.currentOrderId = null;
+
+    renderHook(() => useOrderHistory());
+
+    expect(useQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ skip: true })
+    );
+  });
+
+  it("expect empty entries while the query has no data", () => {
+    vi.mocked(useQuery).mockReturnValue({
+      data: undefined,
+      loading: true,
+      error: undefined,
+      refetch: mockRefetch,
+    } as never);
+
+    const { result } = renderHook(() => useOrderHistory());
+
+    expect(result.current).toEqual({ entries: [], loading: true });
+  });
+
+  it("expect no refetch on mount", () => {
+    renderHook(() => useOrderHistory());
+
+    expect(mockRefetch).not.toHaveBeenCalled();
+  });
+
+  it("expect refetch when the blotter copy of the order changes", () => {
+    const { rerender } = renderHook(() => useOrderHistory());
+
+    state.blotterOrders = [{ orderId: "ORD-1" } as OrderDataGQL];
+    rerender();
+
+    expect(mockRefetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("expect no refetch when the order change arrives outside viewing mode", () => {
+    const { rerender } = renderHook(() => useOrderHistory());
+
+    state.editMode = "amending";
+    state.blotterOrders = [{ orderId: "ORD-1" } as OrderDataGQL];
+    rerender();
+
+    expect(mockRefetch).not.toHaveBeenCalled();
+  });
+
+  it("expect no refetch when the order leaves the blotter", () => {
+    const { rerender } = renderHook(() => useOrderHistory());
+
+    state.blotterOrders = [];
+    rerender();
+
+    expect(mockRefetch).not.toHaveBeenCalled();
+  });
+
+  it("expect error to be logged when the query fails", () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const error = new Error("Network error");
+    vi.mocked(useQuery).mockReturnValue({
+      data: undefined,
+      loading: false,
+      error,
+      refetch: mockRefetch,
+    } as never);
+
+    renderHook(() => useOrderHistory());
+
+    expect(consoleSpy).toHaveBeenCalledWith("[useOrderHistory] Order history query error:", error);
+  });
+});
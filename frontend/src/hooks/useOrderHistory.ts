@@ -0,0 +1,60 @@
+/**
+ * useOrderHistory Hook
+ *
+ * Loads the audit trail (ORDER_HISTORY_QUERY) for the order on the ticket.
+ *
+ * Responsibilities:
+ * 1. Query history only in viewing mode, when there is a current order
+ * 2. Refetch whenever the blotter copy of that order changes (ORDERS_STREAM
+ *    pushes every create/amend/fill/status change), so the timeline stays live
+ *
+ * Used by: OrderHistoryPanel.
+ */
+
+import { useEffect, useRef } from "react";
+
+import { useQuery } from "@apollo/client";
+
+import { ORDER_HISTORY_QUERY } from "../graphql/queries";
+import type { OrderHistoryEntryGQL, OrderHistoryQueryResponse } from "../graphql/types";
+import { useOrderEntryStore } from "../store";
+
+export const useOrderHistory = (): { entries: OrderHistoryEntryGQL[]; loading: boolean } => {
+  const editMode = useOrderEntryStore((s) => s.editMode);
+  const currentOrderId = useOrderEntryStore((s) => s.currentOrderId);
+
+  // New object on every stream update for this order
+  const orderSnapshot = useOrderEntryStore((s) =>
+    s.blotterOrders.find((o) => o.orderId === s.currentOrderId)
+  );
+
+  const skip = editMode !== "viewing" || !currentOrderId;
+
+  const { data, loading, error, refetch } = useQuery<OrderHistoryQueryResponse>(
+    ORDER_HISTORY_QUERY,
+    {
+      variables: { orderId: currentOrderId },
+      skip,
+      fetchPolicy: "network-only",
+    }
+  );
+
+  // Initial fetch is done by useQuery; refetch only on later changes
+  const lastSnapshotRef = useRef(orderSnapshot);
+  useEffect(() => {
+    if (lastSnapshotRef.current === orderSnapshot) return;
+    lastSnapshotRef.current = orderSnapshot;
+    if (!skip && orderSnapshot) {
+      refetch();
+    }
+  }, [orderSnapshot, skip, refetch]);
+
+  // Non-blocking: the ticket keeps working without history
+  useEffect(() => {
+    if (error) {
+      console.error("[useOrderHistory] Order history query error:", error);
+    }
+  }, [error]);
+
+  return { entries: skip ? [] : (data?.orderHistory ?? []), loading: !skip && loading };
+};
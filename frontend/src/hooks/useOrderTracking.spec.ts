@@ -24,6 +24,7 @@ import { useOrderEntryStore } from "../store";
 
 describe("useOrderTracking", () => {
   const mockSetOrderStatus = vi.fn();
+  const mockSetOrderExecution = vi.fn();
   const mockSetToast = vi.fn();
 
   beforeEach(() => {
@@ -33,6 +34,7 @@ describe("useOrderTracking", () => {
       const state = {
         currentOrderId: null,
         setOrderStatus: mockSetOrderStatus,
+        setOrderExecution: mockSetOrderExecution,
         setToast: mockSetToast,
       };
       return selector(state as never);
@@ -67,6 +69,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -89,6 +92,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -106,11 +110,12 @@ describe("useOrderTracking", () => {
   });
 
   describe("order status updates", () => {
-    it("expect setOrderStatus to be called when orderData updates with WORKING status", () => {
+    it("expect setOrderStatus to be called when orderData updates with LIVE status", () => {
       vi.mocked(useOrderEntryStore).mockImplementation((selector) => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -124,8 +129,9 @@ describe("useOrderTracking", () => {
           return {
             data: {
               orderData: {
+                orderId: "ORDER-123",
                 execution: {
-                  status: "WORKING",
+                  status: "LIVE",
                 },
               },
             },
@@ -142,7 +148,8 @@ describe("useOrderTracking", () => {
 
       renderHook(() => useOrderTracking());
 
-      expect(mockSetOrderStatus).toHaveBeenCalledWith("WORKING");
+      expect(mockSetOrderStatus).toHaveBeenCalledWith("LIVE");
+      expect(mockSetToast).not.toHaveBeenCalled();
     });
 
     it("expect success toast when order status is FILLED", () => {
@@ -150,6 +157,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -162,6 +170,7 @@ describe("useOrderTracking", () => {
           return {
             data: {
               orderData: {
+                orderId: "ORDER-123",
                 execution: {
                   status: "FILLED",
                 },
@@ -192,6 +201,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -204,6 +214,7 @@ describe("useOrderTracking", () => {
           return {
             data: {
               orderData: {
+                orderId: "ORDER-123",
                 execution: {
                   status: "CANCELLED",
                 },
@@ -234,6 +245,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -246,6 +258,7 @@ describe("useOrderTracking", () => {
           return {
             data: {
               orderData: {
+                orderId: "ORDER-123",
                 execution: {
                   status: "REJECTED",
                   rejectReason: "Insufficient funds",
@@ -277,6 +290,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -289,6 +303,7 @@ describe("useOrderTracking", () => {
           return {
             data: {
               orderData: {
+                orderId: "ORDER-123",
                 execution: {
                   status: "REJECTED",
                 },
@@ -314,12 +329,178 @@ describe("useOrderTracking", () => {
     });
   });
 
+  describe("lifecycle statuses", () => {
+    // ORDER_SUBSCRIPTION is the odd-numbered call, ORDER_FAILURE_SUBSCRIPTION the even one
+    let orderUpdate:
+      | {
+          orderData: {
+            orderId: string;
+            order?: { amount: { amount: number; ccy: string } };
+            execution: { status: string; filled?: { amount: number; ccy: string } };
+          };
+        }
+      | undefined;
+
+    let currentOrderId: string;
+
+    beforeEach(() => {
+      orderUpdate = undefined;
+      currentOrderId = "ORDER-123";
+      vi.mocked(useOrderEntryStore).mockImplementation((selector) => {
+        const state = {
+          currentOrderId,
+          setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
+          setToast: mockSetToast,
+        };
+        return selector(state as never);
+      });
+
+      let callCount = 0;
+      vi.mocked(useSubscription).mockImplementation(() => {
+        callCount++;
+        return {
+          data: callCount % 2 === 1 ? orderUpdate : undefined,
+          loading: false,
+          error: undefined,
+        } as never;
+      });
+    });
+
+    const emit = (status: string, orderId = "ORDER-123") => {
+      orderUpdate = { orderData: { orderId, execution: { status } } };
+    };
+
+    it.each([
+      "PENDING_LIVE",
+      "PENDING_FILL",
+      "PENDING_CANCEL",
+      "PENDING_SUSPEND",
+      "PENDING_RESUME",
+    ])("expect no toast when order enters intermediate status %s", (status) => {
+      emit(status);
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetOrderStatus).toHaveBeenCalledWith(status);
+      expect(mockSetToast).not.toHaveBeenCalled();
+    });
+
+    it("expect info toast when order status is LIVE_SUSPENDED", () => {
+      emit("LIVE_SUSPENDED");
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetToast).toHaveBeenCalledWith({ type: "info", text: "Order Suspended" });
+    });
+
+    it("expect info toast when order status is EXPIRED", () => {
+      emit("EXPIRED");
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetToast).toHaveBeenCalledWith({ type: "info", text: "Order Expired" });
+    });
+
+    it("expect filled and ordered amounts in the toast when the order expires part-filled", () => {
+      orderUpdate = {
+        orderData: {
+          orderId: "ORDER-123",
+          order: { amount: { amount: 5000000, ccy: "GBP" } },
+          execution: { status: "EXPIRED", filled: { amount: 1250000, ccy: "GBP" } },
+        },
+      };
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetToast).toHaveBeenCalledWith({
+        type: "info",
+        text: "Order Expired: 1.3M of 5M GBP filled",
+      });
+    });
+
+    it("expect the execution to be stored when orderData updates", () => {
+      orderUpdate = {
+        orderData: {
+          orderId: "ORDER-123",
+          execution: { status: "LIVE", filled: { amount: 250000, ccy: "GBP" } },
+        },
+      };
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetOrderExecution).toHaveBeenCalledWith({
+        status: "LIVE",
+        filled: { amount: 250000, ccy: "GBP" },
+      });
+    });
+
+    it("expect filled amount only when the order amount is missing", () => {
+      orderUpdate = {
+        orderData: {
+          orderId: "ORDER-123",
+          execution: { status: "EXPIRED", filled: { amount: 250000, ccy: "EUR" } },
+        },
+      };
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetToast).toHaveBeenCalledWith({
+        type: "info",
+        text: "Order Expired: 250K EUR filled",
+      });
+    });
+
+    it("expect toast only once when the same status is emitted again", () => {
+      emit("LIVE_SUSPENDED");
+      const { rerender } = renderHook(() => useOrderTracking());
+
+      emit("LIVE_SUSPENDED");
+      rerender();
+
+      expect(mockSetOrderStatus).toHaveBeenCalledTimes(2);
+      expect(mockSetToast).toHaveBeenCalledTimes(1);
+    });
+
+    it("expect toast again when the same status is emitted for a different order", () => {
+      emit("FILLED");
+      const { rerender } = renderHook(() => useOrderTracking());
+
+      currentOrderId = "ORDER-456";
+      emit("FILLED", "ORDER-456");
+      rerender();
+
+      expect(mockSetToast).toHaveBeenCalledTimes(2);
+    });
+
+    it("expect a late event for the previous order to be ignored", () => {
+      currentOrderId = "ORDER-456";
+      emit("FILLED", "ORDER-123");
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetOrderStatus).not.toHaveBeenCalled();
+      expect(mockSetOrderExecution).not.toHaveBeenCalled();
+      expect(mockSetToast).not.toHaveBeenCalled();
+    });
+
+    it("expect status stored without a toast when it is not part of the OrderStatus enum", () => {
+      emit("WORKING");
+
+      renderHook(() => useOrderTracking());
+
+      expect(mockSetOrderStatus).toHaveBeenCalledWith("WORKING");
+      expect(mockSetToast).not.toHaveBeenCalled();
+    });
+  });
+
   describe("order failure handling", () => {
     it("expect error toast when order failure subscription returns data", () => {
       vi.mocked(useOrderEntryStore).mockImplementation((selector) => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -365,6 +546,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -391,6 +573,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -434,6 +617,7 @@ describe("useOrderTracking", () => {
         const state = {
           currentOrderId: "ORDER-123",
           setOrderStatus: mockSetOrderStatus,
+          setOrderExecution: mockSetOrderExecution,
           setToast: mockSetToast,
         };
         return selector(state as never);
@@ -6,29 +6,41 @@
  *
  * Responsibilities:
  * 1. Subscribe to orderData when currentOrderId is set
- * 2. Update orderStatus in store with real-time execution status
- * 3. Handle order failures and show error toasts
- * 4. Automatically unsubscribe when order reaches terminal state (FILLED/CANCELLED)
+ * 2. Update orderStatus and orderExecution in store with real-time execution data
+ *    (only for currentOrderId: late events for a previous order are ignored)
+ * 3. Toast once per status change, using ORDER_STATUS_CONFIG (intermediate statuses
+ *    such as PENDING_LIVE / PENDING_CANCEL are tracked silently)
+ *    (EXPIRED says how much had filled when the order expired part-filled)
+ * 4. Handle order failures and show error toasts
+ * 5. Server completes the subscription once the order reaches a terminal status
  *
  * Used by: App.tsx or OrderForm.tsx
  */
 
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 
 import { useSubscription } from "@apollo/client";
 
+import { getOrderStatusConfig } from "../config/orderStatus";
 import { ORDER_FAILURE_SUBSCRIPTION, ORDER_SUBSCRIPTION } from "../graphql/subscriptions";
 import type {
   OrderDataSubscriptionResponse,
   OrderFailureSubscriptionResponse,
 } from "../graphql/types";
 import { useOrderEntryStore } from "../store";
+import { OrderStatus } from "../types/domain";
+import { formatCompactAmount } from "../utils/numberFormats";
+import { mapExecution } from "../utils/orderMappers";
 
 export const useOrderTracking = () => {
   const currentOrderId = useOrderEntryStore((s) => s.currentOrderId);
   const setOrderStatus = useOrderEntryStore((s) => s.setOrderStatus);
+  const setOrderExecution = useOrderEntryStore((s) => s.setOrderExecution);
   const setToast = useOrderEntryStore((s) => s.setToast);
 
+  // Last status seen per order ("orderId:status"), so fill updates don't repeat toasts
+  const lastStatusKey = useRef<string | null>(null);
+
   // Subscribe to order data updates
   const orderSubscription = useSubscription<OrderDataSubscriptionResponse>(ORDER_SUBSCRIPTION, {
     variables: { orderId: currentOrderId },
@@ -71,30 +83,43 @@ export const useOrderTracking = () => {
 
   // Update order status when data arrives
   useEffect(() => {
-    if (orderData?.orderData) {
-      const status = orderData.orderData.execution.status;
+    // A late event for the previous order must not overwrite the ticket after
+    // the user switches orders
+    if (orderData?.orderData && orderData.orderData.orderId === currentOrderId) {
+      const { orderId, execution } = orderData.orderData;
+      const status = execution.status;
       setOrderStatus(status);
+      setOrderExecution(mapExecution(execution));
+
+      const statusKey = `${orderId}:${status}`;
+      if (lastStatusKey.current === statusKey) return;
+      lastStatusKey.current = statusKey;
+
+      // Unknown statuses are still stored, just without a toast
+      const config = getOrderStatusConfig(status);
+      if (!config) return;
 
-      // Show toast for terminal states
-      if (status === "FILLED") {
+      // Rejections carry their own reason
+      if (status === OrderStatus.REJECTED) {
+        const reason = execution.rejectReason || "Unknown reason";
         setToast({
-          type: "success",
-          text: "Order Filled Successfully!",
+          type: "error",
+          text: `Order Rejected: ${reason}`,
         });
-      } else if (status === "CANCELLED") {
+      } else if (status === OrderStatus.EXPIRED && execution.filled?.amount) {
+        const { filled } = execution;
+        const ordered = orderData.orderData.order?.amount.amount;
         setToast({
           type: "info",
-          text: "Order Cancelled",
-        });
-      } else if (status === "REJECTED") {
-        const reason = orderData.orderData.execution.rejectReason || "Unknown reason";
-        setToast({
-          type: "error",
-          text: `Order Rejected: ${reason}`,
+          text: `Order Expired: ${formatCompactAmount(filled.amount)}${
+            ordered ? ` of ${formatCompactAmount(ordered)}` : ""
+          } ${filled.ccy} filled`,
         });
+      } else if (config.toast) {
+        setToast(config.toast);
       }
     }
-  }, [orderData, setOrderStatus, setToast]);
+  }, [orderData, currentOrderId, setOrderStatus, setOrderExecution, setToast]);
 
   // Handle order failures
   useEffect(() => {
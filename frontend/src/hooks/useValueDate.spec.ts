@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { renderHook } from "@testing-library/react";
+
+import type { CurrencyPairDetailGQL } from "../graphql/types";
+import type { CurrencyPair } from "../types/domain";
+
+import { useValueDate } from "./useValueDate";
+
+// Mock the store
+vi.mock("../store", () => ({
+  useOrderEntryStore: vi.fn(),
+}));
+
+// Mock Apollo client
+vi.mock("@apollo/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@apollo/client")>();
+  return {
+    ...actual,
+    useQuery: vi.fn(),
+  };
+});
+
+import { useQuery } from "@apollo/client";
+
+import { useOrderEntryStore } from "../store";
+
+const detail = {
+  id: "GBPUSD_false_true_false_true",
+  symbol: "GBPUSD",
+  tradeDate: "2026-10-19",
+  spotLag: 2,
+  spotDate: "2026-10-21",
+  tenorInfos: [
+    { tenorCode: "SPOT", valueDate: "2026-10-21" },
+    { tenorCode: "1M", valueDate: "2026-11-23" },
+  ],
+} as CurrencyPairDetailGQL;
+
+describe("useValueDate", () => {
+  let derived: { currencyPair: string; tenor?: string };
+  let state: {
+    getDerivedValues: () => typeof derived;
+    currencyPairs: CurrencyPair[];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    derived = { currencyPair: "GBPUSD" };
+    state = {
+      getDerivedValues: () => derived,
+      currencyPairs: [
+        { id: "GBPUSD_false_true_false_true", symbol: "GBPUSD", defaultTenor: "SPOT" },
+      ] as CurrencyPair[],
+    };
+
+    vi.mocked(useOrderEntryStore).mockImplementation((selector) => selector(state as never));
+
+    vi.mocked(useQuery).mockReturnValue({
+      data: { currencyPair: detail },
+      error: undefined,
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("expect value dates to be queried for the selected pair", () => {
+    renderHook(() => useValueDate());
+
+    expect(useQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        variables: { currencyPairId: "GBPUSD_false_true_false_true" },
+        skip: false,
+        fetchPolicy: "network-only",
+      })
+    );
+  });
+
+  it("expect the pair's default tenor when the order has no tenor", () => {
+    const { result } = renderHook(() => useValueDate());
+
+    expect(result.current).toEqual({ tenor: "SPOT", valueDate: "2026-10-21" });
+  });
+
+  it("expect the order's tenor when set", () => {
+    derived.tenor = "1M";
+
+    const { result } = renderHook(() => useValueDate());
+
+    expect(result.current).toEqual({ tenor: "1M", valueDate: "2026-11-23" });
+  });
+
+  it("expect null value date when the tenor has no entry", () => {
+    derived.tenor = "ON";
+
+    const { result } = renderHook(() => useValueDate());
+
+    expect(result.current).toEqual({ tenor: "ON", valueDate: null });
+  });
+
+  it("expect query to be skipped and SPOT with no date when the pair is unknown", () => {
+    derived.currencyPair = "XXXYYY";
+
+    const { result } = renderHook(() => useValueDate());
+
+    expect(useQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ skip: true })
+    );
+    expect(result.current).toEqual({ tenor: "SPOT", valueDate: null });
+  });
+
+  it("expect null value date while the query has no data", () => {
+    vi.mocked(useQuery).mockReturnValue({ data: undefined, error: undefined } as never);
+
+    const { result } = renderHook(() => useValueDate());
+
+    expect(result.current.valueDate).toBeNull();
+  });
+
+  it("expect error to be logged when the query fails", () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const error = new Error("Network error");
+    vi.mocked(useQuery).mockReturnValue({ data: undefined, error } as never);
+
+    renderHook(() => useValueDate());
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "[useValueDate] Currency pair info query error:",
+      error
+    );
+  });
+});
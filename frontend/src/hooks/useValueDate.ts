@@ -0,0 +1,58 @@
+/**
+ * useValueDate Hook
+ *
+ * Loads the settlement (value) date for the ticket's currency pair and tenor from
+ * CURRENCY_PAIR_INFO_QUERY. The server applies the FX value-date rules (spot lag,
+ * holiday calendars, end-of-month), so the ticket only picks the tenor's entry.
+ *
+ * Responsibilities:
+ * 1. Query value dates for the selected pair
+ * 2. Pick the order's tenor, falling back to the pair's default tenor
+ * 3. Poll so the dates move on after the 17:00 New York trade date roll
+ *
+ * Used by: ValueDate.
+ */
+
+import { useEffect } from "react";
+
+import { useQuery } from "@apollo/client";
+
+import { CURRENCY_PAIR_INFO_QUERY } from "../graphql/queries";
+import type { CurrencyPairInfoQueryResponse } from "../graphql/types";
+import { useOrderEntryStore } from "../store";
+
+const VALUE_DATE_POLL_MS = 60_000;
+
+export interface ValueDateInfo {
+  tenor: string;
+  /** Settlement date (YYYY-MM-DD), null until loaded */
+  valueDate: string | null;
+}
+
+export const useValueDate = (): ValueDateInfo => {
+  const pair = useOrderEntryStore((s) => {
+    const symbol = s.getDerivedValues().currencyPair;
+    return s.currencyPairs.find((cp) => cp.symbol === symbol);
+  });
+  const orderTenor = useOrderEntryStore((s) => s.getDerivedValues().tenor);
+
+  const tenor = orderTenor ?? pair?.defaultTenor ?? "SPOT";
+
+  const { data, error } = useQuery<CurrencyPairInfoQueryResponse>(CURRENCY_PAIR_INFO_QUERY, {
+    variables: { currencyPairId: pair?.id },
+    skip: !pair,
+    fetchPolicy: "network-only",
+    pollInterval: VALUE_DATE_POLL_MS,
+  });
+
+  // Non-blocking: the ticket works without the value date
+  useEffect(() => {
+    if (error) {
+      console.error("[useValueDate] Currency pair info query error:", error);
+    }
+  }, [error]);
+
+  const tenorInfo = data?.currencyPair.tenorInfos.find((info) => info.tenorCode === tenor);
+
+  return { tenor, valueDate: (pair && tenorInfo?.valueDate) || null };
+};
@@ -46,10 +46,12 @@ import { BoundState } from "../types/store";
 
 import { loggerMiddleware } from "./middleware/logger";
 import { createAppSlice } from "./slices/createAppSlice";
+import { createBlotterSlice } from "./slices/createBlotterSlice";
 import { createDefaultsSlice } from "./slices/createDefaultsSlice";
 import { createDerivedSlice } from "./slices/createDerivedSlice";
 import { createFdc3IntentSlice } from "./slices/createFdc3IntentSlice";
 import { createFieldOrderSlice } from "./slices/createFieldOrderSlice";
+import { createOrderActionsSlice } from "./slices/createOrderActionsSlice";
 import { createPriceSlice } from "./slices/createPriceSlice";
 import { createRefDataSlice } from "./slices/createRefDataSlice";
 import { createSubmissionSlice } from "./slices/createSubmissionSlice";
@@ -72,6 +74,8 @@ import { createValidationSlice } from "./slices/createValidationSlice";
  * - SubmissionSlice: Order submission and amendment logic
  * - PriceSlice: Current market prices (from TickingPrice)
  * - FieldOrderSlice: User's custom field ordering preferences
+ * - BlotterSlice: Every order in the blotter (ORDERS_QUERY + ORDERS_STREAM_SUBSCRIPTION)
+ * - OrderActionsSlice: Actions on live orders (cancel all for a pair)
  *
  * Middleware stack visualization:
  * loggerMiddleware(
@@ -102,6 +106,8 @@ export const useOrderEntryStore = create<BoundState>()(
         ...createSubmissionSlice(...a),
         ...createPriceSlice(...a),
         ...createFieldOrderSlice(...a),
+        ...createBlotterSlice(...a),
+        ...createOrderActionsSlice(...a),
       })),
       { name: "Order_Entry_Store" } // Name shown in Redux DevTools
     )
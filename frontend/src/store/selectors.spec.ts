@@ -203,6 +203,7 @@ describe("Store Selectors", () => {
           },
         ],
         entitledOrderTypes: [],
+        fixings: [],
       });
 
       const state = useOrderEntryStore.getState();
@@ -491,6 +492,7 @@ describe("Store Selectors", () => {
         pools: [],
         currencyPairs: [],
         entitledOrderTypes: [],
+        fixings: [],
       });
 
       const state = useOrderEntryStore.getState();
@@ -507,6 +509,7 @@ describe("Store Selectors", () => {
         pools: [{ name: "Test Pool", value: "POOL1" }],
         currencyPairs: [],
         entitledOrderTypes: [],
+        fixings: [],
       });
 
       const state = useOrderEntryStore.getState();
@@ -543,6 +546,7 @@ describe("Store Selectors", () => {
           },
         ],
         entitledOrderTypes: [],
+        fixings: [],
       });
 
       const state = useOrderEntryStore.getState();
@@ -559,6 +563,7 @@ describe("Store Selectors", () => {
         pools: [],
         currencyPairs: [],
         entitledOrderTypes: ["FLOAT", "STOP_LOSS"],
+        fixings: [],
       });
 
       const state = useOrderEntryStore.getState();
@@ -574,6 +579,7 @@ describe("Store Selectors", () => {
         pools: [],
         currencyPairs: [],
         entitledOrderTypes: [],
+        fixings: [],
       });
 
       const state = useOrderEntryStore.getState();
@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
+import { OrderStatus } from "../../types/domain";
 import { AppSlice } from "../../types/store";
 
 import { createAppSlice } from "./createAppSlice";
@@ -24,6 +25,7 @@ describe("createAppSlice", () => {
       editMode: "creating",
       currentOrderId: null,
       orderStatus: null,
+      orderExecution: null,
       toastMessage: null,
     };
 
@@ -57,6 +59,10 @@ describe("createAppSlice", () => {
       expect(slice.orderStatus).toBeNull();
     });
 
+    it("expect orderExecution to be null", () => {
+      expect(slice.orderExecution).toBeNull();
+    });
+
     it("expect toastMessage to be null", () => {
       expect(slice.toastMessage).toBeNull();
     });
@@ -119,10 +125,10 @@ describe("createAppSlice", () => {
   });
 
   describe("setOrderStatus", () => {
-    it("expect orderStatus to be set to WORKING", () => {
-      slice.setOrderStatus("WORKING");
+    it("expect orderStatus to be set to LIVE", () => {
+      slice.setOrderStatus("LIVE");
 
-      expect(mockState.orderStatus).toBe("WORKING");
+      expect(mockState.orderStatus).toBe("LIVE");
     });
 
     it("expect orderStatus to be set to FILLED", () => {
@@ -144,6 +150,16 @@ describe("createAppSlice", () => {
     });
   });
 
+  describe("setOrderExecution", () => {
+    it("expect orderExecution to be set when an update arrives", () => {
+      const execution = { status: OrderStatus.LIVE, filled: { amount: 250000, ccy: "GBP" } };
+
+      slice.setOrderExecution(execution);
+
+      expect(mockState.orderExecution).toEqual(execution);
+    });
+  });
+
   describe("setToast", () => {
     it("expect toast to be set with success message", () => {
       slice.setToast({ type: "success", text: "Order submitted successfully" });
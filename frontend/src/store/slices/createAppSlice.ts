@@ -51,6 +51,9 @@ export const createAppSlice: StateCreator<BoundState, [["zustand/immer", never]]
   /** Current order status (from ORDER_SUBSCRIPTION) */
   orderStatus: null,
 
+  /** Current order's execution - fills, timings (from ORDER_SUBSCRIPTION) */
+  orderExecution: null,
+
   /** Toast notification for user feedback (null = no toast) */
   toastMessage: null,
 
@@ -78,6 +81,12 @@ export const createAppSlice: StateCreator<BoundState, [["zustand/immer", never]]
       state.orderStatus = status;
     }),
 
+  /** Set order execution (from subscription) */
+  setOrderExecution: (execution) =>
+    set((state) => {
+      state.orderExecution = execution;
+    }),
+
   /** Show toast notification (auto-dismissed by UI after timeout) */
   setToast: (msg) =>
     set((state) => {
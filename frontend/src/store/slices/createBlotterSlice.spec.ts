@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { OrderDataGQL } from "../../graphql/types";
+import type { BoundState } from "../../types/store";
+
+import { type BlotterSlice, createBlotterSlice } from "./createBlotterSlice";
+
+const buildOrder = (orderId: string, status = "LIVE"): OrderDataGQL => ({
+  orderId,
+  omsOrderId: `OMS-${orderId}`,
+  order: {
+    fixingId: null,
+    fixingDate: null,
+    amount: { amount: 1000000, ccy: "GBP" },
+    currencyPair: "GBPUSD",
+    iceberg: null,
+    level: 1.27,
+    side: "BUY",
+    orderType: "TAKE_PROFIT",
+    account: { sdsId: "101", name: "Account A" },
+    triggerSide: null,
+    liquidityPool: "GATOR_POOL_1",
+    targetExecutionRate: null,
+    participationRate: null,
+    executionStyle: null,
+    discretionFactor: null,
+    delayBehaviour: null,
+    twapTargetEndTime: null,
+    twapTimeZone: null,
+    timeZone: null,
+    startTime: null,
+    startDate: null,
+    startMode: null,
+    startEpoch: null,
+    skew: null,
+    franchiseExposure: null,
+    tenor: null,
+    expiry: null,
+    expiryTime: null,
+    expiryDate: null,
+    expiryTimeZone: null,
+    ndf: null,
+    onshore: null,
+    orderOtherComments: null,
+    rollInfo: null,
+  },
+  execution: {
+    agent: "EXECUTION_AGENT_AUTO",
+    averageFillRate: 0,
+    filled: { amount: 0, ccy: "GBP" },
+    rejectReason: null,
+    status,
+    startTime: null,
+    targetEndTime: null,
+    shownQuantity: null,
+    hiddenQuantity: null,
+  },
+});
+
+describe("createBlotterSlice", () => {
+  let mockState: Partial<BoundState>;
+  let slice: BlotterSlice;
+  let set: ReturnType<typeof vi.fn>;
+  let get: ReturnType<typeof vi.fn>;
+  const mockValidateRefData = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockState = {
+      blotterOrders: [],
+      fdc3Intent: { currencyPair: "EURUSD" },
+      fdc3IntentMeta: null,
+      dirtyValues: { currencyPair: "USDJPY" },
+      currentOrderId: null,
+      orderStatus: null,
+      editMode: "creating",
+      errors: { amount: "Required" },
+      serverErrors: { level: "Too far" },
+      warnings: { level: "Check level" },
+      validateRefData: mockValidateRefData,
+    };
+
+    set = vi.fn((fn: (state: Partial<BoundState>) => void) => {
+      fn(mockState);
+    }) as never;
+
+    get = vi.fn(() => mockState) as never;
+
+    slice = createBlotterSlice(set, get, {} as never);
+  });
+
+  describe("initial state", () => {
+    it("expect blotterOrders to be empty initially", () => {
+      expect(slice.blotterOrders).toEqual([]);
+    });
+  });
+
+  describe("mergeBlotterSnapshot", () => {
+    it("expect snapshot orders to fill an empty blotter", () => {
+      const orders = [buildOrder("A"), buildOrder("B")];
+
+      slice.mergeBlotterSnapshot(orders);
+
+      expect(mockState.blotterOrders).toEqual(orders);
+    });
+
+    it("expect streamed orders to be kept when the snapshot has an older copy", () => {
+      mockState.blotterOrders = [buildOrder("B", "FILLED")];
+
+      slice.mergeBlotterSnapshot([buildOrder("A"), buildOrder("B", "LIVE")]);
+
+      expect(mockState.blotterOrders?.map((o) => o.orderId)).toEqual(["A", "B"]);
+      expect(mockState.blotterOrders?.[1]?.execution.status).toBe("FILLED");
+    });
+
+    it("expect streamed orders missing from the snapshot to stay on top", () => {
+      mockState.blotterOrders = [buildOrder("C")];
+
+      slice.mergeBlotterSnapshot([buildOrder("A"), buildOrder("B")]);
+
+      expect(mockState.blotterOrders?.map((o) => o.orderId)).toEqual(["C", "A", "B"]);
+    });
+  });
+
+  describe("upsertBlotterOrder", () => {
+    it("expect new order to be inserted at the top when not in the blotter", () => {
+      mockState.blotterOrders = [buildOrder("A")];
+
+      slice.upsertBlotterOrder(buildOrder("B"));
+
+      expect(mockState.blotterOrders?.map((o) => o.orderId)).toEqual(["B", "A"]);
+    });
+
+    it("expect existing order to be replaced in place when already in the blotter", () => {
+      mockState.blotterOrders = [buildOrder("A"), buildOrder("B")];
+
+      slice.upsertBlotterOrder(buildOrder("B", "FILLED"));
+
+      expect(mockState.blotterOrders?.map((o) => o.orderId)).toEqual(["A", "B"]);
+      expect(mockState.blotterOrders?.[1]?.execution.status).toBe("FILLED");
+    });
+  });
+
+  describe("viewBlotterOrder", () => {
+    it("expect ticket to switch to viewing mode when order is found", () => {
+      mockState.blotterOrders = [buildOrder("A", "FILLED")];
+
+      slice.viewBlotterOrder("A");
+
+      expect(mockState.editMode).toBe("viewing");
+      expect(mockState.currentOrderId).toBe("A");
+      expect(mockState.orderStatus).toBe("FILLED");
+      expect(mockState.orderExecution).toMatchObject({ status: "FILLED" });
+    });
+
+    it("expect dirtyValues to contain the mapped order when order is found", () => {
+      mockState.blotterOrders = [buildOrder("A")];
+
+      slice.viewBlotterOrder("A");
+
+      expect(mockState.dirtyValues).toMatchObject({
+        orderId: "A",
+        currencyPair: "GBPUSD",
+        account: { name: "Account A", sdsId: 101 },
+      });
+    });
+
+    it("expect fdc3 intent and validation state to be cleared when order is found", () => {
+      mockState.blotterOrders = [buildOrder("A")];
+
+      slice.viewBlotterOrder("A");
+
+      expect(mockState.fdc3Intent).toBeNull();
+      expect(mockState.fdc3IntentMeta).toBeNull();
+      expect(mockState.errors).toEqual({});
+      expect(mockState.serverErrors).toEqual({});
+      expect(mockState.warnings).toEqual({});
+    });
+
+    it("expect reference data to be revalidated when order is found", () => {
+      mockState.blotterOrders = [buildOrder("A")];
+
+      slice.viewBlotterOrder("A");
+
+      expect(mockValidateRefData).toHaveBeenCalledTimes(1);
+    });
+
+    it("expect state to be unchanged when order is not found", () => {
+      mockState.blotterOrders = [buildOrder("A")];
+
+      slice.viewBlotterOrder("missing");
+
+      expect(set).not.toHaveBeenCalled();
+      expect(mockState.editMode).toBe("creating");
+      expect(mockValidateRefData).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Blotter Slice - Every Order Submitted From This Session
+ *
+ * The ticket only tracks one order at a time (currentOrderId). This slice keeps
+ * the full list of orders returned by ORDERS_QUERY and kept live by
+ * ORDERS_STREAM_SUBSCRIPTION, so earlier orders stay visible after a new ticket
+ * is submitted.
+ *
+ * Loading an order into the ticket:
+ * - The order is mapped to OrderStateData and written to dirtyValues (Priority 4)
+ * - FDC3 intent data is cleared so it cannot leak fields into the loaded order
+ * - currentOrderId is switched, so useOrderTracking follows the selected order
+ * - editMode becomes "viewing" (double-click / AMEND still works as usual)
+ *
+ * Used by: useOrderBlotter (populates), OrderBlotter (renders + row selection).
+ */
+
+import { StateCreator } from "zustand";
+
+import type { OrderDataGQL } from "../../graphql/types";
+import { BoundState } from "../../types/store";
+import { mapExecution, mapOrderDataToOrderState } from "../../utils/orderMappers";
+
+/**
+ * Blotter Slice Interface
+ */
+export interface BlotterSlice {
+  /** Orders shown in the blotter (newest first) */
+  blotterOrders: OrderDataGQL[];
+  /** Merge the initial ORDERS_QUERY snapshot, keeping orders already received from the stream */
+  mergeBlotterSnapshot: (orders: OrderDataGQL[]) => void;
+  /** Insert a new order at the top, or update an existing one in place */
+  upsertBlotterOrder: (order: OrderDataGQL) => void;
+  /** Load a blotter order into the ticket in viewing mode */
+  viewBlotterOrder: (orderId: string) => void;
+}
+
+export const createBlotterSlice: StateCreator<
+  BoundState,
+  [["zustand/immer", never]],
+  [],
+  BlotterSlice
+> = (set, get) => ({
+  blotterOrders: [],
+
+  mergeBlotterSnapshot: (orders) =>
+    set((state) => {
+      // The stream can deliver updates before the snapshot resolves, and is
+      // never older than it: streamed entries win, and orders the snapshot
+      // doesn't know yet (created since) stay on top
+      const streamed = new Map(state.blotterOrders.map((o) => [o.orderId, o]));
+      const snapshotIds = new Set(orders.map((o) => o.orderId));
+      state.blotterOrders = [
+        ...state.blotterOrders.filter((o) => !snapshotIds.has(o.orderId)),
+        ...orders.map((o) => streamed.get(o.orderId) ?? o),
+      ];
+    }),
+
+  upsertBlotterOrder: (order) =>
+    set((state) => {
+      const index = state.blotterOrders.findIndex((o) => o.orderId === order.orderId);
+      if (index === -1) {
+        state.blotterOrders.unshift(order);
+      } else {
+        state.blotterOrders[index] = order;
+      }
+    }),
+
+  viewBlotterOrder: (orderId) => {
+    const order = get().blotterOrders.find((o) => o.orderId === orderId);
+    if (!order) return;
+
+    set((state) => {
+      // Loaded order replaces whatever was on the ticket
+      state.fdc3Intent = null;
+      state.fdc3IntentMeta = null;
+      state.dirtyValues = mapOrderDataToOrderState(order);
+
+      // Track the selected order instead of the last submitted one
+      state.currentOrderId = order.orderId;
+      state.orderStatus = order.execution.status;
+      state.orderExecution = mapExecution(order.execution);
+      state.editMode = "viewing";
+
+      // Validation state belonged to the previous ticket
+      state.errors = {};
+      state.serverErrors = {};
+      state.warnings = {};
+    });
+
+    // Loaded order may reference unavailable accounts/pools
+    get().validateRefData();
+  },
+});
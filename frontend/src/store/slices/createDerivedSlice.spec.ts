@@ -159,6 +159,28 @@ describe("createDerivedSlice", () => {
     });
   });
 
+  describe("getMinIcebergClip", () => {
+    const createIcebergSlice = (ccy: string): DerivedSlice => {
+      const mockState = {
+        ...createMockState({ defaults: { amount: { amount: 1000000, ccy } } }),
+        currencyPairs: [{ symbol: "GBPUSD", ccy1: "GBP", ccy2: "USD", minIcebergClip: 100000 }],
+        currentBuyPrice: 1.2701,
+        currentSellPrice: 1.2699,
+      };
+      const slice = createSlice(mockState as never);
+      Object.assign(mockState, { getDerivedValues: slice.getDerivedValues });
+      return slice;
+    };
+
+    it("expect the pair's minimum clip when the amount is in ccy1", () => {
+      expect(createIcebergSlice("GBP").getMinIcebergClip()).toBe(100000);
+    });
+
+    it("expect the minimum converted at the mid when the amount is in ccy2", () => {
+      expect(createIcebergSlice("USD").getMinIcebergClip()).toBe(130000);
+    });
+  });
+
   describe("isDirty", () => {
     it("expect isDirty to return false when dirtyValues is empty", () => {
       const slice = createSlice(createMockState({ dirtyValues: {} }));
@@ -21,6 +21,7 @@ import { StateCreator } from "zustand";
 
 import { OrderSide, OrderStateData, OrderType } from "../../types/domain";
 import { BoundState, DerivedSlice } from "../../types/store";
+import { minIcebergClip } from "../../utils/iceberg";
 
 /**
  * Order types that have the level field visible.
@@ -147,6 +148,18 @@ export const createDerivedSlice: StateCreator<
     return merged as OrderStateData;
   },
 
+  /**
+   * Get the ticket pair's minimum iceberg clip in the amount currency.
+   * Orders in ccy2 are converted at the current mid (see minIcebergClip).
+   * Used by: ValidationSlice (iceberg field), SubmissionSlice (submit validation).
+   */
+  getMinIcebergClip: () => {
+    const { currencyPairs, currentBuyPrice, currentSellPrice } = get();
+    const { currencyPair, amount } = get().getDerivedValues();
+    const pair = currencyPairs.find((cp) => cp.symbol === currencyPair);
+    return minIcebergClip(pair, amount?.ccy, (currentBuyPrice + currentSellPrice) / 2);
+  },
+
   /**
    * Check if user has made any edits.
    * Used to enable "Reset" button or show unsaved changes warning.
@@ -0,0 +1,398 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { CurrencyPair } from "../../types/domain";
+import type { BoundState } from "../../types/store";
+
+// Mock the GraphQL client
+vi.mock("../../graphql/client", () => ({
+  graphqlClient: {
+    mutate: vi.fn(),
+  },
+}));
+
+// Import after mocks are set up
+import { graphqlClient } from "../../graphql/client";
+import {
+  CANCEL_INSTRUMENT_MUTATION,
+  CANCEL_ORDER_MUTATION,
+  FILL_ORDER_MUTATION,
+  MOVE_TO_MANUAL_MUTATION,
+  RESUME_ORDER_MUTATION,
+  SUSPEND_ORDER_MUTATION,
+} from "../../graphql/mutations";
+
+import { createOrderActionsSlice, type OrderActionsSlice } from "./createOrderActionsSlice";
+
+const buildPair = (overrides: Partial<CurrencyPair> = {}): CurrencyPair => ({
+  id: "1",
+  symbol: "GBPUSD",
+  ccy1: "GBP",
+  ccy2: "USD",
+  ccy1Deliverable: true,
+  ccy2Deliverable: true,
+  ccy1Onshore: false,
+  ccy2Onshore: false,
+  spotPrecision: 5,
+  bigDigits: 2,
+  bigDigitsOffset: 0,
+  additionalPrecision: 0,
+  minPipStep: 0.0001,
+  defaultPipStep: 0.0001,
+  defaultTenor: "SPOT",
+  tenor: "SPOT",
+  stopLossAllowed: true,
+  ...overrides,
+});
+
+const mockCancelResponse = (cancelledCount: number, result = "SUCCESS") =>
+  vi.mocked(graphqlClient.mutate).mockResolvedValue({
+    data: {
+      cancelInstrumentAction: {
+        userId: "user-123",
+        result,
+        failureReason: result === "SUCCESS" ? null : "Not permitted",
+        cancelledOrderIds: Array.from({ length: cancelledCount }, (_, i) => `order-${i}`),
+        cancelledCount,
+      },
+    },
+  });
+
+const mockOrderActionResponse = (field: string, result = "SUCCESS") =>
+  vi.mocked(graphqlClient.mutate).mockResolvedValue({
+    data: {
+      [field]: {
+        orderId: "order-1",
+        result,
+        failureReason: result === "SUCCESS" ? null : "Cannot suspend order in status FILLED",
+      },
+    },
+  });
+
+describe("createOrderActionsSlice", () => {
+  let mockState: Partial<BoundState>;
+  let slice: OrderActionsSlice;
+  let set: ReturnType<typeof vi.fn>;
+  let get: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockState = {
+      isCancellingAll: false,
+      pendingOrderAction: null,
+      currentOrderId: "order-1",
+      currencyPairs: [
+        buildPair(),
+        buildPair({
+          id: "3",
+          symbol: "USDINR",
+          ccy1: "USD",
+          ccy2: "INR",
+          ccy2Deliverable: false,
+          ccy2Onshore: true,
+        }),
+      ],
+      toastMessage: null,
+    };
+
+    set = vi.fn((fn: (state: Partial<BoundState>) => void) => {
+      fn(mockState);
+    }) as never;
+
+    get = vi.fn(() => mockState) as never;
+
+    slice = createOrderActionsSlice(set, get, {} as never);
+  });
+
+  describe("initial state", () => {
+    it("expect isCancellingAll to be false initially", () => {
+      expect(slice.isCancellingAll).toBe(false);
+    });
+
+    it("expect pendingOrderAction to be null initially", () => {
+      expect(slice.pendingOrderAction).toBeNull();
+    });
+  });
+
+  describe("cancelAllForPair", () => {
+    it("expect cancelInstrumentAction to be sent with the pair's onshore/deliverable flags", async () => {
+      mockCancelResponse(1);
+
+      await slice.cancelAllForPair("USDINR");
+
+      expect(graphqlClient.mutate).toHaveBeenCalledWith({
+        mutation: CANCEL_INSTRUMENT_MUTATION,
+        variables: { ccyPair: { symbol: "USDINR", onshore: true, deliverable: false } },
+      });
+    });
+
+    it("expect deliverable offshore flags when the pair is deliverable", async () => {
+      mockCancelResponse(1);
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(graphqlClient.mutate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          variables: { ccyPair: { symbol: "GBPUSD", onshore: false, deliverable: true } },
+        })
+      );
+    });
+
+    it("expect success toast with the count when several orders are cancelled", async () => {
+      mockCancelResponse(3);
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(mockState.toastMessage).toEqual({
+        type: "success",
+        text: "Cancelling 3 GBPUSD orders",
+      });
+    });
+
+    it("expect singular wording when one order is cancelled", async () => {
+      mockCancelResponse(1);
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(mockState.toastMessage).toEqual({
+        type: "success",
+        text: "Cancelling 1 GBPUSD order",
+      });
+    });
+
+    it("expect info toast when there are no live orders for the pair", async () => {
+      mockCancelResponse(0);
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(mockState.toastMessage).toEqual({
+        type: "info",
+        text: "No live GBPUSD orders to cancel",
+      });
+    });
+
+    it("expect error toast with the failure reason when the server rejects the request", async () => {
+      mockCancelResponse(0, "FAILURE");
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Not permitted" });
+    });
+
+    it("expect generic error toast when the response has no data", async () => {
+      vi.mocked(graphqlClient.mutate).mockResolvedValue({ data: null });
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Cancel all GBPUSD failed" });
+    });
+
+    it("expect error toast when the mutation throws", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.mocked(graphqlClient.mutate).mockRejectedValue(new Error("Network error"));
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Cancel all GBPUSD failed" });
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it("expect isCancellingAll to be reset after the request completes", async () => {
+      mockCancelResponse(2);
+
+      const pending = slice.cancelAllForPair("GBPUSD");
+      expect(mockState.isCancellingAll).toBe(true);
+      await pending;
+
+      expect(mockState.isCancellingAll).toBe(false);
+    });
+
+    it("expect no request when a cancel-all is already in flight", async () => {
+      mockState.isCancellingAll = true;
+
+      await slice.cancelAllForPair("GBPUSD");
+
+      expect(graphqlClient.mutate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cancelOrder", () => {
+    it("expect cancelOrder to be sent for the ticket's order", async () => {
+      mockOrderActionResponse("cancelOrder");
+
+      await slice.cancelOrder();
+
+      expect(graphqlClient.mutate).toHaveBeenCalledWith({
+        mutation: CANCEL_ORDER_MUTATION,
+        variables: { orderId: "order-1" },
+      });
+      expect(mockState.toastMessage).toEqual({ type: "info", text: "Cancelling order" });
+    });
+
+    it("expect generic error toast when the response has no data", async () => {
+      vi.mocked(graphqlClient.mutate).mockResolvedValue({ data: null });
+
+      await slice.cancelOrder();
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Cancel order failed" });
+    });
+  });
+
+  describe("suspendOrder", () => {
+    it("expect suspendOrder to be sent for the ticket's order", async () => {
+      mockOrderActionResponse("suspendOrder");
+
+      await slice.suspendOrder();
+
+      expect(graphqlClient.mutate).toHaveBeenCalledWith({
+        mutation: SUSPEND_ORDER_MUTATION,
+        variables: { orderId: "order-1" },
+      });
+      expect(mockState.toastMessage).toEqual({ type: "info", text: "Suspending order" });
+    });
+
+    it("expect error toast with the failure reason when the server rejects the request", async () => {
+      mockOrderActionResponse("suspendOrder", "FAILURE");
+
+      await slice.suspendOrder();
+
+      expect(mockState.toastMessage).toEqual({
+        type: "error",
+        text: "Cannot suspend order in status FILLED",
+      });
+    });
+
+    it("expect generic error toast when the response has no data", async () => {
+      vi.mocked(graphqlClient.mutate).mockResolvedValue({ data: null });
+
+      await slice.suspendOrder();
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Suspend order failed" });
+    });
+
+    it("expect error toast when the mutation throws", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.mocked(graphqlClient.mutate).mockRejectedValue(new Error("Network error"));
+
+      await slice.suspendOrder();
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Suspend order failed" });
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it("expect pendingOrderAction to be set while in flight and reset after", async () => {
+      mockOrderActionResponse("suspendOrder");
+
+      const pending = slice.suspendOrder();
+      expect(mockState.pendingOrderAction).toBe("SUSPEND");
+      await pending;
+
+      expect(mockState.pendingOrderAction).toBeNull();
+    });
+
+    it("expect no request when the ticket has no order", async () => {
+      mockState.currentOrderId = null;
+
+      await slice.suspendOrder();
+
+      expect(graphqlClient.mutate).not.toHaveBeenCalled();
+    });
+
+    it("expect no request when another order action is in flight", async () => {
+      mockState.pendingOrderAction = "RESUME";
+
+      await slice.suspendOrder();
+
+      expect(graphqlClient.mutate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resumeOrder", () => {
+    it("expect resumeOrder to be sent for the ticket's order", async () => {
+      mockOrderActionResponse("resumeOrder");
+
+      await slice.resumeOrder();
+
+      expect(graphqlClient.mutate).toHaveBeenCalledWith({
+        mutation: RESUME_ORDER_MUTATION,
+        variables: { orderId: "order-1" },
+      });
+      expect(mockState.toastMessage).toEqual({ type: "info", text: "Resuming order" });
+    });
+
+    it("expect generic error toast when the response has no data", async () => {
+      vi.mocked(graphqlClient.mutate).mockResolvedValue({ data: null });
+
+      await slice.resumeOrder();
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Resume order failed" });
+    });
+  });
+
+  describe("moveToManual", () => {
+    it("expect moveToManual to be sent for the ticket's order", async () => {
+      mockOrderActionResponse("moveToManual");
+
+      await slice.moveToManual();
+
+      expect(graphqlClient.mutate).toHaveBeenCalledWith({
+        mutation: MOVE_TO_MANUAL_MUTATION,
+        variables: { orderId: "order-1" },
+      });
+      expect(mockState.toastMessage).toEqual({ type: "info", text: "Moving order to manual" });
+    });
+
+    it("expect generic error toast when the request throws", async () => {
+      vi.mocked(graphqlClient.mutate).mockRejectedValue(new Error("Network error"));
+
+      await slice.moveToManual();
+
+      expect(mockState.toastMessage).toEqual({ type: "error", text: "Move order failed" });
+    });
+  });
+
+  describe("fillOrder", () => {
+    it("expect fillOrder to be sent with the rate and quantity", async () => {
+      mockOrderActionResponse("fillOrder");
+
+      await slice.fillOrder({ fillRate: 1.2715, quantity: 300000 });
+
+      expect(graphqlClient.mutate).toHaveBeenCalledWith({
+        mutation: FILL_ORDER_MUTATION,
+        variables: { orderId: "order-1", fillRate: 1.2715, quantity: 300000 },
+      });
+      expect(mockState.toastMessage).toEqual({ type: "info", text: "Fill sent" });
+    });
+
+    it("expect the server's reason when the fill is rejected", async () => {
+      vi.mocked(graphqlClient.mutate).mockResolvedValue({
+        data: {
+          fillOrder: {
+            orderId: "order-1",
+            result: "FAILURE",
+            failureReason: "Fill quantity exceeds remaining 700,000",
+          },
+        },
+      });
+
+      await slice.fillOrder({ fillRate: 1.2715, quantity: 800000 });
+
+      expect(mockState.toastMessage).toEqual({
+        type: "error",
+        text: "Fill quantity exceeds remaining 700,000",
+      });
+    });
+
+    it("expect pendingOrderAction to be FILL while in flight", async () => {
+      mockOrderActionResponse("fillOrder");
+
+      const pending = slice.fillOrder({ fillRate: 1.2715, quantity: 300000 });
+      expect(mockState.pendingOrderAction).toBe("FILL");
+      await pending;
+
+      expect(mockState.pendingOrderAction).toBeNull();
+    });
+  });
+});
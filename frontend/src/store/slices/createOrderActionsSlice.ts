@@ -0,0 +1,219 @@
+/**
+ * Order Actions Slice - Actions on orders that are already working.
+ *
+ * Unlike SubmissionSlice (which creates/amends the ticket's own order), these
+ * actions act on live orders server-side and report back with a toast.
+ *
+ * Handles:
+ * - Cancel all live orders for a currency pair (cancelInstrumentAction)
+ * - Cancel / suspend / resume the ticket's own order (cancelOrder / suspendOrder /
+ *   resumeOrder); the resulting status changes arrive through ORDER_SUBSCRIPTION
+ *   as usual
+ * - Manual execution: move the order to a sales trader (moveToManual) and fill
+ *   it at a rate and quantity they enter (fillOrder)
+ *
+ * Used by: CancelAllOrdersButton (OrderHeader), OrderFooter (cancel / suspend / resume /
+ * move to manual), FillOrderButton (fill).
+ */
+
+import { StateCreator } from "zustand";
+
+import { graphqlClient } from "../../graphql/client";
+import {
+  CANCEL_INSTRUMENT_MUTATION,
+  CANCEL_ORDER_MUTATION,
+  FILL_ORDER_MUTATION,
+  MOVE_TO_MANUAL_MUTATION,
+  RESUME_ORDER_MUTATION,
+  SUSPEND_ORDER_MUTATION,
+} from "../../graphql/mutations";
+import type {
+  CancelInstrumentResponse,
+  CancelOrderResponse,
+  FillOrderResponse,
+  MoveToManualResponse,
+  ResumeOrderResponse,
+  SuspendOrderResponse,
+} from "../../graphql/types";
+import type { OrderFill } from "../../types/domain";
+import { BoundState } from "../../types/store";
+import { isNdf, isOnshore } from "../../utils/currencyPairHelpers";
+
+/** Actions on the ticket's own order */
+export type OrderAction = "CANCEL" | "SUSPEND" | "RESUME" | "MOVE_TO_MANUAL" | "FILL";
+
+/** Mutation, response field and toast wording per order action */
+const ORDER_ACTIONS = {
+  CANCEL: {
+    mutation: CANCEL_ORDER_MUTATION,
+    field: "cancelOrder",
+    verb: "Cancel",
+    progress: "Cancelling order",
+  },
+  SUSPEND: {
+    mutation: SUSPEND_ORDER_MUTATION,
+    field: "suspendOrder",
+    verb: "Suspend",
+    progress: "Suspending order",
+  },
+  RESUME: {
+    mutation: RESUME_ORDER_MUTATION,
+    field: "resumeOrder",
+    verb: "Resume",
+    progress: "Resuming order",
+  },
+  MOVE_TO_MANUAL: {
+    mutation: MOVE_TO_MANUAL_MUTATION,
+    field: "moveToManual",
+    verb: "Move",
+    progress: "Moving order to manual",
+  },
+  FILL: {
+    mutation: FILL_ORDER_MUTATION,
+    field: "fillOrder",
+    verb: "Fill",
+    progress: "Fill sent",
+  },
+} as const;
+
+type OrderActionResponse = Partial<
+  CancelOrderResponse &
+    SuspendOrderResponse &
+    ResumeOrderResponse &
+    MoveToManualResponse &
+    FillOrderResponse
+>;
+
+/**
+ * Order Actions Slice Interface
+ */
+export interface OrderActionsSlice {
+  /** True while a cancel-all request is in flight */
+  isCancellingAll: boolean;
+  /** Cancel every live order for a currency pair and toast a summary */
+  cancelAllForPair: (symbol: string) => Promise<void>;
+  /** Action on the ticket's order that is in flight (null when none) */
+  pendingOrderAction: OrderAction | null;
+  /** Cancel the ticket's order (→ PENDING_CANCEL → CANCELLED) */
+  cancelOrder: () => Promise<void>;
+  /** Suspend the ticket's order (LIVE → PENDING_SUSPEND → LIVE_SUSPENDED) */
+  suspendOrder: () => Promise<void>;
+  /** Resume the ticket's suspended order (LIVE_SUSPENDED → PENDING_RESUME → LIVE) */
+  resumeOrder: () => Promise<void>;
+  /** Hand the ticket's order to a sales trader (LIVE → PENDING_MOVE_TO_MANUAL → LIVE) */
+  moveToManual: () => Promise<void>;
+  /** Fill the ticket's order at a rate; a partial quantity keeps it LIVE */
+  fillOrder: (fill: OrderFill) => Promise<void>;
+}
+
+export const createOrderActionsSlice: StateCreator<
+  BoundState,
+  [["zustand/immer", never]],
+  [],
+  OrderActionsSlice
+> = (set, get) => {
+  /**
+   * Run an order action mutation for the ticket's order and toast the outcome.
+   * Failures (e.g. the order moved on in the meantime) show the server's reason.
+   * variables are sent alongside the orderId (e.g. the fill rate and quantity).
+   */
+  const runOrderAction = async (action: OrderAction, variables: Partial<OrderFill> = {}) => {
+    const orderId = get().currentOrderId;
+    // GUARD: Needs an order, one action at a time
+    if (!orderId || get().pendingOrderAction) return;
+
+    const { mutation, field, verb, progress } = ORDER_ACTIONS[action];
+
+    set((state) => {
+      state.pendingOrderAction = action;
+    });
+
+    try {
+      const result = await graphqlClient.mutate<OrderActionResponse>({
+        mutation,
+        variables: { orderId, ...variables },
+      });
+
+      const response = result.data?.[field];
+
+      set((state) => {
+        state.toastMessage =
+          response?.result === "SUCCESS"
+            ? { type: "info", text: progress }
+            : { type: "error", text: response?.failureReason || `${verb} order failed` };
+      });
+    } catch (error) {
+      console.error(`[OrderActions] ${verb} order ${orderId} failed:`, error);
+      set((state) => {
+        state.toastMessage = { type: "error", text: `${verb} order failed` };
+      });
+    } finally {
+      set((state) => {
+        state.pendingOrderAction = null;
+      });
+    }
+  };
+
+  return {
+    isCancellingAll: false,
+    pendingOrderAction: null,
+
+    cancelAllForPair: async (symbol) => {
+      // GUARD: One cancel-all at a time
+      if (get().isCancellingAll) return;
+
+      // The instrument is identified by symbol plus its onshore/deliverable flags
+      const pair = get().currencyPairs.find((cp) => cp.symbol === symbol);
+
+      set((state) => {
+        state.isCancellingAll = true;
+      });
+
+      try {
+        const result = await graphqlClient.mutate<CancelInstrumentResponse>({
+          mutation: CANCEL_INSTRUMENT_MUTATION,
+          variables: {
+            ccyPair: { symbol, onshore: isOnshore(pair), deliverable: !isNdf(pair) },
+          },
+        });
+
+        const response = result.data?.cancelInstrumentAction;
+
+        set((state) => {
+          if (response?.result !== "SUCCESS") {
+            state.toastMessage = {
+              type: "error",
+              text: response?.failureReason || `Cancel all ${symbol} failed`,
+            };
+          } else if (response.cancelledCount === 0) {
+            state.toastMessage = { type: "info", text: `No live ${symbol} orders to cancel` };
+          } else {
+            state.toastMessage = {
+              type: "success",
+              text: `Cancelling ${response.cancelledCount} ${symbol} order${response.cancelledCount === 1 ? "" : "s"}`,
+            };
+          }
+        });
+      } catch (error) {
+        console.error(`[OrderActions] Cancel all ${symbol} failed:`, error);
+        set((state) => {
+          state.toastMessage = { type: "error", text: `Cancel all ${symbol} failed` };
+        });
+      } finally {
+        set((state) => {
+          state.isCancellingAll = false;
+        });
+      }
+    },
+
+    cancelOrder: () => runOrderAction("CANCEL"),
+
+    suspendOrder: () => runOrderAction("SUSPEND"),
+
+    resumeOrder: () => runOrderAction("RESUME"),
+
+    moveToManual: () => runOrderAction("MOVE_TO_MANUAL"),
+
+    fillOrder: (fill) => runOrderAction("FILL", fill),
+  };
+};
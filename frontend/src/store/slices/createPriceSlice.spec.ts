@@ -18,6 +18,7 @@ describe("createPriceSlice", () => {
       currentBuyPrice: 0,
       currentSellPrice: 0,
       lastGrabbedSide: null,
+      marketDepth: [],
     };
 
     set = vi.fn((fn: (state: Partial<BoundState>) => void) => {
@@ -41,6 +42,26 @@ describe("createPriceSlice", () => {
     it("expect lastGrabbedSide to be null initially", () => {
       expect(slice.lastGrabbedSide).toBeNull();
     });
+
+    it("expect marketDepth to be empty initially", () => {
+      expect(slice.marketDepth).toEqual([]);
+    });
+  });
+
+  describe("setMarketDepth", () => {
+    it("expect ladders to be replaced when depth arrives", () => {
+      const depth = [
+        {
+          market: "GATOR",
+          bids: [{ price: 1.2722, size: 1000000 }],
+          asks: [{ price: 1.2724, size: 2000000 }],
+        },
+      ];
+
+      slice.setMarketDepth(depth);
+
+      expect(mockState.marketDepth).toEqual(depth);
+    });
   });
 
   describe("setCurrentPrices", () => {
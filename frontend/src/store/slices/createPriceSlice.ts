@@ -19,8 +19,9 @@
  * 1. TickingPrice component subscribes to GATOR_DATA_SUBSCRIPTION
  * 2. Prices stored in this slice via setCurrentPrices (every tick)
  * 3. getDerivedValues() computes level from prices when auto-grab is active
+ * 4. Depth-of-book ladders stored via setMarketDepth (rendered by DepthLadder)
  *
- * Used by: TickingPrice (updates), createDerivedSlice (reads for auto-grab).
+ * Used by: TickingPrice (updates), createDerivedSlice (reads for auto-grab), DepthLadder.
  */
 
 import { StateCreator } from "zustand";
@@ -54,9 +55,16 @@ export const createPriceSlice: StateCreator<
    */
   lastGrabbedSide: null,
 
+  /**
+   * Depth-of-book ladders (one per market requested in GatorSubscription.markets).
+   * Empty until the first gatorData tick arrives, and again after a pair switch.
+   */
+  marketDepth: [],
+
   /**
    * Update both buy and sell prices atomically.
-   * Called by TickingPrice every tick interval (~3 times per second).
+   * Called by TickingPrice every tick interval (~3 times per second), and with
+   * 0, 0 (no price) when its symbol changes or it unmounts.
    */
   setCurrentPrices: (buyPrice, sellPrice) =>
     set((state) => {
@@ -64,6 +72,16 @@ export const createPriceSlice: StateCreator<
       state.currentSellPrice = sellPrice;
     }),
 
+  /**
+   * Replace the depth-of-book ladders.
+   * Called by TickingPrice alongside setCurrentPrices on every tick, and with []
+   * when its symbol changes or it unmounts.
+   */
+  setMarketDepth: (depth) =>
+    set((state) => {
+      state.marketDepth = depth;
+    }),
+
   /**
    * Update the last grabbed side.
    * Called when side changes to track price direction for auto-grab.
@@ -8,6 +8,7 @@
  * - accounts: Trading accounts user can submit to
  * - pools: Liquidity pools for order routing
  * - currencyPairs: Available currency pairs for trading
+ * - fixings: Fixings FIXING orders can execute at (e.g., "London 4PM")
  *
  * Why separate from form state?
  * - Loaded once on app init (not per-order)
@@ -45,6 +46,9 @@ export const createRefDataSlice: StateCreator<
   /** Order types user is entitled to (from server) */
   entitledOrderTypes: [],
 
+  /** Fixings offered for FIXING orders (e.g., "FIX-LON-4PM") */
+  fixings: [],
+
   /** Loading state for reference data fetch */
   isLoadingRefData: true,
 
@@ -58,6 +62,7 @@ export const createRefDataSlice: StateCreator<
       state.pools = data.pools;
       state.currencyPairs = data.currencyPairs;
       state.entitledOrderTypes = data.entitledOrderTypes;
+      state.fixings = data.fixings;
       state.isLoadingRefData = false; // Loading complete
     }),
 });
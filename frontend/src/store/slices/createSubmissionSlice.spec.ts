@@ -10,7 +10,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import type { OrderStateData } from "../../types/domain";
-import { OrderSide, OrderType } from "../../types/domain";
+import { OrderSide, OrderStatus, OrderType } from "../../types/domain";
 import type { BoundState, SubmissionSlice } from "../../types/store";
 
 // Mock the GraphQL client
@@ -67,6 +67,7 @@ describe("createSubmissionSlice", () => {
     }) as never;
 
     get = vi.fn(() => ({
+      getMinIcebergClip: () => undefined,
       ...mockState,
       getDerivedValues: () => mockOrderValues,
     })) as never;
@@ -110,6 +111,19 @@ describe("createSubmissionSlice", () => {
         });
       });
 
+      it("expect the pair's minimum iceberg clip to be validated against when submitting", async () => {
+        mockState.getMinIcebergClip = () => 100000;
+        vi.mocked(validateOrderForSubmission).mockReturnValue({
+          valid: false,
+          errors: { iceberg: "Minimum iceberg clip is 100,000 GBP" },
+        });
+
+        await slice.submitOrder();
+
+        expect(validateOrderForSubmission).toHaveBeenCalledWith(mockOrderValues, 100000);
+        expect(mockState.errors).toEqual({ iceberg: "Minimum iceberg clip is 100,000 GBP" });
+      });
+
       it("expect submitOrder to clear previous errors before setting new ones", async () => {
         mockState.errors = { currencyPair: "Previous error" };
 
@@ -179,6 +193,8 @@ describe("createSubmissionSlice", () => {
         expect(mockState.status).toBe("READY");
         expect(mockState.editMode).toBe("viewing");
         expect(mockState.currentOrderId).toBe("ORDER-456");
+        expect(mockState.orderStatus).toBeNull();
+        expect(mockState.orderExecution).toBeNull();
       });
 
       it("expect submitOrder to clear serverErrors and warnings on success", async () => {
@@ -253,6 +269,89 @@ describe("createSubmissionSlice", () => {
       });
     });
 
+    describe("server validation rejection", () => {
+      beforeEach(() => {
+        vi.mocked(validateOrderForSubmission).mockReturnValue({
+          valid: true,
+          errors: {},
+        });
+        vi.spyOn(console, "error").mockImplementation(() => {});
+      });
+
+      it("expect HARD field failures to be mapped into serverErrors when the server rejects the order", async () => {
+        mockState.serverErrors = { currencyPair: "stale" };
+        vi.mocked(graphqlClient.mutate).mockResolvedValue({
+          data: {
+            createOrder: {
+              orderId: null,
+              result: "FAILURE",
+              failureReason: "Order failed validation",
+              fieldFailures: [
+                { field: "level", ok: false, type: "HARD", message: "Price must be positive" },
+                { field: "level", ok: false, type: "HARD", message: "Second level message" },
+                { field: "account", ok: false, type: "HARD", message: null },
+              ],
+            },
+          },
+        });
+
+        await slice.submitOrder();
+
+        expect(mockState.serverErrors).toEqual({
+          level: "Price must be positive",
+          account: "Invalid",
+        });
+        expect(mockState.toastMessage).toEqual({
+          type: "error",
+          text: "2 validation errors found",
+        });
+      });
+
+      it("expect SOFT field failures to be mapped into warnings alongside HARD ones", async () => {
+        vi.mocked(graphqlClient.mutate).mockResolvedValue({
+          data: {
+            createOrder: {
+              orderId: null,
+              result: "FAILURE",
+              failureReason: "Order failed validation",
+              fieldFailures: [
+                { field: "amount", ok: false, type: "SOFT", message: "Exceeds firm trading limit" },
+                { field: "level", ok: false, type: "HARD", message: "Price must be positive" },
+              ],
+            },
+          },
+        });
+
+        await slice.submitOrder();
+
+        expect(mockState.serverErrors).toEqual({ level: "Price must be positive" });
+        expect(mockState.warnings).toEqual({ amount: "Exceeds firm trading limit" });
+        expect(mockState.toastMessage).toEqual({
+          type: "error",
+          text: "level: Price must be positive",
+        });
+      });
+
+      it("expect serverErrors to be left alone when the rejection has no HARD field failures", async () => {
+        mockState.serverErrors = { level: "existing" };
+        vi.mocked(graphqlClient.mutate).mockResolvedValue({
+          data: {
+            createOrder: {
+              orderId: null,
+              result: "FAILURE",
+              failureReason: "Market closed",
+              fieldFailures: [],
+            },
+          },
+        });
+
+        await slice.submitOrder();
+
+        expect(mockState.serverErrors).toEqual({ level: "existing" });
+        expect(mockState.toastMessage).toEqual({ type: "error", text: "Market closed" });
+      });
+    });
+
     describe("mutation error handling", () => {
       beforeEach(() => {
         vi.mocked(validateOrderForSubmission).mockReturnValue({
@@ -289,6 +388,7 @@ describe("createSubmissionSlice", () => {
         const newGet = vi.fn(() => ({
           ...mockState,
           getDerivedValues: () => mockOrderValues,
+          getMinIcebergClip: () => undefined,
           currentOrderId: "EXISTING-ORDER",
         })) as never;
 
@@ -318,6 +418,7 @@ describe("createSubmissionSlice", () => {
         // Update mockOrderValues to include orderId
         get = vi.fn(() => ({
           ...mockState,
+          getMinIcebergClip: () => undefined,
           getDerivedValues: () => ({
             ...mockOrderValues,
             orderId: "ORDER-TO-AMEND",
@@ -391,6 +492,32 @@ describe("createSubmissionSlice", () => {
         });
       });
 
+      it("expect submitOrder to stay in amending mode when the server rejects amended fields", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        vi.mocked(graphqlClient.mutate).mockResolvedValue({
+          data: {
+            amendOrder: {
+              orderId: "ORDER-TO-AMEND",
+              result: "FAILURE",
+              failureReason: "Amendment failed validation",
+              fieldFailures: [
+                { field: "amount", ok: false, type: "HARD", message: "Minimum amount is 1" },
+              ],
+            },
+          },
+        });
+
+        await slice.submitOrder();
+
+        expect(mockState.editMode).toBe("amending");
+        expect(mockState.serverErrors).toEqual({ amount: "Minimum amount is 1" });
+        expect(mockState.toastMessage).toEqual({
+          type: "error",
+          text: "amount: Minimum amount is 1",
+        });
+      });
+
       it("expect submitOrder to handle network error during amendment", async () => {
         const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
@@ -443,4 +570,110 @@ describe("createSubmissionSlice", () => {
       expect(mockState.editMode).toBe("viewing");
     });
   });
+
+  describe("new ticket from the viewed order", () => {
+    const validateRefData = vi.fn();
+    const viewedOrder: OrderStateData = {
+      ...mockOrderValues,
+      orderId: "ORD-1",
+      omsOrderId: "OMS-1",
+      execution: { status: OrderStatus.LIVE, filled: { amount: 400000, ccy: "GBP" } },
+    };
+
+    beforeEach(() => {
+      Object.assign(mockState, {
+        editMode: "viewing",
+        currentOrderId: "ORD-1",
+        orderStatus: OrderStatus.LIVE,
+        orderExecution: viewedOrder.execution,
+        fdc3Intent: { currencyPair: "EURUSD" },
+        fdc3IntentMeta: { source: "test" },
+        dirtyValues: {},
+        errors: { level: "Too far" },
+        validateRefData,
+      });
+      get.mockImplementation(() => ({ ...mockState, getDerivedValues: () => viewedOrder }));
+    });
+
+    describe("duplicateOrder", () => {
+      it("expect a creating-mode ticket seeded with the order's details", () => {
+        slice.duplicateOrder();
+
+        expect(mockState.dirtyValues).toEqual(mockOrderValues);
+        expect(mockState.editMode).toBe("creating");
+        expect(mockState.currentOrderId).toBeNull();
+        expect(mockState.orderStatus).toBeNull();
+        expect(mockState.orderExecution).toBeNull();
+        expect(mockState.toastMessage).toEqual({
+          type: "info",
+          text: "Order duplicated - review and submit",
+        });
+      });
+
+      it("expect FDC3 intent and validation state to be cleared and ref data revalidated", () => {
+        slice.duplicateOrder();
+
+        expect(mockState.fdc3Intent).toBeNull();
+        expect(mockState.fdc3IntentMeta).toBeNull();
+        expect(mockState.errors).toEqual({});
+        expect(validateRefData).toHaveBeenCalled();
+      });
+
+      it("expect nothing to happen outside viewing mode", () => {
+        mockState.editMode = "amending";
+
+        slice.duplicateOrder();
+
+        expect(set).not.toHaveBeenCalled();
+        expect(mockState.currentOrderId).toBe("ORD-1");
+      });
+    });
+
+    describe("reverseOrder", () => {
+      it("expect the filled quantity on the other side", () => {
+        slice.reverseOrder();
+
+        expect(mockState.dirtyValues).toEqual({
+          ...mockOrderValues,
+          side: OrderSide.SELL,
+          amount: { amount: 400000, ccy: "GBP" },
+        });
+        expect(mockState.editMode).toBe("creating");
+        expect(mockState.currentOrderId).toBeNull();
+        expect(mockState.toastMessage).toEqual({
+          type: "info",
+          text: "Reverse order ready - review and submit",
+        });
+      });
+
+      it("expect an error toast and the ticket unchanged when nothing has filled", () => {
+        mockState.orderExecution = { status: OrderStatus.LIVE };
+
+        slice.reverseOrder();
+
+        expect(mockState.toastMessage).toEqual({
+          type: "error",
+          text: "Nothing filled to reverse",
+        });
+        expect(mockState.editMode).toBe("viewing");
+        expect(validateRefData).not.toHaveBeenCalled();
+      });
+
+      it("expect an error toast when there is no execution yet", () => {
+        mockState.orderExecution = null;
+
+        slice.reverseOrder();
+
+        expect(mockState.toastMessage?.type).toBe("error");
+      });
+
+      it("expect nothing to happen outside viewing mode", () => {
+        mockState.editMode = "creating";
+
+        slice.reverseOrder();
+
+        expect(set).not.toHaveBeenCalled();
+      });
+    });
+  });
 });
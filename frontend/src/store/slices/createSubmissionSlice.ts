@@ -14,8 +14,17 @@
  * 4. If valid, call CREATE_ORDER_MUTATION or AMEND_ORDER_MUTATION
  * 5. On success: Set orderId, editMode = viewing
  * 6. On error: Show error toast, stay in current mode
+ * 7. On server validation rejection: map fieldFailures into serverErrors/warnings
  *
- * Used by: OrderFooter (submit button), OrderForm (amend double-click).
+ * Duplicate / Reverse (viewing mode):
+ * - The viewed order's values seed a fresh ticket in dirtyValues (Priority 4),
+ *   minus orderId, omsOrderId and execution
+ * - Reverse also flips the side and sets the amount to the filled quantity
+ * - currentOrderId is cleared and editMode becomes "creating", so SUBMIT
+ *   creates a new order and the viewed one is no longer tracked
+ *
+ * Used by: OrderFooter (submit, duplicate and reverse buttons), OrderForm
+ * (amend double-click).
  */
 
 import { StateCreator } from "zustand";
@@ -23,9 +32,19 @@ import { StateCreator } from "zustand";
 import { validateOrderForSubmission } from "../../config/validation";
 import { graphqlClient } from "../../graphql/client";
 import { AMEND_ORDER_MUTATION, CREATE_ORDER_MUTATION } from "../../graphql/mutations";
-import type { AmendOrderResponse, CreateOrderResponse } from "../../graphql/types";
+import type {
+  AmendOrderResponse,
+  CreateOrderResponse,
+  FieldValidationGQL,
+} from "../../graphql/types";
 import { OrderStateData } from "../../types/domain";
 import { BoundState, SubmissionSlice } from "../../types/store";
+import {
+  duplicateOrderState,
+  mapOrderStateToAmendOrder,
+  mapOrderStateToOrderEntry,
+  reverseOrderState,
+} from "../../utils/orderMappers";
 
 // ============================================================================
 // HELPER TYPES
@@ -35,6 +54,7 @@ interface MutationResult {
   success: boolean;
   orderId?: string;
   failureReason?: string;
+  fieldFailures?: FieldValidationGQL[]; // Per-field rejections from validateOrder rules
 }
 
 // ============================================================================
@@ -46,9 +66,21 @@ interface MutationResult {
  * Returns validation result with field-keyed errors if invalid.
  */
 const validateOrderForSubmit = (
-  values: OrderStateData
+  values: OrderStateData,
+  minIcebergClip: number | undefined
 ): { valid: boolean; errors: Record<string, string> } => {
-  return validateOrderForSubmission(values as unknown as Record<string, unknown>);
+  return validateOrderForSubmission(values as unknown as Record<string, unknown>, minIcebergClip);
+};
+
+/**
+ * Toast text for a set of field errors: the error itself when there is one,
+ * otherwise a count.
+ */
+const summariseFieldErrors = (errors: Record<string, string>): string => {
+  const entries = Object.entries(errors);
+  return entries.length === 1
+    ? `${entries[0][0]}: ${entries[0][1]}`
+    : `${entries.length} validation errors found`;
 };
 
 /**
@@ -56,63 +88,15 @@ const validateOrderForSubmit = (
  * Maps OrderStateData (with nested objects) to GraphQL OrderEntry input.
  */
 const buildCreateOrderVariables = (values: OrderStateData) => ({
-  orderEntry: {
-    currencyPair: values.currencyPair,
-    side: values.side,
-    orderType: values.orderType,
-    amount: values.amount, // Already in { amount, ccy } format
-    level: values.level,
-    liquidityPool: values.liquidityPool,
-    account: values.account, // Already in { name, sdsId } format
-    expiry: values.expiry, // Already in { strategy, endTime?, endTimeZone? } format
-    startTime: values.startTime,
-    timeZone: values.timeZone,
-    iceberg: values.iceberg,
-    triggerSide: values.triggerSide,
-    targetExecutionRate: values.targetExecutionRate,
-    participationRate: values.participationRate,
-    executionStyle: values.executionStyle,
-    discretionFactor: values.discretionFactor,
-    delayBehaviour: values.delayBehaviour,
-    skew: values.skew,
-    franchiseExposure: values.franchiseExposure,
-    twapTargetEndTime: values.twapTargetEndTime,
-    twapTimeZone: values.twapTimeZone,
-    fixingId: values.fixingId,
-    fixingDate: values.fixingDate,
-    tenor: values.tenor,
-    ndf: values.ndf,
-    onshore: values.onshore,
-    orderOtherComments: values.orderOtherComments,
-    rollInfo: values.rollInfo,
-  },
+  orderEntry: mapOrderStateToOrderEntry(values),
 });
 
 /**
  * Builds the AMEND order mutation variables.
+ * Cleared fields are sent as null so the server removes them from the order.
  */
 const buildAmendOrderVariables = (values: OrderStateData) => ({
-  amendOrder: {
-    orderId: values.orderId,
-    orderType: values.orderType,
-    amount: values.amount,
-    level: values.level,
-    expiry: values.expiry,
-    iceberg: values.iceberg,
-    triggerSide: values.triggerSide,
-    liquidityPool: values.liquidityPool,
-    startTime: values.startTime,
-    timeZone: values.timeZone,
-    targetExecutionRate: values.targetExecutionRate,
-    participationRate: values.participationRate,
-    skew: values.skew,
-    franchiseExposure: values.franchiseExposure,
-    discretionFactor: values.discretionFactor,
-    delayBehaviour: values.delayBehaviour,
-    twapTargetEndTime: values.twapTargetEndTime,
-    fixingId: values.fixingId,
-    fixingDate: values.fixingDate,
-  },
+  amendOrder: mapOrderStateToAmendOrder(values),
 });
 
 /**
@@ -137,6 +121,7 @@ const executeCreateOrder = async (values: OrderStateData): Promise<MutationResul
   return {
     success: false,
     failureReason: response?.failureReason || "Order submission failed",
+    fieldFailures: response?.fieldFailures ?? [],
   };
 };
 
@@ -162,6 +147,7 @@ const executeAmendOrder = async (values: OrderStateData): Promise<MutationResult
   return {
     success: false,
     failureReason: response?.failureReason || "Amendment failed",
+    fieldFailures: response?.fieldFailures ?? [],
   };
 };
 
@@ -210,6 +196,9 @@ const handleMutationSuccess = (
       // Only set currentOrderId for new orders (amend keeps existing)
       if (!isAmending && mutationResult.orderId) {
         state.currentOrderId = mutationResult.orderId;
+        // Previous order's status no longer applies; ORDER_SUBSCRIPTION fills it in
+        state.orderStatus = null;
+        state.orderExecution = null;
       }
 
       state.toastMessage = {
@@ -230,17 +219,34 @@ const handleMutationSuccess = (
       mutationResult.failureReason
     );
 
+    // Field rejections go inline, like client validation errors (first per field)
+    const fieldErrors: Record<string, string> = {};
+    const fieldWarnings: Record<string, string> = {};
+    for (const failure of mutationResult.fieldFailures ?? []) {
+      const target = failure.type === "SOFT" ? fieldWarnings : fieldErrors;
+      target[failure.field] ??= failure.message || "Invalid";
+    }
+    const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+
     set((state) => {
       state.status = "READY";
 
       // If amending, go back to viewing mode since order exists
-      if (isAmending) {
+      // (stay amending when the user can fix the rejected fields)
+      if (isAmending && !hasFieldErrors) {
         state.editMode = "viewing";
       }
 
+      if (hasFieldErrors) {
+        state.serverErrors = fieldErrors;
+        state.warnings = fieldWarnings;
+      }
+
       state.toastMessage = {
         type: "error",
-        text: mutationResult.failureReason || "Submission failed",
+        text: hasFieldErrors
+          ? summariseFieldErrors(fieldErrors)
+          : mutationResult.failureReason || "Submission failed",
       };
     });
   }
@@ -278,6 +284,37 @@ const handleMutationError = (set: SetState, get: GetState, context: MutationErro
   });
 };
 
+/**
+ * Replaces the ticket with a new, unsubmitted order seeded from values.
+ * Like loading a blotter order, FDC3 intent data and the previous ticket's
+ * validation state are cleared; the viewed order is no longer tracked.
+ */
+const seedNewTicket = (
+  set: SetState,
+  get: GetState,
+  values: Partial<OrderStateData>,
+  text: string
+): void => {
+  set((state) => {
+    state.fdc3Intent = null;
+    state.fdc3IntentMeta = null;
+    state.dirtyValues = values;
+
+    state.currentOrderId = null;
+    state.orderStatus = null;
+    state.orderExecution = null;
+    state.editMode = "creating";
+
+    state.errors = {};
+    state.serverErrors = {};
+    state.warnings = {};
+    state.toastMessage = { type: "info", text };
+  });
+
+  // Seeded order may reference unavailable accounts/pools
+  get().validateRefData();
+};
+
 // ============================================================================
 // SLICE IMPLEMENTATION
 // ============================================================================
@@ -315,16 +352,11 @@ export const createSubmissionSlice: StateCreator<
     // ========================================
     // Step 1: Validate Order (GraphQL-aligned validation)
     // ========================================
-    const validationResult = validateOrderForSubmit(values);
+    const validationResult = validateOrderForSubmit(values, get().getMinIcebergClip());
 
     if (!validationResult.valid) {
       // Validation failed - apply field errors from validation
-      const errorCount = Object.keys(validationResult.errors).length;
-      const firstError = Object.entries(validationResult.errors)[0];
-      const errorSummary =
-        errorCount === 1
-          ? `${firstError[0]}: ${firstError[1]}`
-          : `${errorCount} validation errors found`;
+      const errorSummary = summariseFieldErrors(validationResult.errors);
 
       set((state) => {
         state.status = "READY";
@@ -400,4 +432,41 @@ export const createSubmissionSlice: StateCreator<
       // Keep dirtyValues so user continues where they left off
     });
   },
+
+  /**
+   * Start a new ticket with the viewed order's details (viewing mode only).
+   */
+  duplicateOrder: () => {
+    if (get().editMode !== "viewing") return;
+
+    seedNewTicket(
+      set,
+      get,
+      duplicateOrderState(get().getDerivedValues()),
+      "Order duplicated - review and submit"
+    );
+  },
+
+  /**
+   * Start a new ticket that reverses what the viewed order has filled: side
+   * flipped, amount = filled quantity (viewing mode only).
+   */
+  reverseOrder: () => {
+    if (get().editMode !== "viewing") return;
+
+    const filled = get().orderExecution?.filled?.amount ?? 0;
+    if (filled <= 0) {
+      set((state) => {
+        state.toastMessage = { type: "error", text: "Nothing filled to reverse" };
+      });
+      return;
+    }
+
+    seedNewTicket(
+      set,
+      get,
+      reverseOrderState(get().getDerivedValues(), filled),
+      "Reverse order ready - review and submit"
+    );
+  },
 });
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { OrderSide } from "../../types/domain";
 import type { UserInteractionSlice } from "../../types/store";
@@ -110,6 +110,61 @@ describe("createUserInteractionSlice", () => {
     });
   });
 
+  describe("fixing date default", () => {
+    const london4pm = {
+      fixingId: "FIX-LON-4PM",
+      fixingName: "London 4PM",
+      fixingTime: "16:00",
+      fixingTimezone: "Europe/London",
+    };
+
+    beforeEach(() => {
+      // Friday 17:00 London - today's 16:00 fix has passed
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-10-23T16:00:00Z"));
+
+      mockState.fixings = [london4pm];
+      get.mockImplementation(() => ({
+        ...mockState,
+        getDerivedValues: () => mockState.dirtyValues,
+      }));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("expect fixingDate to default to the next fixing when a fixing is selected", () => {
+      slice.setFieldValue("fixingId", "FIX-LON-4PM");
+
+      expect((mockState.dirtyValues as Record<string, unknown>).fixingDate).toBe("2026-10-26");
+    });
+
+    it("expect a later fixingDate to be kept when a fixing is selected", () => {
+      mockState.dirtyValues = { fixingDate: "2026-11-02" };
+
+      slice.setFieldValue("fixingId", "FIX-LON-4PM");
+
+      expect((mockState.dirtyValues as Record<string, unknown>).fixingDate).toBe("2026-11-02");
+    });
+
+    it("expect a past fixingDate and its error to be replaced when a fixing is selected", () => {
+      mockState.dirtyValues = { fixingDate: "2026-10-23" };
+      mockState.serverErrors = { fixingDate: "Fixing time has passed" };
+
+      slice.setFieldValue("fixingId", "FIX-LON-4PM");
+
+      expect((mockState.dirtyValues as Record<string, unknown>).fixingDate).toBe("2026-10-26");
+      expect((mockState.serverErrors as Record<string, unknown>).fixingDate).toBeUndefined();
+    });
+
+    it("expect fixingDate to be left unset when the fixing is not in reference data", () => {
+      slice.setFieldValue("fixingId", "FIX-UNKNOWN");
+
+      expect(mockState.dirtyValues).toEqual({ fixingId: "FIX-UNKNOWN" });
+    });
+  });
+
   describe("resetFormInteractions", () => {
     it("expect dirtyValues to be cleared", () => {
       mockState.dirtyValues = { currencyPair: "EURUSD", amount: { amount: 1000000, ccy: "EUR" } };
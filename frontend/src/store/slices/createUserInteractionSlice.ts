@@ -24,6 +24,10 @@
  * - Currency pair change: Always clears dirtyValues.level (resets to auto-grab)
  * - Side change: Does NOT clear dirty level (user edits are preserved)
  *
+ * Fixing Date Default:
+ * - Fixing change: fixingDate moves to the next date the fixing happens on, unless
+ *   the date already set is still ahead (a date the user picked is kept)
+ *
  * Used by: FieldController (updates), OrderForm (reads merged values).
  */
 
@@ -31,6 +35,7 @@ import { StateCreator } from "zustand";
 
 import { OrderSide, OrderStateData } from "../../types/domain";
 import { BoundState, UserInteractionSlice } from "../../types/store";
+import { nextFixingDate } from "../../utils/fixings";
 
 export const createUserInteractionSlice: StateCreator<
   BoundState,
@@ -53,6 +58,7 @@ export const createUserInteractionSlice: StateCreator<
    * - Clears server errors (may be stale after edit)
    * - Order type or currency pair change: Clears level to reset auto-grab
    * - Side change: Updates lastGrabbedSide for price direction tracking
+   * - Fixing change: Defaults fixingDate to the next valid fixing
    */
   setFieldValue: <K extends keyof OrderStateData>(field: K, value: OrderStateData[K] | undefined) =>
     set((state) => {
@@ -77,6 +83,21 @@ export const createUserInteractionSlice: StateCreator<
       if (field === "side") {
         get().setLastGrabbedSide(value as OrderSide);
       }
+
+      // Fixing change → default the date to the next fixing, keeping a later date
+      // (YYYY-MM-DD strings compare in date order)
+      if (field === "fixingId") {
+        const fixing = state.fixings.find((f) => f.fixingId === value);
+        if (fixing) {
+          const nextDate = nextFixingDate(fixing, Date.now());
+          const currentDate = get().getDerivedValues().fixingDate;
+          if (!currentDate || currentDate < nextDate) {
+            state.dirtyValues.fixingDate = nextDate;
+            delete state.errors.fixingDate;
+            delete state.serverErrors.fixingDate;
+          }
+        }
+      }
     }),
 
   /**
@@ -32,6 +32,7 @@ vi.mock("../../config/validation", () => ({
     },
     [OrderType.LIQUIDITY_SEEKER]: {},
   },
+  validateIcebergFields: vi.fn(() => ({})),
 }));
 
 // Mock valibot
@@ -42,6 +43,7 @@ vi.mock("valibot", () => ({
 // Import after mocks are set up
 import * as v from "valibot";
 
+import { validateIcebergFields } from "../../config/validation";
 import { graphqlClient } from "../../graphql/client";
 
 import { createValidationSlice } from "./createValidationSlice";
@@ -99,6 +101,14 @@ describe("createValidationSlice", () => {
       entitledOrderTypes: [OrderType.TAKE_PROFIT, OrderType.LIQUIDITY_SEEKER],
       currencyPairs: [createMockCurrencyPair("GBPUSD")],
       pools: [{ value: "POOL1", name: "Pool 1" }],
+      fixings: [
+        {
+          fixingId: "FIX-LON-4PM",
+          fixingName: "London 4PM",
+          fixingTime: "16:00",
+          fixingTimezone: "Europe/London",
+        },
+      ],
     };
 
     set = vi.fn((fn: (state: Partial<BoundState>) => void) => {
@@ -108,6 +118,7 @@ describe("createValidationSlice", () => {
     get = vi.fn(() => ({
       ...mockState,
       getDerivedValues: () => mockDerivedValues,
+      getMinIcebergClip: () => 100000,
     })) as never;
 
     slice = createValidationSlice(set, get, {} as never);
@@ -285,6 +296,35 @@ describe("createValidationSlice", () => {
         expect(mockState.errors?.level).toBeUndefined();
         expect(mockState.isValidating?.level).toBe(true);
       });
+
+      it("expect iceberg error to be set when the clip rules fail", async () => {
+        vi.mocked(v.safeParse).mockReturnValue({ success: true, issues: [] } as never);
+        vi.mocked(validateIcebergFields).mockReturnValueOnce({
+          iceberg: "Minimum iceberg clip is 100,000 GBP",
+        });
+
+        await slice.validateField("iceberg", 50000);
+
+        expect(validateIcebergFields).toHaveBeenCalledWith(
+          { ...mockDerivedValues, iceberg: 50000 },
+          100000
+        );
+        expect(mockState.errors?.iceberg).toBe("Minimum iceberg clip is 100,000 GBP");
+        expect(mockState.isValidating?.iceberg).toBe(false);
+        expect(graphqlClient.subscribe).not.toHaveBeenCalled();
+      });
+
+      it("expect iceberg error not to be set when request id changes before the clip check", async () => {
+        vi.mocked(v.safeParse).mockReturnValue({ success: true, issues: [] } as never);
+        vi.mocked(validateIcebergFields).mockImplementationOnce(() => {
+          mockState.validationRequestIds = { iceberg: 999 };
+          return { iceberg: "Iceberg must not exceed amount" };
+        });
+
+        await slice.validateField("iceberg", 2000000);
+
+        expect(mockState.errors?.iceberg).toBeUndefined();
+      });
     });
 
     describe("validation error handling", () => {
@@ -346,6 +386,26 @@ describe("createValidationSlice", () => {
         expect(graphqlClient.query).toHaveBeenCalled();
       });
 
+      it("expect object values to be sent as JSON with the side when validating on the server", async () => {
+        vi.mocked(graphqlClient.query).mockResolvedValue({
+          data: { validateField: { ok: true } },
+        } as never);
+
+        await slice.validateField("amount", { amount: 1000000, ccy: "GBP" });
+
+        expect(graphqlClient.query).toHaveBeenCalledWith(
+          expect.objectContaining({
+            variables: {
+              input: expect.objectContaining({
+                field: "amount",
+                value: '{"amount":1000000,"ccy":"GBP"}',
+                side: "BUY",
+              }),
+            },
+          })
+        );
+      });
+
       it("expect async success to clear serverErrors/warnings and complete when id matches", async () => {
         mockState.serverErrors = { level: "old" };
         mockState.warnings = { level: "old warning" };
@@ -644,6 +704,28 @@ describe("createValidationSlice", () => {
       );
     });
 
+    it("expect currencyPair error when stop loss is not allowed for the pair", () => {
+      mockState.currencyPairs = [{ ...createMockCurrencyPair("GBPUSD"), stopLossAllowed: false }];
+      const stopLossGet = vi.fn(() => ({
+        ...mockState,
+        getDerivedValues: () => ({ ...mockDerivedValues, orderType: OrderType.STOP_LOSS }),
+      })) as never;
+
+      createValidationSlice(set as never, stopLossGet, {} as never).validateRefData();
+
+      expect(mockState.refDataErrors?.currencyPair).toBe(
+        "Stop loss not allowed for this currency pair"
+      );
+    });
+
+    it("expect no currencyPair error for other order types when stop loss is not allowed", () => {
+      mockState.currencyPairs = [{ ...createMockCurrencyPair("GBPUSD"), stopLossAllowed: false }];
+
+      slice.validateRefData();
+
+      expect(mockState.refDataErrors?.currencyPair).toBeUndefined();
+    });
+
     it("expect liquidityPool error when pool not available", () => {
       mockState.pools = [{ value: "POOL2", name: "Pool 2" }];
 
@@ -652,6 +734,36 @@ describe("createValidationSlice", () => {
       expect(mockState.refDataErrors?.liquidityPool).toBe("Liquidity pool not available");
     });
 
+    it("expect fixingId error when fixing not available", () => {
+      const fixingGet = vi.fn(() => ({
+        ...mockState,
+        getDerivedValues: () => ({
+          ...mockDerivedValues,
+          orderType: OrderType.FIXING,
+          fixingId: "FIX-OLD",
+        }),
+      })) as never;
+
+      createValidationSlice(set as never, fixingGet, {} as never).validateRefData();
+
+      expect(mockState.refDataErrors?.fixingId).toBe("Fixing not available");
+    });
+
+    it("expect no fixingId error when fixing is available", () => {
+      const fixingGet = vi.fn(() => ({
+        ...mockState,
+        getDerivedValues: () => ({
+          ...mockDerivedValues,
+          orderType: OrderType.FIXING,
+          fixingId: "FIX-LON-4PM",
+        }),
+      })) as never;
+
+      createValidationSlice(set as never, fixingGet, {} as never).validateRefData();
+
+      expect(mockState.refDataErrors?.fixingId).toBeUndefined();
+    });
+
     it("expect globalError to be set when refDataErrors exist", () => {
       mockState.pools = []; // No pools available
 
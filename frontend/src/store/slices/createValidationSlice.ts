@@ -2,7 +2,7 @@
  * Validation Slice - Field and form validation state and actions.
  *
  * Handles:
- * - Client-side validation (Valibot schemas)
+ * - Client-side validation (Valibot schemas, iceberg clip rules)
  * - Server-side async validation (GraphQL subscription)
  * - Reference data validation (accounts, pools availability)
  * - Race condition handling for async validation
@@ -19,10 +19,11 @@
 import * as v from "valibot";
 import { StateCreator } from "zustand";
 
-import { SCHEMA_MAP } from "../../config/validation";
+import { SCHEMA_MAP, validateIcebergFields } from "../../config/validation";
 import { graphqlClient } from "../../graphql/client";
 import { VALIDATE_FIELD_QUERY } from "../../graphql/queries";
 import type { ValidateFieldSubscriptionResponse } from "../../graphql/types";
+import { OrderType } from "../../types/domain";
 import { BoundState, ValidationSlice } from "../../types/store";
 
 export const createValidationSlice: StateCreator<
@@ -106,6 +107,21 @@ export const createValidationSlice: StateCreator<
             return; // Stop here - field is invalid
           }
         }
+
+        // Iceberg clip rules need the order amount and the pair's minimum clip
+        const icebergError =
+          field === "iceberg"
+            ? validateIcebergFields(partialData, get().getMinIcebergClip()).iceberg
+            : undefined;
+        if (icebergError) {
+          if (get().validationRequestIds[field] === currentId) {
+            set((state) => {
+              state.errors[field] = icebergError;
+              state.isValidating[field] = false;
+            });
+          }
+          return;
+        }
       }
     } catch (e) {
       // Log ValiError for debugging (but don't crash)
@@ -129,11 +145,19 @@ export const createValidationSlice: StateCreator<
       const variables = {
         input: {
           field,
-          value: value == null ? null : String(value),
+          // Objects (e.g. amount { amount, ccy }) go as JSON so the server can read them
+          value:
+            value == null
+              ? null
+              : typeof value === "object"
+                ? JSON.stringify(value)
+                : String(value),
           orderType: derived.orderType,
           symbol: derived.currencyPair,
           account: derived.account?.sdsId?.toString(),
           liquidityPool: derived.liquidityPool,
+          side: derived.side,
+          orderId: derived.orderId, // Amending: server leaves this order out of limit usage
         },
       } as const;
 
@@ -195,12 +219,14 @@ export const createValidationSlice: StateCreator<
    * Checks:
    * - account: Must exist in accounts array
    * - orderType: Must exist in entitledOrderTypes array
-   * - symbol: Must exist in currencyPairs array (for current orderType)
+   * - symbol: Must exist in currencyPairs array (for current orderType), and allow
+   *   stop loss for STOP_LOSS orders
    * - liquidityPool: Must exist in pools array
+   * - fixingId: Must exist in fixings array (FIXING orders)
    */
   validateRefData: () => {
     const values = get().getDerivedValues();
-    const { accounts, entitledOrderTypes, currencyPairs, pools } = get();
+    const { accounts, entitledOrderTypes, currencyPairs, pools, fixings } = get();
     const newRefDataErrors: Record<string, string> = {};
 
     // Check account availability
@@ -219,11 +245,14 @@ export const createValidationSlice: StateCreator<
       }
     }
 
-    // Check currency pair availability
+    // Check currency pair availability (currencyPairs is the entitled list for the
+    // current order type; stopLossAllowed also covers a list not yet refetched)
     if (values.currencyPair) {
-      const currencyPairExists = currencyPairs.some((cp) => cp.symbol === values.currencyPair);
-      if (!currencyPairExists) {
+      const currencyPair = currencyPairs.find((cp) => cp.symbol === values.currencyPair);
+      if (!currencyPair) {
         newRefDataErrors.currencyPair = "Currency pair not available for this order type";
+      } else if (values.orderType === OrderType.STOP_LOSS && !currencyPair.stopLossAllowed) {
+        newRefDataErrors.currencyPair = "Stop loss not allowed for this currency pair";
       }
     }
 
@@ -235,6 +264,14 @@ export const createValidationSlice: StateCreator<
       }
     }
 
+    // Check fixing availability
+    if (values.orderType === OrderType.FIXING && values.fixingId) {
+      const fixingExists = fixings.some((f) => f.fixingId === values.fixingId);
+      if (!fixingExists) {
+        newRefDataErrors.fixingId = "Fixing not available";
+      }
+    }
+
     // Update refDataErrors
     set((state) => {
       state.refDataErrors = newRefDataErrors;
@@ -162,6 +162,7 @@ describe("Zustand Store Integration", () => {
           },
         ],
         entitledOrderTypes: [OrderType.FLOAT, OrderType.STOP_LOSS],
+        fixings: [],
       };
 
       store.setRefData(mockRefData);
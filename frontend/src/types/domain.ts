@@ -166,7 +166,7 @@ export interface Amount {
  */
 export interface Expiry {
   strategy: ExpiryStrategy; // GTC, GTD, or GTT
-  endTime?: string; // HH:mm:ss format
+  endTime?: number; // Epoch milliseconds
   endDate?: string; // ISO date string (YYYY-MM-DD)
   endTimeZone?: string; // Timezone for the end time
 }
@@ -180,6 +180,17 @@ export interface LiquidityPool {
   value: string; // Pool ID (e.g., "GATOR_POOL_1")
 }
 
+/**
+ * Fixing combination - a benchmark fixing a FIXING order executes at.
+ * Maps directly to backend FixingCombination type.
+ */
+export interface FixingCombination {
+  fixingId: string; // Fixing ID (e.g., "FIX-LON-4PM")
+  fixingName: string; // Display name (e.g., "London 4PM")
+  fixingTime: string; // Wall-clock time in fixingTimezone (HH:mm)
+  fixingTimezone: string; // IANA time zone (e.g., "Europe/London")
+}
+
 /**
  * Currency pair - asset being traded.
  * Maps directly to backend CcyPair type.
@@ -202,6 +213,25 @@ export interface CurrencyPair {
   defaultTenor: string;
   tenor: string;
   stopLossAllowed: boolean;
+  minIcebergClip?: number | null; // Smallest iceberg clip, in ccy1
+}
+
+/**
+ * Depth level - one price/size rung of a depth-of-book ladder.
+ */
+export interface DepthLevel {
+  price: number;
+  size: number; // Available quantity in base currency
+}
+
+/**
+ * Market depth - bid (SELL) and ask (BUY) ladders for one market, best price first.
+ * Maps directly to backend MarketDepth type.
+ */
+export interface MarketDepth {
+  market: string; // Market name (e.g., "GATOR")
+  bids: DepthLevel[];
+  asks: DepthLevel[];
 }
 
 /**
@@ -229,8 +259,19 @@ export interface ExecutionInfo {
   averageFillRate?: number;
   rejectReason?: string;
   status: OrderStatus;
+  startTime?: number; // Unix epoch milliseconds the order went live
   targetEndTime?: number; // Unix epoch milliseconds
   filled?: Amount;
+  shownQuantity?: number; // Iceberg orders: displayed clip of the unfilled amount
+  hiddenQuantity?: number; // Iceberg orders: rest of the unfilled amount
+}
+
+/**
+ * Order Fill - a fill entered by hand for a manual order (fillOrder).
+ */
+export interface OrderFill {
+  fillRate: number;
+  quantity: number;
 }
 
 /**
@@ -238,7 +279,7 @@ export interface ExecutionInfo {
  * Represents a submitted order with all its details and execution state.
  */
 export interface OrderInfo {
-  fixingId?: number;
+  fixingId?: string;
   fixingDate?: string; // ISO date string
   currencyPair: string;
   iceberg?: number;
@@ -307,6 +348,7 @@ export interface OrderStateData {
   startTime?: string; // HH:mm:ss format for scheduled orders
   startDate?: string; // ISO date string (YYYY-MM-DD) for scheduled orders
   timeZone?: string; // Timezone for start time
+  startEpoch?: number; // Unix epoch milliseconds the order starts at (START_AT)
   twapTargetEndTime?: number; // For TWAP orders
   twapTimeZone?: string; // Timezone for TWAP end time
 
@@ -314,7 +356,7 @@ export interface OrderStateData {
   startMode?: StartMode; // START_NOW or START_AT
 
   // Fixing/Roll fields
-  fixingId?: number; // For FIXING orders
+  fixingId?: string; // For FIXING orders
   fixingDate?: string; // ISO date for FIXING orders
   tenor?: string; // Tenor for orders with roll info
 
@@ -15,9 +15,11 @@
  * - RefDataSlice: Server-loaded dropdown options
  * - DerivedSlice: Computed form values from all layers
  * - ValidationSlice: Field and form validation
- * - SubmissionSlice: Order submission and amendment
+ * - SubmissionSlice: Order submission, amendment, duplicate and reverse
  * - PriceSlice: Current market prices
  * - FieldOrderSlice: Field ordering preferences
+ * - BlotterSlice: All orders shown in the order blotter
+ * - OrderActionsSlice: Actions on live orders (cancel all for a pair)
  *
  * Why slices?
  * - Separation of concerns (each slice has one responsibility)
@@ -30,12 +32,23 @@
  * Used by: Store creation in src/store/index.ts, component selectors.
  */
 
+import { BlotterSlice } from "../store/slices/createBlotterSlice";
 import { DefaultsSlice } from "../store/slices/createDefaultsSlice";
 import { Fdc3IntentSlice } from "../store/slices/createFdc3IntentSlice";
 import { FieldOrderSlice } from "../store/slices/createFieldOrderSlice";
+import { OrderActionsSlice } from "../store/slices/createOrderActionsSlice";
 import { UserPrefsSlice } from "../store/slices/createUserPrefsSlice";
 
-import { Account, CurrencyPair, LiquidityPool, OrderSide, OrderStateData } from "./domain";
+import {
+  Account,
+  CurrencyPair,
+  ExecutionInfo,
+  FixingCombination,
+  LiquidityPool,
+  MarketDepth,
+  OrderSide,
+  OrderStateData,
+} from "./domain";
 
 // --- Slice Interfaces ---
 
@@ -53,6 +66,8 @@ export interface AppSlice {
   currentOrderId: string | null;
   /** Current order status (from ORDER_SUBSCRIPTION) */
   orderStatus: string | null;
+  /** Current order's execution (from ORDER_SUBSCRIPTION, or the blotter order being viewed) */
+  orderExecution: ExecutionInfo | null;
   /** Update application status */
   setStatus: (status: AppSlice["status"]) => void;
   /** Update UI edit mode */
@@ -61,6 +76,8 @@ export interface AppSlice {
   setCurrentOrderId: (orderId: string | null) => void;
   /** Set order status (from subscription) */
   setOrderStatus: (status: string | null) => void;
+  /** Set order execution (from subscription) */
+  setOrderExecution: (execution: ExecutionInfo | null) => void;
   /** Global toast notification (null = no toast) */
   toastMessage: { type: "success" | "error" | "info" | "warning"; text: string } | null;
   /** Show toast message */
@@ -79,6 +96,8 @@ export interface RefDataSlice {
   currencyPairs: CurrencyPair[];
   /** Order types user is entitled to (from server) */
   entitledOrderTypes: string[];
+  /** Fixings FIXING orders can execute at */
+  fixings: FixingCombination[];
   /** Loading state for reference data fetch */
   isLoadingRefData: boolean;
   /** Set all reference data at once (called after API fetch) */
@@ -87,6 +106,7 @@ export interface RefDataSlice {
     pools: LiquidityPool[];
     currencyPairs: CurrencyPair[];
     entitledOrderTypes: string[];
+    fixings: FixingCombination[];
   }) => void;
 }
 
@@ -113,6 +133,8 @@ export interface UserInteractionSlice {
 export interface DerivedSlice {
   /** Get final merged order state (all layers combined) */
   getDerivedValues: () => OrderStateData;
+  /** Pair's minimum iceberg clip in the ticket's amount currency (undefined when none) */
+  getMinIcebergClip: () => number | undefined;
   /** Check if form is valid (no errors in any validation slice) */
   isFormValid: () => boolean;
   /** Check if user has made any edits */
@@ -154,13 +176,17 @@ export interface ValidationSlice {
 }
 
 /**
- * Submission Slice - Order submission and amendment.
+ * Submission Slice - Order submission, amendment, duplicate and reverse.
  */
 export interface SubmissionSlice {
   /** Submit the order (final validation + API call) */
   submitOrder: () => Promise<void>;
   /** Enter amend mode (make submitted order editable again) */
   amendOrder: () => void;
+  /** Seed a new ticket with the viewed order's details */
+  duplicateOrder: () => void;
+  /** Seed a new ticket reversing the viewed order's filled quantity */
+  reverseOrder: () => void;
 }
 
 /**
@@ -179,8 +205,12 @@ export interface PriceSlice {
   currentSellPrice: number;
   /** Last side that auto-grab used (for tracking side changes) */
   lastGrabbedSide: OrderSide | null;
+  /** Depth-of-book ladders per market (empty until the first tick) */
+  marketDepth: MarketDepth[];
   /** Update both buy and sell prices atomically */
   setCurrentPrices: (buyPrice: number, sellPrice: number) => void;
+  /** Replace the depth-of-book ladders (every tick) */
+  setMarketDepth: (depth: MarketDepth[]) => void;
   /** Update the last grabbed side (called when side changes) */
   setLastGrabbedSide: (side: OrderSide | null) => void;
 }
@@ -205,4 +235,6 @@ export type BoundState = AppSlice &
   ValidationSlice &
   SubmissionSlice &
   PriceSlice &
-  FieldOrderSlice;
+  FieldOrderSlice &
+  BlotterSlice &
+  OrderActionsSlice;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+
+import { formatCountdown } from "./countdown";
+
+describe("countdown", () => {
+  describe("formatCountdown", () => {
+    it("expect hh:mm:ss when less than a day is left", () => {
+      expect(formatCountdown(3723000)).toBe("01:02:03");
+    });
+
+    it("expect a day count when a day or more is left", () => {
+      expect(formatCountdown(172810000)).toBe("2d 00:00:10");
+    });
+
+    it("expect part seconds to round up when not on a whole second", () => {
+      expect(formatCountdown(1500)).toBe("00:00:02");
+    });
+
+    it("expect zero when the time has passed", () => {
+      expect(formatCountdown(-5000)).toBe("00:00:00");
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Countdown Utilities
+ *
+ * Display helpers for time remaining until an order event (e.g., expiry).
+ *
+ * Used by: Countdown, TwapProgress.
+ */
+
+const SECOND_MS = 1000;
+const DAY_S = 24 * 60 * 60;
+
+const twoDigits = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * Format remaining time as hh:mm:ss, with a day count once it is a day or more.
+ * Negative values show as zero (the event is due).
+ *
+ * @param remainingMs - Milliseconds left
+ * @returns e.g. "01:02:03", "2d 00:00:10"
+ *
+ * @example
+ * formatCountdown(3723000) → "01:02:03"
+ * formatCountdown(172810000) → "2d 00:00:10"
+ */
+export const formatCountdown = (remainingMs: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / SECOND_MS));
+  const days = Math.floor(totalSeconds / DAY_S);
+  const rest = totalSeconds % DAY_S;
+  const time = [Math.floor(rest / 3600), Math.floor((rest % 3600) / 60), rest % 60]
+    .map(twoDigits)
+    .join(":");
+  return days > 0 ? `${days}d ${time}` : time;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import type { ExecutionReportGQL } from "../graphql/types";
+
+import { addExecutionReport, withRunningVwap } from "./executionReports";
+
+const report = (fillId: string, quantity: number, price: number): ExecutionReportGQL => ({
+  fillId,
+  orderId: "ORD-1",
+  quantity,
+  price,
+  ccy: "GBP",
+  venue: "FLOAT_POOL",
+  timestamp: 1_700_000_000_000,
+});
+
+describe("executionReports", () => {
+  describe("addExecutionReport", () => {
+    it("expect a new fill to be appended", () => {
+      const f1 = report("OMS-1-F1", 100, 1.1);
+      const f2 = report("OMS-1-F2", 300, 1.2);
+
+      expect(addExecutionReport([f1], f2)).toEqual([f1, f2]);
+    });
+
+    it("expect a replayed fill to leave the reports unchanged", () => {
+      const reports = [report("OMS-1-F1", 100, 1.1)];
+
+      expect(addExecutionReport(reports, report("OMS-1-F1", 100, 1.1))).toBe(reports);
+    });
+  });
+
+  describe("withRunningVwap", () => {
+    it("expect cumulative quantity and running VWAP per fill", () => {
+      const rows = withRunningVwap([report("F1", 100, 1.1), report("F2", 300, 1.2)]);
+
+      expect(rows.map((r) => r.cumulativeQuantity)).toEqual([100, 400]);
+      expect(rows[0]?.vwap).toBeCloseTo(1.1);
+      expect(rows[1]?.vwap).toBeCloseTo(1.175);
+      expect(rows[1]?.fillId).toBe("F2");
+    });
+
+    it("expect the fill price as VWAP while nothing has been filled", () => {
+      const rows = withRunningVwap([report("F1", 0, 1.3)]);
+
+      expect(rows[0]?.vwap).toBe(1.3);
+    });
+
+    it("expect no rows without reports", () => {
+      expect(withRunningVwap([])).toEqual([]);
+    });
+  });
+});
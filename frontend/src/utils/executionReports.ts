@@ -0,0 +1,54 @@
+/**
+ * Execution Report Utilities
+ *
+ * Helpers for the per-fill execution reports of the ticket's order: collecting
+ * reports as they stream in, and the running totals shown in the fills table.
+ *
+ * Used by: useExecutionReports, FillsTable.
+ */
+
+import type { ExecutionReportGQL } from "../graphql/types";
+
+/** Execution report with the totals of every fill up to and including it */
+export interface FillRow extends ExecutionReportGQL {
+  /** Quantity filled so far */
+  cumulativeQuantity: number;
+  /** Volume-weighted average price of the fills so far */
+  vwap: number;
+}
+
+/**
+ * Appends a report unless one with the same fillId is already there (the
+ * subscription replays every fill so far when it is re-established).
+ *
+ * @example
+ * addExecutionReport([f1], f2) → [f1, f2]
+ * addExecutionReport([f1, f2], f1) → [f1, f2] (same array)
+ */
+export const addExecutionReport = (
+  reports: ExecutionReportGQL[],
+  report: ExecutionReportGQL
+): ExecutionReportGQL[] =>
+  reports.some((r) => r.fillId === report.fillId) ? reports : [...reports, report];
+
+/**
+ * Adds the cumulative quantity and running VWAP to each report, in the order
+ * the fills happened.
+ *
+ * @example
+ * withRunningVwap([{ quantity: 100, price: 1.1 }, { quantity: 300, price: 1.2 }])
+ * → cumulativeQuantity 100, 400; vwap 1.1, 1.175
+ */
+export const withRunningVwap = (reports: ExecutionReportGQL[]): FillRow[] => {
+  let quantity = 0;
+  let notional = 0;
+  return reports.map((report) => {
+    quantity += report.quantity;
+    notional += report.quantity * report.price;
+    return {
+      ...report,
+      cumulativeQuantity: quantity,
+      vwap: quantity > 0 ? notional / quantity : report.price,
+    };
+  });
+};
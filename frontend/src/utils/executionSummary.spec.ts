@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { ExecutionAgent, OrderStatus } from "../types/domain";
+
+import { EXECUTION_AGENT_LABELS, filledShare, statusTone } from "./executionSummary";
+
+describe("executionSummary", () => {
+  describe("EXECUTION_AGENT_LABELS", () => {
+    it("expect a label for every execution agent", () => {
+      Object.values(ExecutionAgent).forEach((agent) => {
+        expect(EXECUTION_AGENT_LABELS[agent].length).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  describe("statusTone", () => {
+    it.each([
+      [OrderStatus.LIVE, "working"],
+      [OrderStatus.LIVE_DELAYED, "working"],
+      [OrderStatus.LIVE_SUSPENDED, "suspended"],
+      [OrderStatus.FILLED, "filled"],
+      [OrderStatus.REJECTED, "failed"],
+      [OrderStatus.CANCELLED, "closed"],
+      [OrderStatus.EXPIRED, "closed"],
+    ])("expect %s to be %s", (status, tone) => {
+      expect(statusTone(status)).toBe(tone);
+    });
+
+    it.each([OrderStatus.PENDING_LIVE, OrderStatus.PENDING_CANCEL, "SOMETHING_NEW"])(
+      "expect pending when status is %s",
+      (status) => {
+        expect(statusTone(status)).toBe("pending");
+      }
+    );
+
+    it("expect pending when status is missing", () => {
+      expect(statusTone(null)).toBe("pending");
+    });
+  });
+
+  describe("filledShare", () => {
+    it("expect the share filled when part of the amount has filled", () => {
+      expect(filledShare(250000, 1000000)).toBe(0.25);
+    });
+
+    it("expect 1 when more than the amount has filled", () => {
+      expect(filledShare(1200000, 1000000)).toBe(1);
+    });
+
+    it("expect 0 when the amount is not known", () => {
+      expect(filledShare(250000, 0)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Execution Summary Utilities
+ *
+ * Display helpers for the live execution of the ticket's order: the tone of
+ * the status badge, the agent working the order, and the share of the amount
+ * filled.
+ *
+ * Used by: ExecutionSummary.
+ */
+
+import { ExecutionAgent, OrderStatus } from "../types/domain";
+
+/** Colour family of the status badge */
+export type StatusTone = "pending" | "working" | "suspended" | "filled" | "failed" | "closed";
+
+const STATUS_TONES: Partial<Record<string, StatusTone>> = {
+  [OrderStatus.LIVE]: "working",
+  [OrderStatus.LIVE_DELAYED]: "working",
+  [OrderStatus.LIVE_SUSPENDED]: "suspended",
+  [OrderStatus.FILLED]: "filled",
+  [OrderStatus.REJECTED]: "failed",
+  [OrderStatus.CANCELLED]: "closed",
+  [OrderStatus.EXPIRED]: "closed",
+};
+
+/** Label per execution agent */
+export const EXECUTION_AGENT_LABELS: Record<ExecutionAgent, string> = {
+  [ExecutionAgent.EXECUTION_AGENT_AUTO]: "Auto",
+  [ExecutionAgent.EXECUTION_AGENT_BENCHMARK]: "Benchmark",
+  [ExecutionAgent.EXECUTION_AGENT_INVALID]: "Invalid",
+  [ExecutionAgent.EXECUTION_AGENT_MANUAL]: "Manual",
+};
+
+/**
+ * Badge tone for an execution status; transitional (PENDING_*) and unknown
+ * statuses are "pending".
+ *
+ * @param status - Execution status, may be null before the first update
+ *
+ * @example
+ * statusTone("LIVE") → "working"
+ * statusTone("PENDING_CANCEL") → "pending"
+ */
+export const statusTone = (status: string | null | undefined): StatusTone =>
+  (status && STATUS_TONES[status]) || "pending";
+
+/**
+ * Share of the order amount filled, between 0 and 1.
+ *
+ * @param filled - Amount filled so far
+ * @param total - Order amount (0 or less gives 0)
+ *
+ * @example
+ * filledShare(250000, 1000000) → 0.25
+ */
+export const filledShare = (filled: number, total: number): number =>
+  total > 0 ? Math.min(1, Math.max(0, filled / total)) : 0;
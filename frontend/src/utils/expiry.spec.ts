@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { ExpiryStrategy } from "../types/domain";
+
+import { expiryEndTime, resolveExpiry } from "./expiry";
+
+const gtdFields = {
+  expiryTime: "17:00:00",
+  expiryDate: "2026-10-21",
+  expiryTimeZone: "Europe/London",
+};
+
+describe("expiry", () => {
+  describe("resolveExpiry", () => {
+    it("expect end time in the expiry zone when GTD fields are set", () => {
+      expect(resolveExpiry({ expiry: { strategy: ExpiryStrategy.GTD }, ...gtdFields })).toEqual({
+        strategy: ExpiryStrategy.GTD,
+        endTime: Date.parse("2026-10-21T16:00:00Z"),
+        endDate: "2026-10-21",
+        endTimeZone: "Europe/London",
+      });
+    });
+
+    it("expect the existing expiry when GTT fields are incomplete", () => {
+      const expiry = { strategy: ExpiryStrategy.GTT, endTime: 1792598400000 };
+
+      expect(resolveExpiry({ expiry, expiryTime: "17:00:00" })).toBe(expiry);
+    });
+
+    it("expect strategy only when GTC", () => {
+      expect(
+        resolveExpiry({
+          expiry: { strategy: ExpiryStrategy.GTC, endTime: 1792598400000 },
+          ...gtdFields,
+        })
+      ).toEqual({ strategy: ExpiryStrategy.GTC });
+    });
+
+    it("expect undefined when there is no expiry", () => {
+      expect(resolveExpiry(gtdFields)).toBeUndefined();
+    });
+  });
+
+  describe("expiryEndTime", () => {
+    it("expect the expiry epoch when GTD fields are set", () => {
+      expect(expiryEndTime({ expiry: { strategy: ExpiryStrategy.GTD }, ...gtdFields })).toBe(
+        Date.parse("2026-10-21T16:00:00Z")
+      );
+    });
+
+    it("expect undefined when GTC", () => {
+      expect(expiryEndTime({ expiry: { strategy: ExpiryStrategy.GTC } })).toBeUndefined();
+    });
+  });
+});
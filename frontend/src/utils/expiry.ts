@@ -0,0 +1,54 @@
+/**
+ * Expiry Utilities
+ *
+ * GTD/GTT orders collect expiryDate, expiryTime and expiryTimeZone on the
+ * ticket, but the server acts on expiry.endTime (epoch ms) and
+ * expiry.endTimeZone. These helpers fold the ticket fields into the Expiry
+ * input, so the order expires at that wall-clock time in the chosen zone.
+ *
+ * Used by: orderMappers (createOrder / amendOrder inputs), OrderFooter
+ * (expiry countdown).
+ */
+
+import { Expiry, ExpiryStrategy, OrderStateData } from "../types/domain";
+
+import { zonedTimeToEpoch } from "./zonedTime";
+
+/** Strategies that end at a date/time (GTC never expires) */
+const TIMED_STRATEGIES: string[] = [ExpiryStrategy.GTD, ExpiryStrategy.GTT];
+
+/**
+ * Expiry to send with an order.
+ *
+ * @param values - Ticket values
+ * @returns GTD/GTT: strategy plus endTime/endDate/endTimeZone from the ticket's
+ * expiry fields (the order's existing expiry when they are incomplete).
+ * GTC: strategy only. Undefined when the ticket has no expiry.
+ *
+ * @example
+ * resolveExpiry({ expiry: { strategy: "GTD" }, expiryDate: "2026-10-21",
+ *   expiryTime: "17:00:00", expiryTimeZone: "Europe/London" })
+ * → { strategy: "GTD", endTime: 1792598400000, endDate: "2026-10-21", endTimeZone: "Europe/London" }
+ */
+export const resolveExpiry = (values: Partial<OrderStateData>): Expiry | undefined => {
+  const { expiry, expiryDate, expiryTime, expiryTimeZone } = values;
+  if (!expiry) return undefined;
+  if (!TIMED_STRATEGIES.includes(expiry.strategy)) return { strategy: expiry.strategy };
+  if (!expiryDate || !expiryTime || !expiryTimeZone) return expiry;
+
+  return {
+    strategy: expiry.strategy,
+    endTime: zonedTimeToEpoch(expiryDate, expiryTime, expiryTimeZone),
+    endDate: expiryDate,
+    endTimeZone: expiryTimeZone,
+  };
+};
+
+/**
+ * When the order expires.
+ *
+ * @param values - Ticket values
+ * @returns Epoch ms for GTD/GTT orders with an end time, undefined otherwise
+ */
+export const expiryEndTime = (values: Partial<OrderStateData>): number | undefined =>
+  resolveExpiry(values)?.endTime;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import type { FixingCombination } from "../types/domain";
+
+import { fixingInstant, formatFixingLabel, nextFixingDate } from "./fixings";
+
+const london4pm: FixingCombination = {
+  fixingId: "FIX-LON-4PM",
+  fixingName: "London 4PM",
+  fixingTime: "16:00",
+  fixingTimezone: "Europe/London",
+};
+
+const tokyo955: FixingCombination = {
+  fixingId: "FIX-TKY-955",
+  fixingName: "Tokyo 9:55",
+  fixingTime: "09:55",
+  fixingTimezone: "Asia/Tokyo",
+};
+
+describe("fixings", () => {
+  describe("fixingInstant", () => {
+    it("expect the fixing time in its own zone when a date is given", () => {
+      expect(fixingInstant(tokyo955, "2026-10-21")).toBe(Date.parse("2026-10-21T00:55:00Z"));
+    });
+  });
+
+  describe("nextFixingDate", () => {
+    it("expect today when the fixing time has not passed", () => {
+      expect(nextFixingDate(london4pm, Date.parse("2026-10-21T14:00:00Z"))).toBe("2026-10-21");
+    });
+
+    it("expect the next weekday when today's fixing has passed", () => {
+      expect(nextFixingDate(london4pm, Date.parse("2026-10-21T15:00:00Z"))).toBe("2026-10-22");
+    });
+
+    it("expect Monday when Friday's fixing has passed", () => {
+      expect(nextFixingDate(london4pm, Date.parse("2026-10-23T16:00:00Z"))).toBe("2026-10-26");
+    });
+
+    it("expect Monday when today is a weekend day", () => {
+      expect(nextFixingDate(london4pm, Date.parse("2026-10-24T09:00:00Z"))).toBe("2026-10-26");
+    });
+
+    it("expect the fixing zone's date when it is already tomorrow there", () => {
+      expect(nextFixingDate(tokyo955, Date.parse("2026-10-21T23:30:00Z"))).toBe("2026-10-22");
+    });
+  });
+
+  describe("formatFixingLabel", () => {
+    it("expect name, fixing time, zone and local time when a local zone is given", () => {
+      expect(
+        formatFixingLabel(london4pm, Date.parse("2026-10-21T12:00:00Z"), "America/New_York")
+      ).toBe("London 4PM – 16:00 Europe/London (11:00 local)");
+    });
+
+    it("expect local time of the next fixing when only one zone has changed clocks", () => {
+      expect(
+        formatFixingLabel(london4pm, Date.parse("2026-10-26T12:00:00Z"), "America/New_York")
+      ).toBe("London 4PM – 16:00 Europe/London (12:00 local)");
+    });
+
+    it("expect the browser's zone to be used when no local zone is given", () => {
+      expect(formatFixingLabel(tokyo955, Date.parse("2026-10-21T00:00:00Z"))).toMatch(
+        /^Tokyo 9:55 – 09:55 Asia\/Tokyo \(\d{2}:\d{2} local\)$/
+      );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Fixing Utilities
+ *
+ * Date/time helpers for FIXING orders. A fixing is published at a wall-clock
+ * time in its own time zone (e.g., "London 4PM" is 16:00 Europe/London), so the
+ * instant it happens depends on the date and that zone's daylight saving rules.
+ * Fixings are published on weekdays only.
+ *
+ * Used by: useFieldOptions (fixing selector labels), UserInteractionSlice
+ * (default fixing date).
+ */
+
+import type { FixingCombination } from "../types/domain";
+
+import { zonedParts, zonedTimeToEpoch } from "./zonedTime";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days of the week (UTC getDay) fixings are not published on */
+const WEEKEND_DAYS = [0, 6];
+
+/** Epoch of a fixing on a date */
+export const fixingInstant = (fixing: FixingCombination, date: string): number =>
+  zonedTimeToEpoch(date, fixing.fixingTime, fixing.fixingTimezone);
+
+/** Whether a fixing is published on a date (weekdays only) */
+const isFixingDay = (date: string): boolean =>
+  !WEEKEND_DAYS.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+
+/**
+ * Next date a fixing happens on: today (in the fixing's time zone) when its
+ * time has not passed yet, otherwise the next weekday.
+ *
+ * @param fixing - Fixing combination from reference data
+ * @param now - Current epoch
+ * @returns Calendar date (YYYY-MM-DD)
+ *
+ * @example
+ * // Friday 17:00 London: the 16:00 fix has passed, the next one is Monday
+ * nextFixingDate(london4pm, Date.parse("2026-10-23T16:00:00Z")) → "2026-10-26"
+ */
+export const nextFixingDate = (fixing: FixingCombination, now: number): string => {
+  const today = zonedParts(now, fixing.fixingTimezone);
+  const start = Date.UTC(today.year, today.month - 1, today.day);
+
+  // A week always holds a weekday whose fixing is still ahead
+  let date = "";
+  for (let offset = 0; offset <= 7; offset++) {
+    date = new Date(start + offset * DAY_MS).toISOString().slice(0, 10);
+    if (isFixingDay(date) && fixingInstant(fixing, date) > now) break;
+  }
+  return date;
+};
+
+/**
+ * Selector label for a fixing: name, fixing time and zone, and the time the
+ * next fixing happens in the user's own time zone.
+ *
+ * @param fixing - Fixing combination from reference data
+ * @param now - Current epoch (picks the next fixing, so daylight saving applies)
+ * @param localTimeZone - Time zone to show local time in (defaults to the browser's)
+ * @returns Label, e.g. "London 4PM – 16:00 Europe/London (17:00 local)"
+ */
+export const formatFixingLabel = (
+  fixing: FixingCombination,
+  now: number,
+  localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+): string => {
+  const local = zonedParts(fixingInstant(fixing, nextFixingDate(fixing, now)), localTimeZone);
+  const localTime = [local.hour, local.minute].map((n) => String(n).padStart(2, "0")).join(":");
+  return `${fixing.fixingName} – ${fixing.fixingTime} ${fixing.fixingTimezone} (${localTime} local)`;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+
+import type { CurrencyPair } from "../types/domain";
+
+import { minIcebergClip } from "./iceberg";
+
+const gbpusd = {
+  symbol: "GBPUSD",
+  ccy1: "GBP",
+  ccy2: "USD",
+  minIcebergClip: 100000,
+} as CurrencyPair;
+
+describe("iceberg", () => {
+  describe("minIcebergClip", () => {
+    it("expect the pair's minimum when the amount is in ccy1", () => {
+      expect(minIcebergClip(gbpusd, "GBP", 1.27)).toBe(100000);
+    });
+
+    it("expect the minimum converted at the mid and rounded up to a step when the amount is in ccy2", () => {
+      expect(minIcebergClip(gbpusd, "USD", 1.27)).toBe(130000);
+    });
+
+    it("expect undefined when the amount is in ccy2 and there is no mid", () => {
+      expect(minIcebergClip(gbpusd, "USD", 0)).toBeUndefined();
+    });
+
+    it("expect undefined when the pair has no minimum", () => {
+      expect(minIcebergClip({ ...gbpusd, minIcebergClip: null }, "GBP", 1.27)).toBeUndefined();
+    });
+
+    it("expect undefined when there is no pair", () => {
+      expect(minIcebergClip(undefined, "GBP", 1.27)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Iceberg Utilities
+ *
+ * An iceberg TAKE_PROFIT order shows one clip of its amount to the market at a
+ * time. Each pair sets the smallest clip it accepts (minIcebergClip, in ccy1);
+ * orders in ccy2 are held to the same minimum converted at the mid.
+ *
+ * Used by: DerivedSlice (getMinIcebergClip).
+ */
+
+import { ICEBERG_CONFIG } from "../config/constants";
+import type { CurrencyPair } from "../types/domain";
+
+/**
+ * Smallest iceberg clip for a pair in the order currency.
+ *
+ * @param pair - Currency pair from reference data
+ * @param ccy - Order amount currency
+ * @param mid - Current mid of the pair (converts the minimum for ccy2 orders)
+ * @returns Minimum clip, rounded up to a whole clip step for ccy2 orders, or
+ * undefined when the pair has no minimum or there is no mid yet
+ *
+ * @example
+ * minIcebergClip(gbpusd, "GBP", 1.27) → 100000
+ * minIcebergClip(gbpusd, "USD", 1.27) → 130000
+ */
+export const minIcebergClip = (
+  pair: CurrencyPair | undefined,
+  ccy: string | undefined,
+  mid: number
+): number | undefined => {
+  if (!pair?.minIcebergClip) return undefined;
+  if (ccy === pair.ccy1) return pair.minIcebergClip;
+  if (!(mid > 0)) return undefined;
+  const step = ICEBERG_CONFIG.CLIP_STEP;
+  return Math.ceil((pair.minIcebergClip * mid) / step) * step;
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { validateOrderFill } from "./manualFill";
+
+describe("manualFill", () => {
+  describe("validateOrderFill", () => {
+    it("expect null when a partial fill is within the remaining amount", () => {
+      expect(validateOrderFill({ fillRate: 1.27, quantity: 300000 }, 1000000)).toBeNull();
+    });
+
+    it("expect null when the fill completes the order", () => {
+      expect(validateOrderFill({ fillRate: 1.27, quantity: 1000000 }, 1000000)).toBeNull();
+    });
+
+    it.each([0, -1.27, NaN])("expect rate error when the rate is %s", (fillRate) => {
+      expect(validateOrderFill({ fillRate, quantity: 300000 }, 1000000)).toBe(
+        "Fill rate must be positive"
+      );
+    });
+
+    it.each([0, -100, NaN])("expect quantity error when the quantity is %s", (quantity) => {
+      expect(validateOrderFill({ fillRate: 1.27, quantity }, 1000000)).toBe(
+        "Fill quantity must be positive"
+      );
+    });
+
+    it("expect remaining amount error when the quantity is more than is left", () => {
+      expect(validateOrderFill({ fillRate: 1.27, quantity: 1200000 }, 1000000)).toBe(
+        "Fill quantity exceeds remaining 1,000,000"
+      );
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Manual Fill Utilities
+ *
+ * A sales trader fills a LIVE order by hand at a rate and quantity of their
+ * choosing (fillOrder). The quantity may be part of what is left; the fill that
+ * completes the order moves it to FILLED.
+ *
+ * Used by: FillOrderButton.
+ */
+
+import type { OrderFill } from "../types/domain";
+
+const formatQuantity = (value: number): string => value.toLocaleString("en-US");
+
+/**
+ * Check a manual fill before it is sent (same messages as the fillOrder resolver).
+ *
+ * @param fill - Rate and quantity entered by the trader
+ * @param remaining - Amount left to fill on the order
+ * @returns Error message, or null when the fill can be sent
+ *
+ * @example
+ * validateOrderFill({ fillRate: 1.27, quantity: 300000 }, 1000000) → null
+ * validateOrderFill({ fillRate: 1.27, quantity: 1200000 }, 1000000)
+ *   → "Fill quantity exceeds remaining 1,000,000"
+ */
+export const validateOrderFill = (
+  { fillRate, quantity }: OrderFill,
+  remaining: number
+): string | null => {
+  if (!(fillRate > 0)) return "Fill rate must be positive";
+  if (!(quantity > 0)) return "Fill quantity must be positive";
+  if (quantity > remaining) return `Fill quantity exceeds remaining ${formatQuantity(remaining)}`;
+  return null;
+};
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { formatCurrency, formatPrice } from "./numberFormats";
+import { formatCompactAmount, formatCurrency, formatPrice } from "./numberFormats";
 
 describe("numberFormats", () => {
   describe("formatCurrency", () => {
@@ -69,4 +69,16 @@ describe("numberFormats", () => {
       expect(formatPrice(1.274444, 4)).toBe("1.2744");
     });
   });
+
+  describe("formatCompactAmount", () => {
+    it("should format millions and billions with one decimal", () => {
+      expect(formatCompactAmount(56741800)).toBe("56.7M");
+      expect(formatCompactAmount(1000000000)).toBe("1B");
+    });
+
+    it("should format small and negative amounts", () => {
+      expect(formatCompactAmount(0)).toBe("0");
+      expect(formatCompactAmount(-6741800)).toBe("-6.7M");
+    });
+  });
 });
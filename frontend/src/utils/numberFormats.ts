@@ -8,7 +8,8 @@
  * - Locale-aware (handles different currencies, decimal separators)
  * - Performant (caches formatters internally)
  *
- * Used by: AmountWithCurrency (notional display), TickingPrice (price display).
+ * Used by: AmountWithCurrency (notional display), TickingPrice (price display),
+ * AccountHeadroom (limit headroom).
  */
 
 /**
@@ -45,3 +46,20 @@ export const formatCurrency = (value: number, currency: string = "USD"): string
 export const formatPrice = (price: number, precision: number = 5): string => {
   return price.toFixed(precision);
 };
+
+/**
+ * Format a large amount in compact notation (thousands, millions, billions).
+ *
+ * @param value - Numeric value to format (e.g., 56741800)
+ * @returns Compact string with up to one decimal (e.g., "56.7M")
+ *
+ * @example
+ * formatCompactAmount(56741800) → "56.7M"
+ * formatCompactAmount(1000000000) → "1B"
+ */
+export const formatCompactAmount = (value: number): string => {
+  return new Intl.NumberFormat("en-US", {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+};
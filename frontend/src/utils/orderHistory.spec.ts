@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import type { OrderHistoryEntryGQL } from "../graphql/types";
+
+import { describeHistoryEntry, ORDER_HISTORY_EVENT_LABELS } from "./orderHistory";
+
+const buildEntry = (overrides: Partial<OrderHistoryEntryGQL> = {}): OrderHistoryEntryGQL => ({
+  orderId: "order-1",
+  version: 1,
+  type: "CREATED",
+  timestamp: 1700000000000,
+  status: "PENDING_LIVE",
+  previousStatus: null,
+  changes: [],
+  fillAmount: null,
+  fillRate: null,
+  filledAmount: 0,
+  ...overrides,
+});
+
+describe("orderHistory", () => {
+  describe("ORDER_HISTORY_EVENT_LABELS", () => {
+    it("expect a label for every history event type", () => {
+      expect(Object.keys(ORDER_HISTORY_EVENT_LABELS)).toEqual([
+        "CREATED",
+        "AMENDED",
+        "FILL",
+        "CANCEL_REQUESTED",
+        "CANCELLED",
+        "AGENT_CHANGED",
+        "STATUS_CHANGED",
+      ]);
+    });
+  });
+
+  describe("describeHistoryEntry", () => {
+    it("expect creation to show the initial status", () => {
+      expect(describeHistoryEntry(buildEntry(), 5)).toBe("Order created (PENDING_LIVE)");
+    });
+
+    it("expect amendments to list every field change", () => {
+      const entry = buildEntry({
+        type: "AMENDED",
+        changes: [
+          { field: "amount.amount", from: "1000000", to: "2000000" },
+          { field: "level", from: null, to: "1.3" },
+        ],
+      });
+
+      expect(describeHistoryEntry(entry, 5)).toBe(
+        "amount.amount: 1000000 → 2000000, level: - → 1.3"
+      );
+    });
+
+    it("expect the agent change when the order moved to manual", () => {
+      const entry = buildEntry({
+        type: "AGENT_CHANGED",
+        status: "LIVE",
+        changes: [{ field: "agent", from: "EXECUTION_AGENT_AUTO", to: "EXECUTION_AGENT_MANUAL" }],
+      });
+
+      expect(describeHistoryEntry(entry, 5)).toBe(
+        "agent: EXECUTION_AGENT_AUTO → EXECUTION_AGENT_MANUAL"
+      );
+    });
+
+    it("expect '-' when an amended field was cleared", () => {
+      const entry = buildEntry({
+        type: "AMENDED",
+        changes: [{ field: "iceberg", from: "100000", to: null }],
+      });
+
+      expect(describeHistoryEntry(entry, 5)).toBe("iceberg: 100000 → -");
+    });
+
+    it("expect fills to show quantity, rate at pair precision and cumulative fill", () => {
+      const entry = buildEntry({
+        type: "FILL",
+        fillAmount: 200000,
+        fillRate: 1.272349,
+        filledAmount: 400000,
+      });
+
+      expect(describeHistoryEntry(entry, 4)).toBe("200,000 @ 1.2723 (filled 400,000)");
+    });
+
+    it("expect zero fill fields when the server omits them", () => {
+      const entry = buildEntry({ type: "FILL", filledAmount: 0 });
+
+      expect(describeHistoryEntry(entry, 2)).toBe("0 @ 0.00 (filled 0)");
+    });
+
+    it("expect status events to show the status transition", () => {
+      const entry = buildEntry({
+        type: "CANCEL_REQUESTED",
+        status: "PENDING_CANCEL",
+        previousStatus: "LIVE",
+      });
+
+      expect(describeHistoryEntry(entry, 5)).toBe("LIVE → PENDING_CANCEL");
+    });
+
+    it("expect '-' when a status event has no previous status", () => {
+      const entry = buildEntry({ type: "STATUS_CHANGED", status: "LIVE" });
+
+      expect(describeHistoryEntry(entry, 5)).toBe("- → LIVE");
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Order History Utilities
+ *
+ * Display helpers for orderHistory (audit trail) entries.
+ *
+ * Used by: OrderHistoryPanel.
+ */
+
+import type { OrderHistoryEntryGQL, OrderHistoryEventTypeGQL } from "../graphql/types";
+
+import { formatPrice } from "./numberFormats";
+
+/** Timeline label per history event type */
+export const ORDER_HISTORY_EVENT_LABELS: Record<OrderHistoryEventTypeGQL, string> = {
+  CREATED: "Created",
+  AMENDED: "Amended",
+  FILL: "Fill",
+  CANCEL_REQUESTED: "Cancel Requested",
+  CANCELLED: "Cancelled",
+  AGENT_CHANGED: "Agent",
+  STATUS_CHANGED: "Status",
+};
+
+const formatAmount = (value: number): string =>
+  new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value);
+
+/**
+ * Describe what a history entry changed.
+ *
+ * @param entry - History entry from ORDER_HISTORY_QUERY
+ * @param precision - Pair spot precision for fill rates
+ * @returns One-line description (e.g., "amount.amount: 1000000 → 2000000")
+ *
+ * @example
+ * describeHistoryEntry(fill, 5) → "200,000 @ 1.27235 (filled 400,000)"
+ * describeHistoryEntry(agentChange, 5) → "agent: EXECUTION_AGENT_AUTO → EXECUTION_AGENT_MANUAL"
+ * describeHistoryEntry(statusChange, 5) → "PENDING_LIVE → LIVE"
+ */
+export const describeHistoryEntry = (entry: OrderHistoryEntryGQL, precision: number): string => {
+  switch (entry.type) {
+    case "CREATED":
+      return `Order created (${entry.status})`;
+
+    case "AMENDED":
+    case "AGENT_CHANGED":
+      return entry.changes
+        .map(({ field, from, to }) => `${field}: ${from ?? "-"} → ${to ?? "-"}`)
+        .join(", ");
+
+    case "FILL":
+      return `${formatAmount(entry.fillAmount ?? 0)} @ ${formatPrice(entry.fillRate ?? 0, precision)} (filled ${formatAmount(entry.filledAmount)})`;
+
+    default:
+      return `${entry.previousStatus ?? "-"} → ${entry.status}`;
+  }
+};
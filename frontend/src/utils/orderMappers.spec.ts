@@ -0,0 +1,480 @@
+import { describe, expect, it } from "vitest";
+
+import type { OrderDataGQL, OrderDetailGQL } from "../graphql/types";
+import {
+  DelayBehaviour,
+  DiscretionFactor,
+  ExecutionAgent,
+  ExecutionStyle,
+  ExpiryStrategy,
+  FranchiseExposure,
+  OrderSide,
+  OrderStateData,
+  OrderStatus,
+  OrderType,
+  ParticipationRate,
+  Skew,
+  StartMode,
+  StopLossTriggerSide,
+  TargetExecutionRate,
+} from "../types/domain";
+
+import {
+  duplicateOrderState,
+  mapExecution,
+  mapOrderDataToOrderState,
+  mapOrderStateToAmendOrder,
+  mapOrderStateToOrderEntry,
+  reverseOrderState,
+} from "./orderMappers";
+
+const buildOrderData = (overrides: Partial<OrderDataGQL["order"]> = {}): OrderDataGQL => ({
+  orderId: "ORD-1",
+  omsOrderId: "OMS-1",
+  order: {
+    fixingId: null,
+    fixingDate: null,
+    amount: { amount: 1000000, ccy: "GBP" },
+    currencyPair: "GBPUSD",
+    iceberg: null,
+    level: 1.2745,
+    side: "BUY",
+    orderType: "TAKE_PROFIT",
+    account: { sdsId: "101", name: "Account A" },
+    triggerSide: null,
+    liquidityPool: "GATOR_POOL_1",
+    targetExecutionRate: null,
+    participationRate: null,
+    executionStyle: null,
+    discretionFactor: null,
+    delayBehaviour: null,
+    twapTargetEndTime: null,
+    twapTimeZone: null,
+    timeZone: null,
+    startTime: null,
+    startDate: null,
+    startMode: null,
+    startEpoch: null,
+    skew: null,
+    franchiseExposure: null,
+    tenor: null,
+    expiry: null,
+    expiryTime: null,
+    expiryDate: null,
+    expiryTimeZone: null,
+    ndf: null,
+    onshore: null,
+    orderOtherComments: null,
+    rollInfo: null,
+    ...overrides,
+  },
+  execution: {
+    agent: "EXECUTION_AGENT_AUTO",
+    averageFillRate: 0,
+    filled: { amount: 0, ccy: "GBP" },
+    rejectReason: null,
+    status: "LIVE",
+    startTime: null,
+    targetEndTime: null,
+    shownQuantity: null,
+    hiddenQuantity: null,
+  },
+});
+
+/** Ticket state with every OrderEntry field set */
+const fullOrder: OrderStateData = {
+  currencyPair: "USDINR",
+  side: OrderSide.BUY,
+  orderType: OrderType.TWAP,
+  amount: { amount: 1000000, ccy: "USD" },
+  account: { sdsId: 101, name: "Account A" },
+  liquidityPool: "GATOR_POOL_1",
+  level: 83.125,
+  iceberg: 250000,
+  triggerSide: StopLossTriggerSide.MID,
+  targetExecutionRate: TargetExecutionRate.TARGET_EXECUTION_RATE_FAST,
+  participationRate: ParticipationRate.PARTICIPATION_RATE_MEDIUM,
+  executionStyle: ExecutionStyle.EXECUTION_STYLE_NEUTRAL,
+  discretionFactor: DiscretionFactor.PASSIVE,
+  delayBehaviour: DelayBehaviour.CONSTANT,
+  skew: Skew.SKEW_LOW,
+  franchiseExposure: FranchiseExposure.FRANCHISE_EXPOSURE_FAST,
+  startTime: "09:30:00",
+  startDate: "2026-10-20",
+  startMode: StartMode.START_AT,
+  startEpoch: 1792485000000,
+  timeZone: "Europe/London",
+  twapTargetEndTime: 1792512000000,
+  twapTimeZone: "Europe/London",
+  fixingId: "FIX-LON-4PM",
+  fixingDate: "2026-10-21",
+  tenor: "1W",
+  expiry: {
+    strategy: ExpiryStrategy.GTD,
+    endTime: 1792512000000,
+    endDate: "2026-10-20",
+    endTimeZone: "Europe/London",
+  },
+  expiryTime: "17:00:00",
+  expiryDate: "2026-10-20",
+  expiryTimeZone: "Europe/London",
+  ndf: true,
+  onshore: false,
+  orderOtherComments: { firstComment: "one", secondComment: "two", thirdComment: "three" },
+  rollInfo: { tenor: "1M", valueDate: "2026-11-20" },
+};
+
+/** Ticket state with only the required OrderEntry fields */
+const minimalOrder: OrderStateData = {
+  currencyPair: "GBPUSD",
+  side: OrderSide.SELL,
+  orderType: OrderType.FLOAT,
+  amount: { amount: 500000, ccy: "GBP" },
+  account: { sdsId: 101, name: "Account A" },
+};
+
+// Server emulation (backend/schema/resolvers.js): inputs are stored as
+// submitted, AmendOrder nulls clear fields, OrderDetail resolves unset fields to null
+
+const storeOrder = (input: object): Record<string, unknown> => JSON.parse(JSON.stringify(input));
+
+const applyAmend = (
+  stored: Record<string, unknown>,
+  amend: Record<string, unknown>
+): Record<string, unknown> => {
+  const next = { ...stored };
+  for (const [field, value] of Object.entries(amend)) {
+    if (field === "orderId" || field === "orderType") continue;
+    if (value === null) delete next[field];
+    else next[field] = storeOrder({ value }).value;
+  }
+  return next;
+};
+
+const toOrderData = (stored: Record<string, unknown>): OrderDataGQL => {
+  const base = buildOrderData();
+  const account = stored.account as { sdsId: number; name: string };
+  return {
+    ...base,
+    order: {
+      ...Object.fromEntries(Object.keys(base.order).map((key) => [key, null])),
+      ...stored,
+      // ID scalars are serialised as strings
+      account: { ...account, sdsId: String(account.sdsId) },
+    } as OrderDetailGQL,
+  };
+};
+
+describe("orderMappers", () => {
+  describe("mapOrderDataToOrderState", () => {
+    it("expect core order fields to be mapped when order data is provided", () => {
+      const result = mapOrderDataToOrderState(buildOrderData());
+
+      expect(result).toMatchObject({
+        orderId: "ORD-1",
+        omsOrderId: "OMS-1",
+        currencyPair: "GBPUSD",
+        side: "BUY",
+        orderType: "TAKE_PROFIT",
+        amount: { amount: 1000000, ccy: "GBP" },
+        liquidityPool: "GATOR_POOL_1",
+        level: 1.2745,
+      });
+    });
+
+    it("expect account sdsId to be converted to a number when mapped", () => {
+      const result = mapOrderDataToOrderState(buildOrderData());
+
+      expect(result.account).toEqual({ name: "Account A", sdsId: 101 });
+    });
+
+    it("expect null fields to be omitted when GraphQL returns null", () => {
+      const result = mapOrderDataToOrderState(buildOrderData());
+
+      expect(result).not.toHaveProperty("iceberg");
+      expect(result).not.toHaveProperty("fixingId");
+      expect(result).not.toHaveProperty("expiry");
+      expect(result.execution).not.toHaveProperty("rejectReason");
+      expect(result.execution).not.toHaveProperty("targetEndTime");
+    });
+
+    it("expect omsOrderId to be omitted when it is null", () => {
+      const data = { ...buildOrderData(), omsOrderId: null };
+
+      expect(mapOrderDataToOrderState(data)).not.toHaveProperty("omsOrderId");
+    });
+
+    it("expect execution to be mapped when order data is provided", () => {
+      const result = mapOrderDataToOrderState(buildOrderData());
+
+      expect(result.execution).toEqual({
+        agent: "EXECUTION_AGENT_AUTO",
+        averageFillRate: 0,
+        filled: { amount: 0, ccy: "GBP" },
+        status: "LIVE",
+      });
+    });
+
+    it("expect fixingId to be kept as the fixing's ID when set", () => {
+      const result = mapOrderDataToOrderState(buildOrderData({ fixingId: "FIX-LON-4PM" }));
+
+      expect(result.fixingId).toBe("FIX-LON-4PM");
+    });
+
+    it("expect execution targetEndTime to be converted when provided", () => {
+      const data = buildOrderData();
+      data.execution.targetEndTime = "1760000000000";
+
+      expect(mapOrderDataToOrderState(data).execution?.targetEndTime).toBe(1760000000000);
+    });
+
+    it("expect non-numeric values to be omitted when they cannot be converted", () => {
+      const data = buildOrderData();
+      data.execution.targetEndTime = "abc";
+
+      expect(mapOrderDataToOrderState(data).execution).not.toHaveProperty("targetEndTime");
+    });
+
+    it("expect expiry to be mapped without null entries when expiry is present", () => {
+      const result = mapOrderDataToOrderState(
+        buildOrderData({
+          expiry: { strategy: "GTC", endTime: null, endDate: null, endTimeZone: null },
+        })
+      );
+
+      expect(result.expiry).toEqual({ strategy: "GTC" });
+    });
+
+    it("expect full expiry to be mapped when all expiry fields are set", () => {
+      const result = mapOrderDataToOrderState(
+        buildOrderData({
+          expiry: {
+            strategy: "GTD",
+            endTime: 1792512000000,
+            endDate: "2026-10-20",
+            endTimeZone: "Europe/London",
+          },
+        })
+      );
+
+      expect(result.expiry).toEqual({
+        strategy: "GTD",
+        endTime: 1792512000000,
+        endDate: "2026-10-20",
+        endTimeZone: "Europe/London",
+      });
+    });
+  });
+
+  describe("mapExecution", () => {
+    it("expect every execution field when the server sets them", () => {
+      expect(
+        mapExecution({
+          agent: "EXECUTION_AGENT_MANUAL",
+          averageFillRate: 1.2745,
+          filled: { amount: 250000, ccy: "GBP" },
+          rejectReason: "Limit breached",
+          status: "LIVE",
+          startTime: "1760000000000",
+          targetEndTime: null,
+          shownQuantity: null,
+          hiddenQuantity: null,
+        })
+      ).toEqual({
+        agent: ExecutionAgent.EXECUTION_AGENT_MANUAL,
+        averageFillRate: 1.2745,
+        filled: { amount: 250000, ccy: "GBP" },
+        rejectReason: "Limit breached",
+        status: OrderStatus.LIVE,
+        startTime: 1760000000000,
+      });
+    });
+
+    it("expect UNSPECIFIED when the status is not an OrderStatus", () => {
+      const { execution } = buildOrderData();
+
+      expect(mapExecution({ ...execution, status: "WORKING" }).status).toBe(
+        OrderStatus.UNSPECIFIED
+      );
+    });
+
+    it("expect no agent when the agent is not an ExecutionAgent", () => {
+      const { execution } = buildOrderData();
+
+      expect(mapExecution({ ...execution, agent: "AUTO" })).not.toHaveProperty("agent");
+    });
+
+    it("expect start and target end times as numbers when provided", () => {
+      const { execution } = buildOrderData();
+
+      expect(
+        mapExecution({
+          ...execution,
+          startTime: "1760000000000",
+          targetEndTime: "1760000600000",
+        })
+      ).toMatchObject({ startTime: 1760000000000, targetEndTime: 1760000600000 });
+    });
+
+    it("expect shown and hidden quantities when the order is an iceberg", () => {
+      const { execution } = buildOrderData();
+
+      expect(
+        mapExecution({ ...execution, shownQuantity: 500000, hiddenQuantity: 1500000 })
+      ).toMatchObject({ shownQuantity: 500000, hiddenQuantity: 1500000 });
+    });
+
+    it("expect no shown or hidden quantity when the order is not an iceberg", () => {
+      const { execution } = buildOrderData();
+
+      expect(mapExecution(execution)).not.toHaveProperty("shownQuantity");
+    });
+  });
+
+  describe("mapOrderStateToOrderEntry", () => {
+    it("expect every order field and no ticket-only fields when mapped", () => {
+      const entry = mapOrderStateToOrderEntry({
+        ...fullOrder,
+        orderId: "ORD-1",
+        omsOrderId: "OMS-1",
+        execution: { status: "LIVE" },
+      } as OrderStateData);
+
+      expect(entry).toEqual(fullOrder);
+    });
+
+    it("expect unset fields to be undefined so they are not sent", () => {
+      const entry = mapOrderStateToOrderEntry(minimalOrder);
+
+      expect(JSON.parse(JSON.stringify(entry))).toEqual(minimalOrder);
+    });
+
+    it("expect no start epoch when the order starts now", () => {
+      const entry = mapOrderStateToOrderEntry({
+        ...fullOrder,
+        startMode: StartMode.START_NOW,
+      });
+
+      expect(entry.startEpoch).toBeUndefined();
+    });
+
+    it("expect expiry end time from the ticket's expiry fields when GTT", () => {
+      const entry = mapOrderStateToOrderEntry({
+        ...minimalOrder,
+        expiry: { strategy: ExpiryStrategy.GTT },
+        expiryTime: "09:30:00",
+        expiryDate: "2026-10-21",
+        expiryTimeZone: "America/New_York",
+      });
+
+      expect(entry.expiry).toEqual({
+        strategy: ExpiryStrategy.GTT,
+        endTime: Date.parse("2026-10-21T13:30:00Z"),
+        endDate: "2026-10-21",
+        endTimeZone: "America/New_York",
+      });
+    });
+  });
+
+  describe("mapOrderStateToAmendOrder", () => {
+    it("expect orderId and amendable fields when mapped", () => {
+      const amend = mapOrderStateToAmendOrder({ ...fullOrder, orderId: "ORD-1" });
+
+      expect(amend).toMatchObject({ orderId: "ORD-1", orderType: "TWAP", iceberg: 250000 });
+    });
+
+    it("expect currencyPair, side, ndf and onshore to be left out when mapped", () => {
+      const amend = mapOrderStateToAmendOrder({ ...fullOrder, orderId: "ORD-1" });
+
+      expect(amend).not.toHaveProperty("currencyPair");
+      expect(amend).not.toHaveProperty("side");
+      expect(amend).not.toHaveProperty("ndf");
+      expect(amend).not.toHaveProperty("onshore");
+    });
+
+    it("expect unset fields to be sent as null so the server clears them", () => {
+      const amend = mapOrderStateToAmendOrder({ ...minimalOrder, orderId: "ORD-1" });
+
+      expect(amend.iceberg).toBeNull();
+      expect(amend.expiry).toBeNull();
+      expect(amend.rollInfo).toBeNull();
+    });
+  });
+
+  describe("duplicateOrderState", () => {
+    const submitted: OrderStateData = {
+      ...fullOrder,
+      orderId: "ORD-1",
+      omsOrderId: "OMS-1",
+      execution: { status: OrderStatus.LIVE, filled: { amount: 400000, ccy: "USD" } },
+    };
+
+    it("expect the order's details without orderId, omsOrderId and execution", () => {
+      expect(duplicateOrderState(submitted)).toEqual(fullOrder);
+    });
+
+    it("expect the amount to be reversed on the other side when reversing", () => {
+      expect(reverseOrderState(submitted, 400000)).toEqual({
+        ...fullOrder,
+        side: OrderSide.SELL,
+        amount: { amount: 400000, ccy: "USD" },
+      });
+    });
+
+    it("expect a SELL order to be reversed as a BUY", () => {
+      expect(reverseOrderState({ ...submitted, side: OrderSide.SELL }, 400000).side).toBe(
+        OrderSide.BUY
+      );
+    });
+  });
+
+  describe("round trip", () => {
+    it("expect every field to come back on orderData when the order is created", () => {
+      const stored = storeOrder(mapOrderStateToOrderEntry(fullOrder));
+
+      expect(mapOrderDataToOrderState(toOrderData(stored))).toEqual({
+        ...fullOrder,
+        orderId: "ORD-1",
+        omsOrderId: "OMS-1",
+        execution: expect.any(Object),
+      });
+    });
+
+    it("expect amended and cleared fields to come back on orderData when the order is amended", () => {
+      const stored = storeOrder(mapOrderStateToOrderEntry(fullOrder));
+      const amendedOrder: OrderStateData = {
+        ...fullOrder,
+        orderId: "ORD-1",
+        amount: { amount: 2000000, ccy: "GBP" },
+        level: 1.2801,
+        expiry: { strategy: ExpiryStrategy.GTC },
+        orderOtherComments: { firstComment: "amended" },
+      };
+      // Cleared on the ticket
+      delete amendedOrder.iceberg;
+      delete amendedOrder.rollInfo;
+
+      const amended = applyAmend(stored, mapOrderStateToAmendOrder(amendedOrder));
+
+      expect(mapOrderDataToOrderState(toOrderData(amended))).toEqual({
+        ...amendedOrder,
+        omsOrderId: "OMS-1",
+        execution: expect.any(Object),
+      });
+    });
+
+    it("expect fields that are not amendable to keep their created values when amended", () => {
+      const stored = storeOrder(mapOrderStateToOrderEntry(fullOrder));
+
+      const amended = applyAmend(
+        stored,
+        mapOrderStateToAmendOrder({ ...fullOrder, side: OrderSide.SELL, ndf: false })
+      );
+
+      expect(mapOrderDataToOrderState(toOrderData(amended))).toMatchObject({
+        side: "BUY",
+        ndf: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Order Mapping Utilities
+ *
+ * Converts GraphQL OrderData payloads (ORDER_DATA_FIELDS selection) into the
+ * server-aligned OrderStateData shape used by the ticket, and ticket state into
+ * the OrderEntry / AmendOrder mutation inputs. OrderEntry, AmendOrder and
+ * OrderDetail share the OrderStateData shape, so every field round-trips.
+ * Also seeds a new ticket from an existing order (duplicate / reverse).
+ *
+ * Why a mapper?
+ * - GraphQL returns null for unset fields, the store expects them to be absent
+ *   (exactOptionalPropertyTypes forbids explicit undefined/null on optional keys)
+ * - A few scalars differ in representation (account sdsId is an ID on the wire
+ *   but a number in the domain model)
+ *
+ * Used by: BlotterSlice (loading a blotter order into the ticket),
+ * SubmissionSlice (createOrder / amendOrder variables, duplicate / reverse),
+ * useOrderTracking (live execution).
+ */
+
+import type { ExecutionGQL, OrderDataGQL } from "../graphql/types";
+import {
+  ExecutionAgent,
+  type ExecutionInfo,
+  OrderSide,
+  type OrderStateData,
+  OrderStatus,
+} from "../types/domain";
+
+import { resolveExpiry } from "./expiry";
+import { resolveStartEpoch } from "./startTime";
+
+/**
+ * Remove null/undefined entries from an object (shallow).
+ *
+ * @param obj - Object that may contain null values from GraphQL
+ * @returns New object with only defined values
+ */
+const omitNullish = (obj: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== null && value !== undefined)
+  );
+
+/**
+ * Map a nullable nested GraphQL object, dropping its null entries.
+ * Returns null when the object itself is null.
+ */
+const mapNested = (obj: object | null): Record<string, unknown> | null =>
+  obj ? omitNullish({ ...obj }) : null;
+
+/**
+ * Convert a nullable numeric scalar (number or numeric string) to a number.
+ * Returns null when the value is missing or not numeric.
+ */
+const toNumberOrNull = (value: number | string | null): number | null => {
+  if (value === null || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Whether a wire value is one of an enum's values (narrows the string to the
+ * enum type).
+ */
+const isEnumValue = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  (Object.values(values) as unknown[]).includes(value);
+
+/**
+ * Map a GraphQL Execution payload to ExecutionInfo (epoch scalars as numbers,
+ * unset fields dropped). Status and agent are narrowed to their enums: an
+ * unknown status maps to UNSPECIFIED, an unknown agent is left out.
+ */
+export const mapExecution = (execution: ExecutionGQL): ExecutionInfo => {
+  const info: ExecutionInfo = {
+    status: isEnumValue(OrderStatus, execution.status) ? execution.status : OrderStatus.UNSPECIFIED,
+  };
+
+  if (isEnumValue(ExecutionAgent, execution.agent)) info.agent = execution.agent;
+  if (execution.averageFillRate != null) info.averageFillRate = execution.averageFillRate;
+  if (execution.filled) {
+    info.filled = { amount: execution.filled.amount, ccy: execution.filled.ccy };
+  }
+  if (execution.rejectReason != null) info.rejectReason = execution.rejectReason;
+
+  const startTime = toNumberOrNull(execution.startTime);
+  if (startTime !== null) info.startTime = startTime;
+  const targetEndTime = toNumberOrNull(execution.targetEndTime);
+  if (targetEndTime !== null) info.targetEndTime = targetEndTime;
+
+  if (execution.shownQuantity != null) info.shownQuantity = execution.shownQuantity;
+  if (execution.hiddenQuantity != null) info.hiddenQuantity = execution.hiddenQuantity;
+
+  return info;
+};
+
+/**
+ * Map a GraphQL OrderData payload to ticket state.
+ *
+ * @param data - Order payload from ORDERS_QUERY / ORDERS_STREAM_SUBSCRIPTION / ORDER_SUBSCRIPTION
+ * @returns Partial OrderStateData containing only the fields the server provided
+ *
+ * @example
+ * mapOrderDataToOrderState(orderData)
+ * // → { orderId: "abc", currencyPair: "GBPUSD", side: "BUY", amount: {...}, execution: {...} }
+ */
+export const mapOrderDataToOrderState = (data: OrderDataGQL): Partial<OrderStateData> => {
+  const { order, execution } = data;
+
+  return omitNullish({
+    orderId: data.orderId,
+    omsOrderId: data.omsOrderId,
+    currencyPair: order.currencyPair,
+    side: order.side,
+    orderType: order.orderType,
+    amount: { amount: order.amount.amount, ccy: order.amount.ccy },
+    liquidityPool: order.liquidityPool,
+    account: { name: order.account.name, sdsId: Number(order.account.sdsId) },
+    level: order.level,
+    iceberg: order.iceberg,
+    triggerSide: order.triggerSide,
+    targetExecutionRate: order.targetExecutionRate,
+    participationRate: order.participationRate,
+    executionStyle: order.executionStyle,
+    discretionFactor: order.discretionFactor,
+    delayBehaviour: order.delayBehaviour,
+    skew: order.skew,
+    franchiseExposure: order.franchiseExposure,
+    twapTargetEndTime: order.twapTargetEndTime,
+    twapTimeZone: order.twapTimeZone,
+    timeZone: order.timeZone,
+    startTime: order.startTime,
+    startDate: order.startDate,
+    startMode: order.startMode,
+    startEpoch: order.startEpoch,
+    fixingId: order.fixingId,
+    fixingDate: order.fixingDate,
+    tenor: order.tenor,
+    expiry: mapNested(order.expiry),
+    expiryTime: order.expiryTime,
+    expiryDate: order.expiryDate,
+    expiryTimeZone: order.expiryTimeZone,
+    ndf: order.ndf,
+    onshore: order.onshore,
+    orderOtherComments: mapNested(order.orderOtherComments),
+    rollInfo: mapNested(order.rollInfo),
+    execution: mapExecution(execution),
+  }) as Partial<OrderStateData>;
+};
+
+/**
+ * Map ticket state to the GraphQL OrderEntry input (createOrder).
+ * Fields are listed explicitly because OrderEntry rejects undeclared keys
+ * (orderId, omsOrderId, execution). Undefined fields are dropped when the
+ * variables are serialised. GTD/GTT expiry fields are folded into
+ * expiry.endTime / endTimeZone, which the server expires the order at, and
+ * START_AT start fields into startEpoch, which the server starts it at.
+ */
+export const mapOrderStateToOrderEntry = (values: OrderStateData) => ({
+  currencyPair: values.currencyPair,
+  side: values.side,
+  orderType: values.orderType,
+  amount: values.amount,
+  account: values.account,
+  liquidityPool: values.liquidityPool,
+  level: values.level,
+  iceberg: values.iceberg,
+  triggerSide: values.triggerSide,
+  targetExecutionRate: values.targetExecutionRate,
+  participationRate: values.participationRate,
+  executionStyle: values.executionStyle,
+  discretionFactor: values.discretionFactor,
+  delayBehaviour: values.delayBehaviour,
+  skew: values.skew,
+  franchiseExposure: values.franchiseExposure,
+  startTime: values.startTime,
+  startDate: values.startDate,
+  startMode: values.startMode,
+  startEpoch: resolveStartEpoch(values),
+  timeZone: values.timeZone,
+  twapTargetEndTime: values.twapTargetEndTime,
+  twapTimeZone: values.twapTimeZone,
+  fixingId: values.fixingId,
+  fixingDate: values.fixingDate,
+  tenor: values.tenor,
+  expiry: resolveExpiry(values),
+  expiryTime: values.expiryTime,
+  expiryDate: values.expiryDate,
+  expiryTimeZone: values.expiryTimeZone,
+  ndf: values.ndf,
+  onshore: values.onshore,
+  orderOtherComments: values.orderOtherComments,
+  rollInfo: values.rollInfo,
+});
+
+/** OrderEntry fields that are fixed once the order exists (not on AmendOrder) */
+const NON_AMENDABLE_FIELDS = new Set(["currencyPair", "side", "ndf", "onshore"]);
+
+/**
+ * Map ticket state to the GraphQL AmendOrder input (amendOrder).
+ * Unset fields are sent as null, which tells the server to clear them, so a
+ * field removed on the ticket is removed from the order too.
+ */
+export const mapOrderStateToAmendOrder = (values: OrderStateData): Record<string, unknown> => ({
+  orderId: values.orderId,
+  ...Object.fromEntries(
+    Object.entries(mapOrderStateToOrderEntry(values))
+      .filter(([field]) => !NON_AMENDABLE_FIELDS.has(field))
+      .map(([field, value]) => [field, value ?? null])
+  ),
+});
+
+/**
+ * Ticket values for a new order with the same details as an existing one.
+ * orderId, omsOrderId and execution belong to the existing order, so they are
+ * left out.
+ *
+ * @example
+ * duplicateOrderState({ orderId: "abc", side: "BUY", amount: {...}, execution: {...} })
+ * // → { side: "BUY", amount: {...} }
+ */
+export const duplicateOrderState = (values: OrderStateData): Partial<OrderStateData> => {
+  const duplicate: Partial<OrderStateData> = { ...values };
+  delete duplicate.orderId;
+  delete duplicate.omsOrderId;
+  delete duplicate.execution;
+  return duplicate;
+};
+
+/**
+ * Ticket values for a new order that reverses what an existing order filled:
+ * the duplicate with the side flipped and the amount set to the filled quantity
+ * (in the order's currency).
+ *
+ * @example
+ * reverseOrderState({ side: "BUY", amount: { amount: 1000000, ccy: "GBP" }, ... }, 400000)
+ * // → { side: "SELL", amount: { amount: 400000, ccy: "GBP" }, ... }
+ */
+export const reverseOrderState = (
+  values: OrderStateData,
+  filledAmount: number
+): Partial<OrderStateData> => ({
+  ...duplicateOrderState(values),
+  side: values.side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY,
+  amount: { amount: filledAmount, ccy: values.amount.ccy },
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { StartMode } from "../types/domain";
+
+import { resolveStartEpoch } from "./startTime";
+
+describe("startTime", () => {
+  describe("resolveStartEpoch", () => {
+    it("expect the start time in its zone when START_AT fields are set", () => {
+      expect(
+        resolveStartEpoch({
+          startMode: StartMode.START_AT,
+          startDate: "2026-10-20",
+          startTime: "09:30:00",
+          timeZone: "Europe/London",
+        })
+      ).toBe(Date.parse("2026-10-20T08:30:00Z"));
+    });
+
+    it("expect the existing start epoch when START_AT fields are incomplete", () => {
+      expect(
+        resolveStartEpoch({
+          startMode: StartMode.START_AT,
+          startTime: "09:30:00",
+          startEpoch: 1792485000000,
+        })
+      ).toBe(1792485000000);
+    });
+
+    it("expect undefined when the order starts now", () => {
+      expect(
+        resolveStartEpoch({
+          startMode: StartMode.START_NOW,
+          startDate: "2026-10-20",
+          startTime: "09:30:00",
+          timeZone: "Europe/London",
+          startEpoch: 1792485000000,
+        })
+      ).toBeUndefined();
+    });
+  });
+});
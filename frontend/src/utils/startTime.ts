@@ -0,0 +1,35 @@
+/**
+ * Start Time Utilities
+ *
+ * START_AT orders collect startDate, startTime and timeZone on the ticket; the
+ * server holds the order back until startEpoch (epoch ms). This folds the
+ * ticket fields into that epoch, so the order starts at that wall-clock time in
+ * the chosen zone.
+ *
+ * Used by: orderMappers (createOrder / amendOrder inputs), OrderFooter
+ * (start countdown).
+ */
+
+import { OrderStateData, StartMode } from "../types/domain";
+
+import { zonedTimeToEpoch } from "./zonedTime";
+
+/**
+ * Epoch a START_AT order starts at.
+ *
+ * @param values - Ticket values
+ * @returns Start epoch from the ticket's start fields (the order's existing
+ * startEpoch when they are incomplete), undefined unless startMode is START_AT
+ *
+ * @example
+ * resolveStartEpoch({ startMode: "START_AT", startDate: "2026-10-20",
+ *   startTime: "09:30:00", timeZone: "Europe/London" })
+ * → 1792485000000 (08:30 UTC)
+ */
+export const resolveStartEpoch = (values: Partial<OrderStateData>): number | undefined => {
+  const { startMode, startDate, startTime, timeZone } = values;
+  if (startMode !== StartMode.START_AT) return undefined;
+  if (!startDate || !startTime || !timeZone) return values.startEpoch;
+
+  return zonedTimeToEpoch(startDate, startTime, timeZone);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { ExecutionInfo, OrderStatus } from "../types/domain";
+
+import { twapProgress } from "./twapProgress";
+
+const START = Date.parse("2026-10-21T12:00:00Z");
+const END = START + 600000;
+
+const execution = (filled: number): ExecutionInfo => ({
+  status: OrderStatus.LIVE,
+  startTime: START,
+  targetEndTime: END,
+  filled: { amount: filled, ccy: "GBP" },
+});
+
+describe("twapProgress", () => {
+  it("expect behind schedule when less has filled than time has elapsed", () => {
+    expect(twapProgress(execution(400000), 1000000, START + 300000)).toEqual({
+      elapsed: 0.5,
+      filled: 0.4,
+      deviation: expect.closeTo(-0.1),
+      scheduleStatus: "BEHIND",
+      remainingMs: 300000,
+    });
+  });
+
+  it("expect ahead of schedule when more has filled than time has elapsed", () => {
+    expect(twapProgress(execution(600000), 1000000, START + 300000)?.scheduleStatus).toBe("AHEAD");
+  });
+
+  it("expect on schedule when filled is within tolerance of elapsed", () => {
+    expect(twapProgress(execution(490000), 1000000, START + 300000)?.scheduleStatus).toBe(
+      "ON_SCHEDULE"
+    );
+  });
+
+  it("expect the whole window elapsed and nothing left when the end time has passed", () => {
+    expect(twapProgress(execution(1000000), 1000000, END + 5000)).toMatchObject({
+      elapsed: 1,
+      filled: 1,
+      remainingMs: 0,
+    });
+  });
+
+  it("expect the whole window elapsed when the end time is not after the start", () => {
+    expect(twapProgress({ ...execution(0), targetEndTime: START }, 1000000, START)?.elapsed).toBe(
+      1
+    );
+  });
+
+  it("expect nothing filled when the execution has no fills yet", () => {
+    expect(
+      twapProgress(
+        { status: OrderStatus.LIVE, startTime: START, targetEndTime: END },
+        1000000,
+        START
+      )?.filled
+    ).toBe(0);
+  });
+
+  it("expect null when the order has not gone live", () => {
+    expect(
+      twapProgress({ status: OrderStatus.PENDING_LIVE, targetEndTime: END }, 1000000, START)
+    ).toBeNull();
+  });
+
+  it("expect null when the amount is zero", () => {
+    expect(twapProgress(execution(0), 0, START)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * TWAP Progress Utilities
+ *
+ * A TWAP order is sliced evenly between going live (execution.startTime) and its
+ * target end time (execution.targetEndTime), so by any moment it should have
+ * filled the same share of its amount as the share of time that has elapsed.
+ * Comparing the two tells whether execution is ahead of or behind schedule.
+ *
+ * Used by: TwapProgress.
+ */
+
+import type { ExecutionInfo } from "../types/domain";
+
+/** Within this share of the amount of schedule counts as on schedule */
+export const SCHEDULE_TOLERANCE = 0.02;
+
+export type ScheduleStatus = "AHEAD" | "ON_SCHEDULE" | "BEHIND";
+
+export interface TwapProgress {
+  /** Share of the execution window elapsed (0..1) */
+  elapsed: number;
+  /** Share of the amount filled (0..1) */
+  filled: number;
+  /** filled - elapsed: positive when ahead of schedule */
+  deviation: number;
+  scheduleStatus: ScheduleStatus;
+  /** Milliseconds left until the target end time (0 once reached) */
+  remainingMs: number;
+}
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Progress of a TWAP order against its schedule.
+ *
+ * @param execution - Live execution (startTime, targetEndTime, filled)
+ * @param amount - Order amount
+ * @param now - Current epoch
+ * @returns Progress, or null until the order has a start and target end time
+ *
+ * @example
+ * // Half way through the window with 40% filled
+ * twapProgress({ status: "LIVE", startTime: 0, targetEndTime: 600000,
+ *   filled: { amount: 400000, ccy: "GBP" } }, 1000000, 300000)
+ * → { elapsed: 0.5, filled: 0.4, deviation: -0.1, scheduleStatus: "BEHIND", remainingMs: 300000 }
+ */
+export const twapProgress = (
+  execution: ExecutionInfo,
+  amount: number,
+  now: number
+): TwapProgress | null => {
+  const { startTime, targetEndTime } = execution;
+  if (startTime === undefined || targetEndTime === undefined || amount <= 0) return null;
+
+  const window = targetEndTime - startTime;
+  const elapsed = window > 0 ? clamp((now - startTime) / window) : 1;
+  const filled = clamp((execution.filled?.amount ?? 0) / amount);
+  const deviation = filled - elapsed;
+
+  return {
+    elapsed,
+    filled,
+    deviation,
+    scheduleStatus:
+      deviation > SCHEDULE_TOLERANCE
+        ? "AHEAD"
+        : deviation < -SCHEDULE_TOLERANCE
+          ? "BEHIND"
+          : "ON_SCHEDULE",
+    remainingMs: Math.max(0, targetEndTime - now),
+  };
+};
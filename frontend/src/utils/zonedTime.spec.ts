@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { zonedParts, zonedTimeToEpoch } from "./zonedTime";
+
+describe("zonedTime", () => {
+  describe("zonedTimeToEpoch", () => {
+    it("expect summer time offset to apply when the date is in BST", () => {
+      expect(zonedTimeToEpoch("2026-10-21", "16:00", "Europe/London")).toBe(
+        Date.parse("2026-10-21T15:00:00Z")
+      );
+    });
+
+    it("expect no offset when the date is after the clocks go back", () => {
+      expect(zonedTimeToEpoch("2026-10-26", "16:00", "Europe/London")).toBe(
+        Date.parse("2026-10-26T16:00:00Z")
+      );
+    });
+
+    it("expect zones west of UTC to be converted when the date is in standard time", () => {
+      expect(zonedTimeToEpoch("2026-11-02", "10:00", "America/New_York")).toBe(
+        Date.parse("2026-11-02T15:00:00Z")
+      );
+    });
+
+    it("expect the UTC date to be the day before when the zone is ahead of UTC", () => {
+      expect(zonedTimeToEpoch("2026-10-21", "07:30:15", "Asia/Tokyo")).toBe(
+        Date.parse("2026-10-20T22:30:15Z")
+      );
+    });
+  });
+
+  describe("zonedParts", () => {
+    it("expect wall-clock fields in the zone when an instant is given", () => {
+      expect(zonedParts(Date.parse("2026-10-21T23:30:05Z"), "Asia/Tokyo")).toEqual({
+        year: 2026,
+        month: 10,
+        day: 22,
+        hour: 8,
+        minute: 30,
+        second: 5,
+      });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Time Zone Utilities
+ *
+ * Conversions between epochs and wall-clock date/times in IANA time zones,
+ * using Intl (no time zone database of our own). Order fields such as
+ * expiryDate/expiryTime/expiryTimeZone and fixings are wall-clock values.
+ *
+ * Used by: fixings (fixing times), expiry (GTD/GTT end time).
+ */
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Cached numeric date/time formatter per time zone (creating one is slow) */
+const partsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** Wall-clock fields (year, month, day, hour, minute, second) of an instant in a time zone */
+export const zonedParts = (epoch: number, timeZone: string): Record<string, number> =>
+  Object.fromEntries(
+    partsFormatter(timeZone)
+      .formatToParts(new Date(epoch))
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  );
+
+/** Offset (ms) of a time zone from UTC at an instant, e.g. +3600000 for BST */
+const zoneOffset = (epoch: number, timeZone: string): number => {
+  const p = zonedParts(epoch, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(epoch / 1000) * 1000;
+};
+
+/**
+ * Convert a wall-clock date and time in a time zone to an epoch.
+ *
+ * @param date - Calendar date (YYYY-MM-DD)
+ * @param time - Wall-clock time (HH:mm or HH:mm:ss)
+ * @param timeZone - IANA time zone (e.g., "Europe/London")
+ * @returns Epoch milliseconds
+ *
+ * @example
+ * zonedTimeToEpoch("2026-10-21", "16:00", "Europe/London") → 2026-10-21T15:00:00Z
+ */
+export const zonedTimeToEpoch = (date: string, time: string, timeZone: string): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute, second = 0] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // The offset at the guess can differ from the offset at the result when a
+  // daylight saving change falls in between, so correct once more
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return wallClock - zoneOffset(guess, timeZone);
+};